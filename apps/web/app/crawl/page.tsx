@@ -2,6 +2,8 @@
 
 import { useEffect, useMemo, useState } from "react";
 import { workerUrl } from "@/lib/worker";
+import { useJobEvents, type JobFeedItem } from "@/lib/jobEvents";
+import { useProjectId } from "@/lib/project";
 
 type CrawlJob = {
   id: string;
@@ -15,6 +17,29 @@ type CrawlJob = {
   last_error: string | null;
 };
 
+type CrawlFailures = {
+  deadLetters: {
+    model_id: string;
+    url: string;
+    attempt_count: number;
+    error_class: string | null;
+    last_error: string | null;
+    updated_at: string;
+  }[];
+  byClass: Record<string, number>;
+};
+
+type SourceType = "url" | "search" | "category" | "tag" | "designer" | "collection";
+
+const SOURCE_OPTIONS: { value: SourceType; label: string; field: string; placeholder: string }[] = [
+  { value: "url", label: "起始 URL", field: "url", placeholder: "https://makerworld.com/zh/3d-models" },
+  { value: "search", label: "关键词搜索", field: "query", placeholder: "例如：wall mount hook" },
+  { value: "category", label: "分类", field: "slug", placeholder: "例如：2000-household" },
+  { value: "tag", label: "标签", field: "tag", placeholder: "例如：hook" },
+  { value: "designer", label: "设计师主页", field: "handle", placeholder: "例如：@designer" },
+  { value: "collection", label: "合集", field: "id", placeholder: "合集 ID" },
+];
+
 class FetchError extends Error {
   status: number;
   constructor(status: number, message: string) {
@@ -58,6 +83,15 @@ async function postJson<T>(url: string, body: unknown): Promise<T> {
   return (await res.json()) as T;
 }
 
+async function deleteJson<T>(url: string): Promise<T> {
+  const res = await fetch(url, { method: "DELETE" });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new FetchError(res.status, text);
+  }
+  return (await res.json()) as T;
+}
+
 async function getJson<T>(url: string): Promise<T> {
   const res = await fetch(url, { cache: "no-store" });
   if (!res.ok) {
@@ -67,34 +101,63 @@ async function getJson<T>(url: string): Promise<T> {
   return (await res.json()) as T;
 }
 
+function LiveFeed({ feed }: { feed: JobFeedItem[] }) {
+  return (
+    <div className="text-sm">
+      <div className="text-zinc-500">最近处理</div>
+      <ul className="mt-1 max-h-64 divide-y divide-zinc-100 overflow-auto">
+        {feed.map((f) => (
+          <li key={f.seq} className="flex items-center gap-2 py-1">
+            <span className={f.ok ? "text-emerald-600" : f.retrying ? "text-amber-600" : "text-red-600"}>
+              {f.ok ? "成功" : f.retrying ? "重试" : "失败"}
+            </span>
+            <a className="font-mono underline" href={f.url} target="_blank" rel="noreferrer">
+              {f.modelId}
+            </a>
+            <span className="truncate text-zinc-600">{f.ok ? f.title ?? "" : f.errorClass ?? f.error}</span>
+            <span className="ml-auto shrink-0 text-xs text-zinc-400">{new Date(f.at).toLocaleTimeString()}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 export default function CrawlPage() {
   const [startUrl, setStartUrl] = useState("https://makerworld.com/zh/3d-models");
+  const [sourceType, setSourceType] = useState<SourceType>("url");
+  const [sourceValue, setSourceValue] = useState("");
   const [limitModels, setLimitModels] = useState(200);
   const [maxScrolls, setMaxScrolls] = useState(60);
+  const [maxAttempts, setMaxAttempts] = useState(3);
   const [cookieHeader, setCookieHeader] = useState("");
+  const projectId = useProjectId();
   const [jobId, setJobId] = useState<string>("");
-  const [job, setJob] = useState<CrawlJob | null>(null);
+  const { job, feed, disconnected } = useJobEvents<CrawlJob>(jobId);
+  const [failures, setFailures] = useState<CrawlFailures | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [busy, setBusy] = useState(false);
 
+  const jobStorageKey = `mw_crawl_job_id:${projectId}`;
+
   const clearJobState = () => {
     setJobId("");
-    setJob(null);
-    localStorage.removeItem("mw_crawl_job_id");
+    localStorage.removeItem(jobStorageKey);
   };
 
   useEffect(() => {
-    const saved = localStorage.getItem("mw_crawl_job_id");
+    const saved = localStorage.getItem(jobStorageKey);
     if (saved) {
       setJobId(saved);
       return;
     }
-    getJson<CrawlJob>(workerUrl("/api/crawl-jobs-latest"))
+    setJobId("");
+    getJson<CrawlJob>(workerUrl(`/api/crawl-jobs-latest?projectId=${encodeURIComponent(projectId)}`))
       .then((j) => {
         if (j?.id) setJobId(j.id);
       })
       .catch(() => {});
-  }, []);
+  }, [jobStorageKey, projectId]);
 
   const tips = useMemo(() => {
     if (!job?.last_error) return null;
@@ -108,29 +171,39 @@ export default function CrawlPage() {
   }, [job?.last_error, cookieHeader]);
 
   useEffect(() => {
-    if (!jobId) return;
+    if (!jobId || !disconnected) return;
     let cancelled = false;
-    const tick = async () => {
-      try {
-        const j = await getJson<CrawlJob>(workerUrl(`/api/crawl-jobs/${jobId}`));
-        if (!cancelled) setJob(j);
-      } catch (e) {
-        if (cancelled) return;
-        if (e instanceof FetchError && e.status === 404) {
-          clearJobState();
-          setError("历史任务不存在，已自动清除任务ID；请重新开始爬取");
-          return;
-        }
-        setError(formatError(e));
+    getJson<CrawlJob>(workerUrl(`/api/crawl-jobs/${jobId}`)).catch((e) => {
+      if (cancelled) return;
+      if (e instanceof FetchError && e.status === 404) {
+        setJobId("");
+        localStorage.removeItem(jobStorageKey);
+        setError("历史任务不存在，已自动清除任务ID；请重新开始爬取");
+        return;
       }
+      setError(formatError(e));
+    });
+    return () => {
+      cancelled = true;
     };
-    tick();
-    const t = setInterval(tick, 2000);
+  }, [jobId, disconnected, jobStorageKey]);
+
+  const failedCount = job?.failed_count ?? 0;
+  const jobStatus = job?.status ?? "";
+  useEffect(() => {
+    if (!jobId) return;
+    let cancelled = false;
+    getJson<CrawlFailures>(workerUrl(`/api/crawl-jobs/${jobId}/failures?limit=50`))
+      .then((f) => {
+        if (!cancelled) setFailures(f);
+      })
+      .catch(() => {
+        if (!cancelled) setFailures(null);
+      });
     return () => {
       cancelled = true;
-      clearInterval(t);
     };
-  }, [jobId]);
+  }, [jobId, failedCount, jobStatus]);
 
   const start = async (override?: {
     startUrl?: string;
@@ -145,18 +218,26 @@ export default function CrawlPage() {
       const effectiveLimitModels = override?.limitModels ?? limitModels;
       const effectiveMaxScrolls = override?.maxScrolls ?? maxScrolls;
       const effectiveCookie = override?.cookieHeader ?? cookieHeader;
+      const effectiveSourceType = override?.startUrl ? "url" : sourceType;
+      const option = SOURCE_OPTIONS.find((o) => o.value === effectiveSourceType) ?? SOURCE_OPTIONS[0];
+      const source =
+        effectiveSourceType === "url"
+          ? { type: "url", url: effectiveStartUrl }
+          : { type: effectiveSourceType, [option.field]: sourceValue.trim() };
 
       const result = await postJson<{ id: string }>(workerUrl("/api/crawl-jobs"), {
         startUrl: effectiveStartUrl,
+        source,
         limitModels: effectiveLimitModels,
         maxScrolls: effectiveMaxScrolls,
         concurrency: 1,
         delayMs: 1200,
+        maxAttempts,
         cookieHeader: effectiveCookie.trim() ? effectiveCookie.trim() : undefined,
-        clearHistory: true,
+        projectId,
       });
       setJobId(result.id);
-      localStorage.setItem("mw_crawl_job_id", result.id);
+      localStorage.setItem(jobStorageKey, result.id);
     } catch (e) {
       setError(formatError(e));
     } finally {
@@ -167,11 +248,30 @@ export default function CrawlPage() {
   const start10k = async () => {
     const u = "https://makerworld.com/zh/3d-models";
     setStartUrl(u);
+    setSourceType("url");
     setLimitModels(10000);
     setMaxScrolls(5000);
     await start({ startUrl: u, limitModels: 10000, maxScrolls: 5000 });
   };
 
+  const startRefresh = async () => {
+    setError(null);
+    setBusy(true);
+    try {
+      const result = await postJson<{ id: string }>(workerUrl("/api/refresh-jobs"), {
+        limitModels,
+        cookieHeader: cookieHeader.trim() ? cookieHeader.trim() : undefined,
+        projectId,
+      });
+      setJobId(result.id);
+      localStorage.setItem(jobStorageKey, result.id);
+    } catch (e) {
+      setError(formatError(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
   const clearJob = async () => {
     clearJobState();
   };
@@ -186,26 +286,87 @@ export default function CrawlPage() {
     await postJson(workerUrl(`/api/crawl-jobs/${jobId}/resume`), {});
   };
 
+  const cancel = async () => {
+    if (!jobId) return;
+    setError(null);
+    try {
+      await postJson(workerUrl(`/api/crawl-jobs/${jobId}/cancel`), {});
+    } catch (e) {
+      setError(formatError(e));
+    }
+  };
+
+  const deleteJob = async () => {
+    if (!jobId) return;
+    if (!confirm("删除这个爬取任务及其队列和失败记录？已入库的模型会保留。")) return;
+    setError(null);
+    try {
+      await deleteJson(workerUrl(`/api/crawl-jobs/${jobId}`));
+      clearJobState();
+    } catch (e) {
+      setError(formatError(e));
+    }
+  };
+
+  const retryFailed = async () => {
+    if (!jobId) return;
+    setError(null);
+    try {
+      await postJson(workerUrl(`/api/crawl-jobs/${jobId}/retry-failed`), {});
+    } catch (e) {
+      setError(formatError(e));
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="space-y-2">
         <h1 className="text-xl font-semibold">爬取</h1>
         <div className="text-sm text-zinc-600">
-          从 <span className="font-mono">/zh/3d-models</span> 自动发现模型链接并进入子页面抓取字段。
+          从 <span className="font-mono">/zh/3d-models</span>、搜索结果、分类/标签、设计师主页或合集自动发现模型链接并进入子页面抓取字段。
         </div>
       </div>
 
       <div className="grid gap-4 rounded-lg border border-zinc-200 bg-white p-4">
-        <label className="grid gap-1">
-          <div className="text-sm font-medium">起始 URL</div>
-          <input
-            className="h-10 rounded border border-zinc-200 px-3 text-sm"
-            value={startUrl}
-            onChange={(e) => setStartUrl(e.target.value)}
-          />
-        </label>
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-[200px_1fr]">
+          <label className="grid gap-1">
+            <div className="text-sm font-medium">发现来源</div>
+            <select
+              className="h-10 rounded border border-zinc-200 bg-white px-2 text-sm"
+              value={sourceType}
+              onChange={(e) => setSourceType(e.target.value as SourceType)}
+            >
+              {SOURCE_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {sourceType === "url" ? (
+            <label className="grid gap-1">
+              <div className="text-sm font-medium">起始 URL</div>
+              <input
+                className="h-10 rounded border border-zinc-200 px-3 text-sm"
+                value={startUrl}
+                onChange={(e) => setStartUrl(e.target.value)}
+              />
+            </label>
+          ) : (
+            <label className="grid gap-1">
+              <div className="text-sm font-medium">{SOURCE_OPTIONS.find((o) => o.value === sourceType)?.label}</div>
+              <input
+                className="h-10 rounded border border-zinc-200 px-3 text-sm"
+                value={sourceValue}
+                placeholder={SOURCE_OPTIONS.find((o) => o.value === sourceType)?.placeholder}
+                onChange={(e) => setSourceValue(e.target.value)}
+              />
+            </label>
+          )}
+        </div>
 
-        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
           <label className="grid gap-1">
             <div className="text-sm font-medium">最多模型数</div>
             <input
@@ -217,7 +378,7 @@ export default function CrawlPage() {
           </label>
 
           <label className="grid gap-1">
-            <div className="text-sm font-medium">最大滚动次数</div>
+            <div className="text-sm font-medium">最大滚动次数 / 翻页数</div>
             <input
               type="number"
               className="h-10 rounded border border-zinc-200 px-3 text-sm"
@@ -225,6 +386,16 @@ export default function CrawlPage() {
               onChange={(e) => setMaxScrolls(Number(e.target.value))}
             />
           </label>
+
+          <label className="grid gap-1">
+            <div className="text-sm font-medium">单个模型最多尝试次数</div>
+            <input
+              type="number"
+              className="h-10 rounded border border-zinc-200 px-3 text-sm"
+              value={maxAttempts}
+              onChange={(e) => setMaxAttempts(Number(e.target.value))}
+            />
+          </label>
         </div>
 
         <label className="grid gap-1">
@@ -252,6 +423,13 @@ export default function CrawlPage() {
           >
             一键爬取1万
           </button>
+          <button
+            disabled={busy}
+            onClick={startRefresh}
+            className="h-10 rounded border border-zinc-200 bg-white px-4 text-sm font-medium hover:bg-zinc-50 disabled:opacity-60"
+          >
+            刷新已入库模型指标
+          </button>
           {jobId ? (
             <a className="text-sm underline" href={`/label`}>
               去标注页查看表格
@@ -281,6 +459,26 @@ export default function CrawlPage() {
               <button onClick={resume} className="h-9 rounded border border-zinc-200 px-3 text-sm hover:bg-zinc-50">
                 继续
               </button>
+              <button
+                onClick={cancel}
+                disabled={Boolean(job.finished_at)}
+                className="h-9 rounded border border-zinc-200 px-3 text-sm hover:bg-zinc-50 disabled:opacity-60"
+              >
+                取消
+              </button>
+              <button
+                onClick={retryFailed}
+                disabled={!failures || failures.deadLetters.length === 0 || job.status === "cancelled"}
+                className="h-9 rounded border border-zinc-200 px-3 text-sm hover:bg-zinc-50 disabled:opacity-60"
+              >
+                重试失败
+              </button>
+              <button
+                onClick={deleteJob}
+                className="h-9 rounded border border-zinc-200 px-3 text-sm text-red-600 hover:bg-zinc-50"
+              >
+                删除任务
+              </button>
             </div>
           </div>
           <div className="grid grid-cols-2 gap-3 text-sm md:grid-cols-4">
@@ -307,6 +505,44 @@ export default function CrawlPage() {
               <div className="font-mono text-red-600">{job.last_error}</div>
             </div>
           ) : null}
+          {failures && Object.keys(failures.byClass).length > 0 ? (
+            <div className="flex flex-wrap gap-2 text-sm">
+              {Object.entries(failures.byClass).map(([k, v]) => (
+                <div key={k} className="rounded border border-zinc-200 px-2 py-1">
+                  <span className="font-mono">{k}</span>：<span className="tabular-nums">{v}</span>
+                </div>
+              ))}
+            </div>
+          ) : null}
+          {feed.length > 0 ? <LiveFeed feed={feed} /> : null}
+          {failures && failures.deadLetters.length > 0 ? (
+            <div className="overflow-auto">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr className="border-b border-zinc-200 text-left text-zinc-600">
+                    <th className="p-2">模型</th>
+                    <th className="p-2">尝试次数</th>
+                    <th className="p-2">错误类型</th>
+                    <th className="p-2">错误信息</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {failures.deadLetters.map((f) => (
+                    <tr key={f.model_id} className="border-b border-zinc-100 align-top">
+                      <td className="p-2">
+                        <a className="font-mono underline" href={f.url} target="_blank" rel="noreferrer">
+                          {f.model_id}
+                        </a>
+                      </td>
+                      <td className="p-2 tabular-nums">{f.attempt_count}</td>
+                      <td className="p-2 font-mono">{f.error_class ?? "-"}</td>
+                      <td className="p-2 max-w-[480px] truncate font-mono text-red-600">{f.last_error ?? "-"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
         </div>
       ) : null}
     </div>
@@ -0,0 +1,481 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { workerUrl } from "@/lib/worker";
+import { useProjectId } from "@/lib/project";
+
+type Grade = "S" | "A" | "B" | "C" | "D";
+
+type GoldModel = {
+  id: string;
+  title: string | null;
+  url: string;
+  addedAt: string;
+  reviewer: string | null;
+  verified: boolean;
+  expectedGrade: Grade | null;
+};
+
+type FieldMetrics = { support: number; accuracy: number | null; precision: number | null; recall: number | null };
+
+type Report = {
+  total: number;
+  evaluated: number;
+  failed: number;
+  exactAccuracy: number | null;
+  withinOneAccuracy: number | null;
+  kappa: number | null;
+  confusion: Record<Grade, Record<Grade, number>>;
+  fields: Record<string, FieldMetrics>;
+  latency: { avgMs: number | null; p50Ms: number | null; p95Ms: number | null };
+  usage: { inputTokens: number; outputTokens: number; imageTokens: number; cost: number | null; unpricedCount: number };
+};
+
+type EvalRun = {
+  id: string;
+  name: string | null;
+  status: string;
+  provider: string | null;
+  model: string | null;
+  rubric_version: number | null;
+  total_count: number;
+  processed_count: number;
+  failed_count: number;
+  last_error: string | null;
+  created_at: string;
+  finished_at: string | null;
+  report: Report;
+};
+
+type RubricSummary = { version: number; name: string };
+type LabelProviderStatus = { name: string; model: string; configured: boolean };
+
+const GRADES: Grade[] = ["S", "A", "B", "C", "D"];
+
+const FIELD_LABELS: Record<string, string> = {
+  story: "故事/主题",
+  selling_points: "卖点",
+  interaction: "互动",
+  scene: "场景",
+  params: "参数",
+  instructions: "说明",
+  structure_clarity: "结构清晰度",
+  multicolor: "多色分件",
+  advanced_structure: "高级结构",
+  use_case: "用途",
+};
+
+function normalizeErrorText(text: string) {
+  const t = (text ?? "").trim();
+  if (!t) return "请求失败";
+  try {
+    const parsed = JSON.parse(t) as { error?: unknown };
+    if (typeof parsed?.error === "string") return parsed.error;
+  } catch {}
+  return t.length > 300 ? `${t.slice(0, 300)}…` : t;
+}
+
+async function requestJson<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    cache: "no-store",
+    headers: body === undefined ? undefined : { "content-type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error(normalizeErrorText(await res.text()));
+  return (await res.json()) as T;
+}
+
+const pct = (v: number | null) => (v === null ? "-" : `${(v * 100).toFixed(1)}%`);
+
+function runTitle(run: EvalRun) {
+  return run.name || `${run.provider ?? "-"} · v${run.rubric_version ?? "-"}`;
+}
+
+export default function EvalPage() {
+  const projectId = useProjectId();
+  const [gold, setGold] = useState<GoldModel[]>([]);
+  const [runs, setRuns] = useState<EvalRun[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [rubrics, setRubrics] = useState<RubricSummary[]>([]);
+  const [providers, setProviders] = useState<LabelProviderStatus[]>([]);
+  const [name, setName] = useState("");
+  const [provider, setProvider] = useState("");
+  const [rubricVersion, setRubricVersion] = useState(0);
+  const [goldIds, setGoldIds] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const qs = `projectId=${encodeURIComponent(projectId)}`;
+      const [g, r] = await Promise.all([
+        requestJson<{ rows: GoldModel[] }>(workerUrl(`/api/gold?${qs}`), "GET"),
+        requestJson<{ rows: EvalRun[] }>(workerUrl(`/api/eval-runs?${qs}`), "GET"),
+      ]);
+      setGold(g.rows);
+      setRuns(r.rows);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    requestJson<{ rows: RubricSummary[] }>(workerUrl("/api/rubrics"), "GET")
+      .then((data) => setRubrics(data.rows))
+      .catch(() => setRubrics([]));
+    requestJson<{ labelProviders: LabelProviderStatus[] }>(workerUrl("/api/env-status"), "GET")
+      .then((data) => setProviders(data.labelProviders.filter((p) => p.configured)))
+      .catch(() => setProviders([]));
+  }, []);
+
+  const running = runs.some((r) => !r.finished_at);
+  useEffect(() => {
+    if (!running) return;
+    const t = setInterval(load, 3000);
+    return () => clearInterval(t);
+  }, [running, load]);
+
+  const act = async (fn: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await fn();
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addGold = (body: { modelIds?: string[]; allReviewed?: boolean }) =>
+    act(async () => {
+      const res = await requestJson<{ added: number }>(workerUrl("/api/gold"), "POST", { projectId, ...body });
+      if (res.added === 0) setError("没有可加入的模型（只能加入当前项目中已人工审核的模型）");
+      setGoldIds("");
+    });
+
+  const startRun = () =>
+    act(async () => {
+      const res = await requestJson<{ id: string }>(workerUrl("/api/eval-runs"), "POST", {
+        projectId,
+        name: name.trim() || undefined,
+        provider: provider || undefined,
+        rubricVersion: rubricVersion > 0 ? rubricVersion : undefined,
+      });
+      setSelected((list) => [res.id, ...list].slice(0, 4));
+      setName("");
+    });
+
+  const toggle = (id: string) =>
+    setSelected((list) => (list.includes(id) ? list.filter((x) => x !== id) : [...list, id].slice(-4)));
+
+  const compared = selected.map((id) => runs.find((r) => r.id === id)).filter((r): r is EvalRun => Boolean(r));
+  const verified = gold.filter((g) => g.verified).length;
+
+  const metricRows: { label: string; value: (r: Report) => string }[] = [
+    { label: "已评测 / 总数", value: (r) => `${r.evaluated} / ${r.total}` },
+    { label: "失败", value: (r) => String(r.failed) },
+    { label: "等级完全一致", value: (r) => pct(r.exactAccuracy) },
+    { label: "相差不超过一级", value: (r) => pct(r.withinOneAccuracy) },
+    { label: "Cohen's κ", value: (r) => (r.kappa === null ? "-" : r.kappa.toFixed(3)) },
+    { label: "平均耗时", value: (r) => (r.latency.avgMs === null ? "-" : `${r.latency.avgMs} ms`) },
+    { label: "P95 耗时", value: (r) => (r.latency.p95Ms === null ? "-" : `${r.latency.p95Ms} ms`) },
+    { label: "输入 / 输出 tokens", value: (r) => `${r.usage.inputTokens} / ${r.usage.outputTokens}` },
+    {
+      label: "费用",
+      value: (r) =>
+        r.usage.cost === null
+          ? "未设置价格"
+          : `${r.usage.cost.toFixed(4)}${r.usage.unpricedCount > 0 ? `（${r.usage.unpricedCount} 次无价格）` : ""}`,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-xl font-semibold">评测</h1>
+        <div className="text-sm text-zinc-600">
+          把人工审核过的模型加入金标准集，用指定的标注后端和评分标准重新标注它们，与人工结果对比。评测结果单独保存，不会改动正式标注。
+        </div>
+      </div>
+
+      {error ? <div className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div> : null}
+
+      <div className="grid gap-3 rounded-lg border border-zinc-200 bg-white p-4 text-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="font-medium">
+            金标准集 <span className="tabular-nums text-zinc-500">{verified} 个</span>
+            {gold.length > verified ? (
+              <span className="ml-2 text-xs text-amber-700">另有 {gold.length - verified} 个已失去人工审核，不参与评测</span>
+            ) : null}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              className="h-9 w-64 rounded border border-zinc-200 px-2"
+              placeholder="模型 ID，逗号分隔"
+              value={goldIds}
+              onChange={(e) => setGoldIds(e.target.value)}
+            />
+            <button
+              disabled={busy || !goldIds.trim()}
+              onClick={() =>
+                addGold({
+                  modelIds: goldIds
+                    .split(/[,\s]+/)
+                    .map((x) => x.trim())
+                    .filter(Boolean),
+                })
+              }
+              className="h-9 rounded border border-zinc-200 px-3 hover:bg-zinc-50 disabled:opacity-60"
+            >
+              加入
+            </button>
+            <button
+              disabled={busy}
+              onClick={() => addGold({ allReviewed: true })}
+              className="h-9 rounded border border-zinc-200 px-3 hover:bg-zinc-50 disabled:opacity-60"
+            >
+              加入全部已审核模型
+            </button>
+          </div>
+        </div>
+        {gold.length > 0 ? (
+          <div className="max-h-64 overflow-auto">
+            <table className="w-full border-collapse">
+              <tbody>
+                {gold.map((g) => (
+                  <tr key={g.id} className={`border-b border-zinc-100 ${g.verified ? "" : "text-zinc-400"}`}>
+                    <td className="p-2 font-mono">
+                      <a className="underline" href={g.url} target="_blank" rel="noreferrer">
+                        {g.id}
+                      </a>
+                    </td>
+                    <td className="p-2">{g.title ?? "-"}</td>
+                    <td className="p-2 font-mono">{g.expectedGrade ?? "-"}</td>
+                    <td className="p-2 text-zinc-500">{g.reviewer ?? "-"}</td>
+                    <td className="p-2 text-right">
+                      <button
+                        disabled={busy}
+                        onClick={() =>
+                          act(() =>
+                            requestJson(
+                              workerUrl(`/api/gold/${g.id}?projectId=${encodeURIComponent(projectId)}`),
+                              "DELETE",
+                            ),
+                          )
+                        }
+                        className="rounded px-2 py-1 text-red-700 hover:bg-red-50 disabled:opacity-60"
+                      >
+                        移除
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-zinc-500">还没有金标准模型。</div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 rounded-lg border border-zinc-200 bg-white p-4 text-sm">
+        <label className="grid gap-1">
+          <div className="font-medium">名称（可选）</div>
+          <input
+            className="h-10 w-48 rounded border border-zinc-200 px-2"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </label>
+        <label className="grid gap-1">
+          <div className="font-medium">标注后端</div>
+          <select
+            className="h-10 rounded border border-zinc-200 bg-white px-2"
+            value={provider}
+            onChange={(e) => setProvider(e.target.value)}
+          >
+            <option value="">默认</option>
+            {providers.map((p) => (
+              <option key={p.name} value={p.name}>
+                {p.name}（{p.model}）
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1">
+          <div className="font-medium">评分标准</div>
+          <select
+            className="h-10 rounded border border-zinc-200 bg-white px-2"
+            value={rubricVersion}
+            onChange={(e) => setRubricVersion(Number(e.target.value))}
+          >
+            <option value={0}>最新</option>
+            {rubrics.map((r) => (
+              <option key={r.version} value={r.version}>
+                v{r.version} {r.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          disabled={busy || verified === 0}
+          onClick={startRun}
+          className="h-10 rounded bg-black px-4 font-medium text-white disabled:opacity-60"
+        >
+          开始评测
+        </button>
+      </div>
+
+      <div className="rounded-lg border border-zinc-200 bg-white">
+        <table className="w-full border-collapse text-sm">
+          <thead>
+            <tr className="border-b border-zinc-200 text-left text-zinc-600">
+              <th className="p-3">对比</th>
+              <th className="p-3">评测</th>
+              <th className="p-3">状态</th>
+              <th className="p-3">进度</th>
+              <th className="p-3">完全一致</th>
+              <th className="p-3">±1 级</th>
+              <th className="p-3">κ</th>
+              <th className="p-3" />
+            </tr>
+          </thead>
+          <tbody>
+            {runs.length === 0 ? (
+              <tr>
+                <td className="p-3 text-zinc-500" colSpan={8}>
+                  还没有评测记录
+                </td>
+              </tr>
+            ) : null}
+            {runs.map((r) => (
+              <tr key={r.id} className="border-b border-zinc-100">
+                <td className="p-3">
+                  <input type="checkbox" checked={selected.includes(r.id)} onChange={() => toggle(r.id)} />
+                </td>
+                <td className="p-3">
+                  <div className="font-medium">{runTitle(r)}</div>
+                  <div className="text-xs text-zinc-500">
+                    {r.provider}/{r.model} · v{r.rubric_version} · {new Date(r.created_at).toLocaleString()}
+                  </div>
+                </td>
+                <td className="p-3">
+                  {r.status}
+                  {r.last_error ? <div className="font-mono text-xs text-red-600">{r.last_error}</div> : null}
+                </td>
+                <td className="p-3 tabular-nums">
+                  {r.processed_count + r.failed_count} / {r.total_count}
+                </td>
+                <td className="p-3 tabular-nums">{pct(r.report.exactAccuracy)}</td>
+                <td className="p-3 tabular-nums">{pct(r.report.withinOneAccuracy)}</td>
+                <td className="p-3 tabular-nums">{r.report.kappa === null ? "-" : r.report.kappa.toFixed(3)}</td>
+                <td className="p-3 text-right">
+                  {!r.finished_at ? (
+                    <button
+                      disabled={busy}
+                      onClick={() => act(() => requestJson(workerUrl(`/api/eval-runs/${r.id}/cancel`), "POST", {}))}
+                      className="rounded border border-zinc-200 px-2 py-1 hover:bg-zinc-50 disabled:opacity-60"
+                    >
+                      取消
+                    </button>
+                  ) : null}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {compared.length > 0 ? (
+        <div className="grid gap-4">
+          <div className="overflow-auto rounded-lg border border-zinc-200 bg-white">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr className="border-b border-zinc-200 text-left text-zinc-600">
+                  <th className="p-3">指标</th>
+                  {compared.map((r) => (
+                    <th key={r.id} className="p-3">
+                      {runTitle(r)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {metricRows.map((m) => (
+                  <tr key={m.label} className="border-b border-zinc-100">
+                    <td className="p-3 text-zinc-600">{m.label}</td>
+                    {compared.map((r) => (
+                      <td key={r.id} className="p-3 tabular-nums">
+                        {m.value(r.report)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                {Object.keys(FIELD_LABELS).map((key) => (
+                  <tr key={key} className="border-b border-zinc-100">
+                    <td className="p-3 text-zinc-600">{FIELD_LABELS[key]}（准确率 / 精确率 / 召回率）</td>
+                    {compared.map((r) => {
+                      const f = r.report.fields[key];
+                      return (
+                        <td key={r.id} className="p-3 tabular-nums">
+                          {f ? `${pct(f.accuracy)} / ${pct(f.precision)} / ${pct(f.recall)}` : "-"}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap gap-4">
+            {compared.map((r) => (
+              <div key={r.id} className="rounded-lg border border-zinc-200 bg-white p-4 text-sm">
+                <div className="mb-2 font-medium">{runTitle(r)}：混淆矩阵（行：人工，列：模型）</div>
+                <table className="border-collapse">
+                  <thead>
+                    <tr>
+                      <th className="p-2" />
+                      {GRADES.map((g) => (
+                        <th key={g} className="w-10 p-2 text-center font-mono">
+                          {g}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {GRADES.map((e) => (
+                      <tr key={e}>
+                        <th className="p-2 font-mono">{e}</th>
+                        {GRADES.map((p) => {
+                          const n = r.report.confusion[e]?.[p] ?? 0;
+                          return (
+                            <td
+                              key={p}
+                              className={`border border-zinc-100 p-2 text-center tabular-nums ${
+                                n === 0 ? "text-zinc-300" : e === p ? "bg-emerald-50" : "bg-amber-50"
+                              }`}
+                            >
+                              {n}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { workerUrl } from "@/lib/worker";
+import { useProjectId } from "@/lib/project";
+
+type Kind = "crawl" | "label";
+
+type JobSummary = {
+  id: string;
+  status: string;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  processed_count: number;
+  failed_count: number;
+  discovered_count?: number;
+  total_count?: number;
+  last_error: string | null;
+  config: Record<string, unknown>;
+  durationMs: number | null;
+  throughputPerMin: number | null;
+};
+
+type JobList = {
+  page: number;
+  pageSize: number;
+  total: number;
+  rows: JobSummary[];
+};
+
+type JobFailures = {
+  byClass: Record<string, number>;
+  // Label jobs only: runs that succeeded after re-asking with the validation errors.
+  repaired?: number;
+};
+
+const STATUSES = ["queued", "running", "paused", "completed", "failed", "cancelled"];
+
+const STATUS_LABELS: Record<string, string> = {
+  queued: "排队中",
+  running: "运行中",
+  paused: "已暂停",
+  completed: "已完成",
+  failed: "失败",
+  cancelled: "已取消",
+};
+
+async function getJson<T>(url: string): Promise<T> {
+  const res = await fetch(url, { cache: "no-store" });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(text);
+  }
+  return (await res.json()) as T;
+}
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(text);
+  }
+  return (await res.json()) as T;
+}
+
+function formatDuration(ms: number | null) {
+  if (ms === null) return "-";
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  if (m < 60) return `${m}m ${s % 60}s`;
+  return `${Math.floor(m / 60)}h ${m % 60}m`;
+}
+
+export default function JobsPage() {
+  const projectId = useProjectId();
+  const [kind, setKind] = useState<Kind>("crawl");
+  const [status, setStatus] = useState("");
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<JobList | null>(null);
+  const [selected, setSelected] = useState<JobSummary | null>(null);
+  const [failures, setFailures] = useState<JobFailures | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [reload, setReload] = useState(0);
+
+  const pageSize = 20;
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / pageSize)) : 1;
+
+  useEffect(() => {
+    let cancelled = false;
+    const run = async () => {
+      try {
+        const qs = new URLSearchParams({ page: String(page), pageSize: String(pageSize), projectId });
+        if (status) qs.set("status", status);
+        const res = await getJson<JobList>(workerUrl(`/api/${kind}-jobs?${qs.toString()}`));
+        if (!cancelled) setData(res);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      }
+    };
+    run();
+    const t = setInterval(run, 5000);
+    return () => {
+      cancelled = true;
+      clearInterval(t);
+    };
+  }, [kind, status, page, reload, projectId]);
+
+  const select = (job: JobSummary) => {
+    setSelected(job);
+    setFailures(null);
+    getJson<JobFailures>(workerUrl(`/api/${kind}-jobs/${job.id}/failures`))
+      .then(setFailures)
+      .catch(() => setFailures(null));
+  };
+
+  const switchKind = (k: Kind) => {
+    setKind(k);
+    setPage(1);
+    setSelected(null);
+    setFailures(null);
+    setData(null);
+  };
+
+  const clone = async (job: JobSummary) => {
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await postJson<{ id: string }>(workerUrl(`/api/${kind}-jobs/${job.id}/clone`), {});
+      setNotice(`已创建新任务 ${res.id}`);
+      setPage(1);
+      setReload((n) => n + 1);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-xl font-semibold">任务历史</h1>
+        <div className="text-sm text-zinc-600">查看历史爬取与标注任务的配置、耗时和错误，并可以用相同配置再跑一次。</div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex rounded border border-zinc-200 bg-white p-0.5 text-sm">
+          {(["crawl", "label"] as Kind[]).map((k) => (
+            <button
+              key={k}
+              onClick={() => switchKind(k)}
+              className={`rounded px-3 py-1 ${kind === k ? "bg-black text-white" : "hover:bg-zinc-50"}`}
+            >
+              {k === "crawl" ? "爬取任务" : "标注任务"}
+            </button>
+          ))}
+        </div>
+        <select
+          className="h-9 rounded border border-zinc-200 bg-white px-2 text-sm"
+          value={status}
+          onChange={(e) => {
+            setStatus(e.target.value);
+            setPage(1);
+          }}
+        >
+          <option value="">全部状态</option>
+          {STATUSES.map((s) => (
+            <option key={s} value={s}>
+              {STATUS_LABELS[s]}
+            </option>
+          ))}
+        </select>
+        {error ? <div className="text-sm text-red-600">{error}</div> : null}
+        {notice ? <div className="text-sm text-emerald-700">{notice}</div> : null}
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-[1fr_360px]">
+        <div className="overflow-auto rounded-lg border border-zinc-200 bg-white">
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="border-b border-zinc-200 text-left text-zinc-600">
+                <th className="p-2">创建时间</th>
+                <th className="p-2">状态</th>
+                <th className="p-2">{kind === "crawl" ? "发现" : "总数"}</th>
+                <th className="p-2">已处理</th>
+                <th className="p-2">失败</th>
+                <th className="p-2">耗时</th>
+                <th className="p-2">速度（/分钟）</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data && data.rows.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="p-4 text-center text-zinc-500">
+                    暂无任务
+                  </td>
+                </tr>
+              ) : null}
+              {data?.rows.map((j) => (
+                <tr
+                  key={j.id}
+                  onClick={() => select(j)}
+                  className={`cursor-pointer border-b border-zinc-100 hover:bg-zinc-50 ${
+                    selected?.id === j.id ? "bg-zinc-100" : ""
+                  }`}
+                >
+                  <td className="p-2">{new Date(j.created_at).toLocaleString()}</td>
+                  <td className="p-2">{STATUS_LABELS[j.status] ?? j.status}</td>
+                  <td className="p-2 tabular-nums">{kind === "crawl" ? j.discovered_count : j.total_count}</td>
+                  <td className="p-2 tabular-nums">{j.processed_count}</td>
+                  <td className="p-2 tabular-nums">{j.failed_count}</td>
+                  <td className="p-2 tabular-nums">{formatDuration(j.durationMs)}</td>
+                  <td className="p-2 tabular-nums">
+                    {j.throughputPerMin === null ? "-" : j.throughputPerMin.toFixed(1)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex items-center justify-between p-2 text-sm">
+            <div className="text-zinc-600">共 {data?.total ?? 0} 个</div>
+            <div className="flex items-center gap-2">
+              <button
+                disabled={page <= 1}
+                onClick={() => setPage((p) => p - 1)}
+                className="h-8 rounded border border-zinc-200 px-3 hover:bg-zinc-50 disabled:opacity-60"
+              >
+                上一页
+              </button>
+              <span className="tabular-nums">
+                {page} / {pageCount}
+              </span>
+              <button
+                disabled={page >= pageCount}
+                onClick={() => setPage((p) => p + 1)}
+                className="h-8 rounded border border-zinc-200 px-3 hover:bg-zinc-50 disabled:opacity-60"
+              >
+                下一页
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {selected ? (
+          <div className="grid content-start gap-3 rounded-lg border border-zinc-200 bg-white p-4 text-sm">
+            <div className="font-mono text-xs break-all">{selected.id}</div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => clone(selected)}
+                className="h-9 rounded bg-black px-3 text-sm font-medium text-white"
+              >
+                用相同配置新建
+              </button>
+            </div>
+            <div>
+              <div className="text-zinc-500">配置</div>
+              <pre className="max-h-64 overflow-auto rounded bg-zinc-50 p-2 text-xs">
+                {JSON.stringify(selected.config, null, 2)}
+              </pre>
+            </div>
+            {failures && (Object.keys(failures.byClass).length > 0 || failures.repaired) ? (
+              <div>
+                <div className="text-zinc-500">失败分类</div>
+                <div className="mt-1 flex flex-wrap gap-2">
+                  {Object.entries(failures.byClass).map(([k, v]) => (
+                    <div key={k} className="rounded border border-zinc-200 px-2 py-1">
+                      <span className="font-mono">{k}</span>：<span className="tabular-nums">{v}</span>
+                    </div>
+                  ))}
+                  {failures.repaired ? (
+                    <div className="rounded border border-emerald-200 px-2 py-1 text-emerald-700">
+                      重新询问后修复：<span className="tabular-nums">{failures.repaired}</span>
+                    </div>
+                  ) : null}
+                </div>
+              </div>
+            ) : null}
+            {selected.last_error ? (
+              <div>
+                <div className="text-zinc-500">最后错误</div>
+                <div className="max-h-40 overflow-auto font-mono text-xs text-red-600">{selected.last_error}</div>
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { workerUrl } from "@/lib/worker";
+import { useProjectId } from "@/lib/project";
+
+type Grade = "S" | "A" | "B" | "C" | "D";
+
+type LabelJob = {
+  id: string;
+  status: string;
+  created_at: string;
+  processed_count: number;
+  config: { mode?: string; samples?: number; rubricVersion?: number };
+};
+
+type JobGrade = {
+  jobId: string | null;
+  grade: Grade;
+  agreement: number;
+  samples: number;
+  labeledAt: string;
+};
+
+type DiffRow = {
+  modelId: string;
+  title: string | null;
+  url: string | null;
+  before: JobGrade | null;
+  after: JobGrade;
+  delta: number | null;
+};
+
+type Diff = {
+  jobId: string;
+  against: string | null;
+  compared: number;
+  changed: number;
+  upgraded: number;
+  downgraded: number;
+  transitions: Record<string, Record<string, number>>;
+  rows: DiffRow[];
+};
+
+const GRADES: Grade[] = ["S", "A", "B", "C", "D"];
+
+function normalizeErrorText(text: string) {
+  const t = (text ?? "").trim();
+  if (!t) return "请求失败";
+  try {
+    const parsed = JSON.parse(t) as { error?: unknown };
+    if (typeof parsed?.error === "string") return parsed.error;
+  } catch {}
+  return t.length > 300 ? `${t.slice(0, 300)}…` : t;
+}
+
+async function getJson<T>(url: string): Promise<T> {
+  const res = await fetch(url, { cache: "no-store" });
+  if (!res.ok) throw new Error(normalizeErrorText(await res.text()));
+  return (await res.json()) as T;
+}
+
+function jobLabel(job: LabelJob) {
+  const mode = job.config.mode === "relabel" ? "重新标注" : "标注";
+  const samples = job.config.samples && job.config.samples > 1 ? ` ×${job.config.samples}` : "";
+  return `${new Date(job.created_at).toLocaleString()} ${mode}${samples} · ${job.processed_count} 个 · ${job.status}`;
+}
+
+export default function LabelHistoryPage() {
+  const projectId = useProjectId();
+  const [jobs, setJobs] = useState<LabelJob[]>([]);
+  const [jobId, setJobId] = useState("");
+  const [against, setAgainst] = useState("");
+  const [diff, setDiff] = useState<Diff | null>(null);
+  const [changedOnly, setChangedOnly] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getJson<{ rows: LabelJob[] }>(workerUrl(`/api/label-jobs?projectId=${encodeURIComponent(projectId)}&pageSize=50`))
+      .then((data) => {
+        if (cancelled) return;
+        setJobs(data.rows);
+        setJobId(data.rows[0]?.id ?? "");
+        setAgainst("");
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  useEffect(() => {
+    if (!jobId) return;
+    let cancelled = false;
+    const qs = against ? `?against=${encodeURIComponent(against)}` : "";
+    getJson<Diff>(workerUrl(`/api/label-jobs/${jobId}/diff${qs}`))
+      .then((data) => {
+        if (cancelled) return;
+        setDiff(data);
+        setError(null);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId, against]);
+
+  const current = diff && diff.jobId === jobId ? diff : null;
+  const rows = (current?.rows ?? []).filter((r) => !changedOnly || (r.delta !== null && r.delta !== 0));
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-xl font-semibold">标注历史</h1>
+        <div className="text-sm text-zinc-600">
+          每次标注都会保留记录。选择一个标注任务，查看它给出的等级与各模型上一次标注（或另一个任务）相比有什么变化。
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 rounded-lg border border-zinc-200 bg-white p-4 text-sm">
+        <label className="grid gap-1">
+          <div className="font-medium">标注任务</div>
+          <select
+            className="h-10 rounded border border-zinc-200 bg-white px-2"
+            value={jobId}
+            onChange={(e) => setJobId(e.target.value)}
+          >
+            {jobs.map((j) => (
+              <option key={j.id} value={j.id}>
+                {jobLabel(j)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1">
+          <div className="font-medium">对比</div>
+          <select
+            className="h-10 rounded border border-zinc-200 bg-white px-2"
+            value={against}
+            onChange={(e) => setAgainst(e.target.value)}
+          >
+            <option value="">各模型的上一次标注</option>
+            {jobs
+              .filter((j) => j.id !== jobId)
+              .map((j) => (
+                <option key={j.id} value={j.id}>
+                  {jobLabel(j)}
+                </option>
+              ))}
+          </select>
+        </label>
+        <label className="flex h-10 items-center gap-1">
+          <input type="checkbox" checked={changedOnly} onChange={(e) => setChangedOnly(e.target.checked)} />
+          只看等级有变化的
+        </label>
+      </div>
+
+      {error ? <div className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div> : null}
+
+      {current ? (
+        <>
+          <div className="flex flex-wrap gap-3 text-sm">
+            <div className="rounded border border-zinc-200 bg-white px-3 py-2">
+              可对比：<span className="font-medium tabular-nums">{current.compared}</span>
+            </div>
+            <div className="rounded border border-zinc-200 bg-white px-3 py-2">
+              等级变化：<span className="font-medium tabular-nums">{current.changed}</span>
+            </div>
+            <div className="rounded border border-zinc-200 bg-white px-3 py-2">
+              升级：<span className="font-medium tabular-nums text-emerald-700">{current.upgraded}</span>
+            </div>
+            <div className="rounded border border-zinc-200 bg-white px-3 py-2">
+              降级：<span className="font-medium tabular-nums text-red-700">{current.downgraded}</span>
+            </div>
+          </div>
+
+          <div className="rounded-lg border border-zinc-200 bg-white p-4">
+            <div className="mb-2 text-sm font-medium">等级变化矩阵（行：之前，列：之后）</div>
+            <table className="border-collapse text-sm">
+              <thead>
+                <tr>
+                  <th className="p-2" />
+                  {GRADES.map((g) => (
+                    <th key={g} className="w-12 p-2 text-center font-mono">
+                      {g}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {GRADES.map((from) => (
+                  <tr key={from}>
+                    <th className="p-2 font-mono">{from}</th>
+                    {GRADES.map((to) => {
+                      const n = current.transitions[from]?.[to] ?? 0;
+                      return (
+                        <td
+                          key={to}
+                          className={`border border-zinc-100 p-2 text-center tabular-nums ${
+                            n === 0 ? "text-zinc-300" : from === to ? "bg-zinc-50" : "bg-amber-50"
+                          }`}
+                        >
+                          {n}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="rounded-lg border border-zinc-200 bg-white">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr className="border-b border-zinc-200 text-left text-zinc-600">
+                  <th className="p-3">ID</th>
+                  <th className="p-3">标题</th>
+                  <th className="p-3">之前</th>
+                  <th className="p-3">之后</th>
+                  <th className="p-3">变化</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.length === 0 ? (
+                  <tr>
+                    <td className="p-3 text-zinc-500" colSpan={5}>
+                      没有记录
+                    </td>
+                  </tr>
+                ) : null}
+                {rows.map((r) => (
+                  <tr key={r.modelId} className="border-b border-zinc-100">
+                    <td className="p-3 font-mono">
+                      {r.url ? (
+                        <a className="underline" href={r.url} target="_blank" rel="noreferrer">
+                          {r.modelId}
+                        </a>
+                      ) : (
+                        r.modelId
+                      )}
+                    </td>
+                    <td className="p-3">{r.title ?? "-"}</td>
+                    <td className="p-3 font-mono">
+                      {r.before ? r.before.grade : "-"}
+                      {r.before && r.before.samples > 1 ? (
+                        <span className="ml-1 font-sans text-xs text-zinc-400">{Math.round(r.before.agreement * 100)}%</span>
+                      ) : null}
+                    </td>
+                    <td className="p-3 font-mono">
+                      {r.after.grade}
+                      {r.after.samples > 1 ? (
+                        <span className="ml-1 font-sans text-xs text-zinc-400">{Math.round(r.after.agreement * 100)}%</span>
+                      ) : null}
+                    </td>
+                    <td
+                      className={`p-3 tabular-nums ${
+                        r.delta && r.delta > 0 ? "text-emerald-700" : r.delta && r.delta < 0 ? "text-red-700" : "text-zinc-400"
+                      }`}
+                    >
+                      {r.delta === null ? "首次" : r.delta > 0 ? `+${r.delta}` : r.delta}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -2,6 +2,10 @@
 
 import { useEffect, useMemo, useState } from "react";
 import { workerUrl } from "@/lib/worker";
+import { useJobEvents } from "@/lib/jobEvents";
+import { useProjectId } from "@/lib/project";
+import ReviewPanel from "@/components/ReviewPanel";
+import PriceTable from "@/components/PriceTable";
 
 type ModelRow = {
   id: string;
@@ -9,10 +13,32 @@ type ModelRow = {
   title: string | null;
   author_name: string | null;
   download_count: number | null;
+  like_count?: number | null;
+  collect_count?: number | null;
+  print_count?: number | null;
+  category?: string | null;
+  tags?: string[];
   cover_image_url: string | null;
   summary?: string | null;
   updated_at: string;
   grade?: string | null;
+  rubric_version?: number | null;
+  sample_count?: number | null;
+  agreement?: number | null;
+  human_grade?: string | null;
+  final_grade?: string | null;
+  reviewer?: string | null;
+};
+
+type RubricSummary = {
+  version: number;
+  name: string;
+};
+
+type LabelProviderStatus = {
+  name: string;
+  model: string;
+  configured: boolean;
 };
 
 type ListResponse = {
@@ -30,12 +56,23 @@ type LabelJob = {
   processed_count: number;
   failed_count: number;
   last_error: string | null;
+  call_count: number;
+  input_tokens: number;
+  output_tokens: number;
+  image_tokens: number;
+  unpriced_count: number;
+  cost: number;
+  budget: number | null;
+  projected_remaining_cost: number | null;
 };
 
 type Stats = {
   total: number;
   labeled: number;
   byGrade: Record<string, number>;
+  reviewed: number;
+  agreement: number | null;
+  byFinalGrade: Record<string, number>;
 };
 
 async function getJson<T>(url: string): Promise<T> {
@@ -60,17 +97,43 @@ async function postJson<T>(url: string, body: unknown): Promise<T> {
   return (await res.json()) as T;
 }
 
+async function deleteJson<T>(url: string): Promise<T> {
+  const res = await fetch(url, { method: "DELETE" });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(text);
+  }
+  return (await res.json()) as T;
+}
+
 export default function LabelPage() {
+  const projectId = useProjectId();
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(50);
   const [data, setData] = useState<ListResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [labelJobId, setLabelJobId] = useState<string>("");
-  const [labelJob, setLabelJob] = useState<LabelJob | null>(null);
+  const { job: labelJob, feed } = useJobEvents<LabelJob>(labelJobId);
   const [stats, setStats] = useState<Stats | null>(null);
   const [labelLimit, setLabelLimit] = useState<number>(0);
   const [labelBusy, setLabelBusy] = useState(false);
+  const [rubrics, setRubrics] = useState<RubricSummary[]>([]);
+  const [rubricVersion, setRubricVersion] = useState<number>(0);
+  const [labelSamples, setLabelSamples] = useState<number>(1);
+  const [consensus, setConsensus] = useState<"majority" | "mean">("majority");
+  const [labelConcurrency, setLabelConcurrency] = useState<number>(0);
+  const [labelBudget, setLabelBudget] = useState("");
+  const [showPrices, setShowPrices] = useState(false);
+  const [providers, setProviders] = useState<LabelProviderStatus[]>([]);
+  const [sampleProviders, setSampleProviders] = useState<string[]>([]);
+  const [labelMode, setLabelMode] = useState<"unlabeled" | "relabel">("unlabeled");
+  const [relabelGrades, setRelabelGrades] = useState<string[]>([]);
+  const [relabelAfter, setRelabelAfter] = useState("");
+  const [relabelBefore, setRelabelBefore] = useState("");
+  const [relabelProviders, setRelabelProviders] = useState<string[]>([]);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
 
   const pageCount = useMemo(() => {
     if (!data) return 1;
@@ -83,7 +146,9 @@ export default function LabelPage() {
       setLoading(true);
       setError(null);
       try {
-        const res = await getJson<ListResponse>(workerUrl(`/api/models?page=${page}&pageSize=${pageSize}&withCover=1`));
+        const res = await getJson<ListResponse>(workerUrl(
+            `/api/models?page=${page}&pageSize=${pageSize}&withCover=1&projectId=${encodeURIComponent(projectId)}`,
+          ));
         if (!cancelled) setData(res);
       } catch (e) {
         if (!cancelled) setError(e instanceof Error ? e.message : String(e));
@@ -95,44 +160,33 @@ export default function LabelPage() {
     return () => {
       cancelled = true;
     };
-  }, [page, pageSize]);
+  }, [page, pageSize, projectId, reloadKey]);
 
   useEffect(() => {
-    let cancelled = false;
-    const run = async () => {
-      try {
-        const s = await getJson<Stats>(workerUrl("/api/stats"));
-        if (!cancelled) setStats(s);
-      } catch {
-        if (!cancelled) setStats(null);
-      }
-    };
-    run();
-    const t = setInterval(run, 5000);
-    return () => {
-      cancelled = true;
-      clearInterval(t);
-    };
+    getJson<{ rows: RubricSummary[] }>(workerUrl("/api/rubrics"))
+      .then((data) => setRubrics(data.rows))
+      .catch(() => setRubrics([]));
+    getJson<{ labelProviders: LabelProviderStatus[] }>(workerUrl("/api/env-status"))
+      .then((data) => setProviders(data.labelProviders.filter((p) => p.configured)))
+      .catch(() => setProviders([]));
   }, []);
 
+  const latestFeedSeq = feed[0]?.seq ?? 0;
   useEffect(() => {
-    if (!labelJobId) return;
     let cancelled = false;
-    const tick = async () => {
+    const t = setTimeout(async () => {
       try {
-        const j = await getJson<LabelJob>(workerUrl(`/api/label-jobs/${labelJobId}`));
-        if (!cancelled) setLabelJob(j);
+        const s = await getJson<Stats>(workerUrl(`/api/stats?projectId=${encodeURIComponent(projectId)}`));
+        if (!cancelled) setStats(s);
       } catch {
-        if (!cancelled) setLabelJob(null);
+        if (!cancelled) setStats(null);
       }
-    };
-    tick();
-    const t = setInterval(tick, 2000);
+    }, latestFeedSeq ? 1000 : 0);
     return () => {
       cancelled = true;
-      clearInterval(t);
+      clearTimeout(t);
     };
-  }, [labelJobId]);
+  }, [latestFeedSeq, projectId, reloadKey]);
 
   const startLabel = async () => {
     setLabelBusy(true);
@@ -140,6 +194,23 @@ export default function LabelPage() {
     try {
       const res = await postJson<{ id: string }>(workerUrl("/api/label-jobs"), {
         limit: labelLimit > 0 ? labelLimit : undefined,
+        projectId,
+        rubricVersion: rubricVersion > 0 ? rubricVersion : undefined,
+        samples: labelSamples > 1 ? labelSamples : undefined,
+        sampleProviders: labelSamples > 1 && sampleProviders.length > 0 ? sampleProviders : undefined,
+        consensus: labelSamples > 1 ? consensus : undefined,
+        concurrency: labelConcurrency > 0 ? labelConcurrency : undefined,
+        budget: Number(labelBudget) > 0 ? Number(labelBudget) : undefined,
+        mode: labelMode,
+        filter:
+          labelMode === "relabel"
+            ? {
+                grades: relabelGrades.length > 0 ? relabelGrades : undefined,
+                labeledAfter: relabelAfter || undefined,
+                labeledBefore: relabelBefore || undefined,
+                providers: relabelProviders.length > 0 ? relabelProviders : undefined,
+              }
+            : undefined,
       });
       setLabelJobId(res.id);
     } catch (e) {
@@ -159,6 +230,33 @@ export default function LabelPage() {
     await postJson(workerUrl(`/api/label-jobs/${labelJobId}/resume`), {});
   };
 
+  const changeBudget = async () => {
+    if (!labelJobId) return;
+    const raw = prompt("新的预算（留空表示不限）", labelJob?.budget ? String(labelJob.budget) : "");
+    if (raw === null) return;
+    try {
+      await postJson(workerUrl(`/api/label-jobs/${labelJobId}/budget`), { budget: Number(raw) > 0 ? Number(raw) : null });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const cancelLabel = async () => {
+    if (!labelJobId) return;
+    await postJson(workerUrl(`/api/label-jobs/${labelJobId}/cancel`), {});
+  };
+
+  const deleteLabel = async () => {
+    if (!labelJobId) return;
+    if (!confirm("删除这个标注任务记录？已生成的标注结果会保留。")) return;
+    try {
+      await deleteJson(workerUrl(`/api/label-jobs/${labelJobId}`));
+      setLabelJobId("");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
   return (
     <div className="space-y-4">
       <div className="flex flex-wrap items-center justify-between gap-3">
@@ -170,7 +268,7 @@ export default function LabelPage() {
         <div className="flex flex-wrap items-center gap-2">
           <a
             className="h-9 rounded border border-zinc-200 bg-white px-3 text-sm hover:bg-zinc-50"
-            href={workerUrl("/api/export.csv")}
+            href={workerUrl(`/api/export.csv?projectId=${encodeURIComponent(projectId)}`)}
             target="_blank"
             rel="noreferrer"
           >
@@ -221,6 +319,14 @@ export default function LabelPage() {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <select
+              className="h-9 rounded border border-zinc-200 bg-white px-2 text-sm"
+              value={labelMode}
+              onChange={(e) => setLabelMode(e.target.value as "unlabeled" | "relabel")}
+            >
+              <option value="unlabeled">标注未标注的</option>
+              <option value="relabel">重新标注</option>
+            </select>
             <input
               type="number"
               className="h-9 w-28 rounded border border-zinc-200 px-2 text-sm"
@@ -228,6 +334,69 @@ export default function LabelPage() {
               value={labelLimit}
               onChange={(e) => setLabelLimit(Number(e.target.value))}
             />
+            <select
+              className="h-9 rounded border border-zinc-200 bg-white px-2 text-sm"
+              value={rubricVersion}
+              onChange={(e) => setRubricVersion(Number(e.target.value))}
+            >
+              <option value={0}>最新评分标准</option>
+              {rubrics.map((r) => (
+                <option key={r.version} value={r.version}>
+                  v{r.version} {r.name}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-sm text-zinc-600" title="每个模型调用几次，再合并成最终等级">
+              采样
+              <input
+                type="number"
+                min={1}
+                max={9}
+                className="h-9 w-14 rounded border border-zinc-200 px-2 text-sm"
+                value={labelSamples}
+                onChange={(e) => setLabelSamples(Math.min(9, Math.max(1, Number(e.target.value) || 1)))}
+              />
+            </label>
+            {labelSamples > 1 ? (
+              <select
+                className="h-9 rounded border border-zinc-200 bg-white px-2 text-sm"
+                value={consensus}
+                onChange={(e) => setConsensus(e.target.value as "majority" | "mean")}
+              >
+                <option value="majority">多数票</option>
+                <option value="mean">平均等级</option>
+              </select>
+            ) : null}
+            <label className="flex items-center gap-1 text-sm text-zinc-600" title="同时处理的模型数，留空用 Worker 默认值；实际请求速度受后端限速控制">
+              并发
+              <input
+                type="number"
+                min={1}
+                max={16}
+                placeholder="默认"
+                className="h-9 w-16 rounded border border-zinc-200 px-2 text-sm"
+                value={labelConcurrency || ""}
+                onChange={(e) => setLabelConcurrency(Math.min(16, Math.max(0, Math.floor(Number(e.target.value) || 0))))}
+              />
+            </label>
+            <label className="flex items-center gap-1 text-sm text-zinc-600" title="费用达到预算时任务自动暂停，需要在价格表里设置模型单价">
+              预算
+              <input
+                type="number"
+                min={0}
+                step="any"
+                placeholder="不限"
+                className="h-9 w-20 rounded border border-zinc-200 px-2 text-sm"
+                value={labelBudget}
+                onChange={(e) => setLabelBudget(e.target.value)}
+              />
+            </label>
+            <button
+              className="h-9 rounded border border-zinc-200 bg-white px-3 text-sm hover:bg-zinc-50"
+              onClick={() => setShowPrices((v) => !v)}
+            >
+              价格表
+            </button>
             <button
               className="h-9 rounded bg-black px-3 text-sm font-medium text-white disabled:opacity-60"
               disabled={labelBusy}
@@ -249,9 +418,97 @@ export default function LabelPage() {
             >
               继续
             </button>
+            <button
+              className="h-9 rounded border border-zinc-200 bg-white px-3 text-sm hover:bg-zinc-50 disabled:opacity-60"
+              disabled={!labelJobId || Boolean(labelJob?.finished_at)}
+              onClick={cancelLabel}
+            >
+              取消
+            </button>
+            <button
+              className="h-9 rounded border border-zinc-200 bg-white px-3 text-sm text-red-600 hover:bg-zinc-50 disabled:opacity-60"
+              disabled={!labelJobId}
+              onClick={deleteLabel}
+            >
+              删除任务
+            </button>
           </div>
         </div>
 
+        {showPrices ? <PriceTable models={providers.map((p) => p.model)} /> : null}
+
+        {labelMode === "relabel" ? (
+          <div className="flex flex-wrap items-center gap-3 text-sm text-zinc-600">
+            <span>重新标注范围：</span>
+            {["S", "A", "B", "C", "D"].map((g) => (
+              <label key={g} className="flex items-center gap-1 font-mono">
+                <input
+                  type="checkbox"
+                  checked={relabelGrades.includes(g)}
+                  onChange={(e) =>
+                    setRelabelGrades((list) => (e.target.checked ? [...list, g] : list.filter((x) => x !== g)))
+                  }
+                />
+                {g}
+              </label>
+            ))}
+            <label className="flex items-center gap-1">
+              标注于
+              <input
+                type="date"
+                className="h-8 rounded border border-zinc-200 px-2"
+                value={relabelAfter}
+                onChange={(e) => setRelabelAfter(e.target.value)}
+              />
+              至
+              <input
+                type="date"
+                className="h-8 rounded border border-zinc-200 px-2"
+                value={relabelBefore}
+                onChange={(e) => setRelabelBefore(e.target.value)}
+              />
+              之前
+            </label>
+            <span>上次后端：</span>
+            {["openai", "ark", "chat", "mock"].map((name) => (
+              <label key={name} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={relabelProviders.includes(name)}
+                  onChange={(e) =>
+                    setRelabelProviders((list) => (e.target.checked ? [...list, name] : list.filter((x) => x !== name)))
+                  }
+                />
+                {name}
+              </label>
+            ))}
+            <a className="underline" href="/label-history">
+              查看等级变化
+            </a>
+          </div>
+        ) : null}
+
+        {labelSamples > 1 && providers.length > 1 ? (
+          <div className="flex flex-wrap items-center gap-3 text-sm text-zinc-600">
+            <span>轮流使用的后端（不选则都用默认后端）：</span>
+            {providers.map((p) => (
+              <label key={p.name} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={sampleProviders.includes(p.name)}
+                  onChange={(e) =>
+                    setSampleProviders((list) =>
+                      e.target.checked ? [...list, p.name] : list.filter((name) => name !== p.name),
+                    )
+                  }
+                />
+                {p.name}
+                <span className="text-xs text-zinc-400">{p.model}</span>
+              </label>
+            ))}
+          </div>
+        ) : null}
+
         {stats ? (
           <div className="flex flex-wrap gap-3 text-sm">
             <div className="rounded border border-zinc-200 px-3 py-2">
@@ -262,9 +519,18 @@ export default function LabelPage() {
             </div>
             {["S", "A", "B", "C", "D"].map((g) => (
               <div key={g} className="rounded border border-zinc-200 px-3 py-2">
-                {g}：<span className="font-medium tabular-nums">{stats.byGrade[g] ?? 0}</span>
+                {g}：<span className="font-medium tabular-nums">{stats.byFinalGrade[g] ?? 0}</span>
+                {(stats.byFinalGrade[g] ?? 0) !== (stats.byGrade[g] ?? 0) ? (
+                  <span className="ml-1 text-xs text-zinc-400">AI {stats.byGrade[g] ?? 0}</span>
+                ) : null}
               </div>
             ))}
+            <div className="rounded border border-zinc-200 px-3 py-2">
+              已审核：<span className="font-medium tabular-nums">{stats.reviewed}</span>
+              {stats.agreement !== null ? (
+                <span className="ml-1 text-zinc-500">（与 AI 一致 {(stats.agreement * 100).toFixed(0)}%）</span>
+              ) : null}
+            </div>
           </div>
         ) : (
           <div className="text-sm text-zinc-500">统计信息暂不可用</div>
@@ -288,16 +554,78 @@ export default function LabelPage() {
               <div className="text-zinc-500">失败</div>
               <div className="font-medium tabular-nums">{labelJob.failed_count}</div>
             </div>
+            <div>
+              <div className="text-zinc-500">费用</div>
+              <div className="font-medium tabular-nums">
+                {labelJob.cost.toFixed(4)}
+                {labelJob.budget !== null ? <span className="text-zinc-500"> / {labelJob.budget}</span> : null}
+                <button className="ml-2 text-xs font-normal text-zinc-500 underline" onClick={changeBudget}>
+                  预算
+                </button>
+              </div>
+              {labelJob.unpriced_count > 0 ? (
+                <div className="text-xs text-amber-700">{labelJob.unpriced_count} 次调用的模型没有设置价格</div>
+              ) : null}
+            </div>
+            <div>
+              <div className="text-zinc-500">预计剩余费用</div>
+              <div className="font-medium tabular-nums">
+                {labelJob.projected_remaining_cost === null ? "-" : labelJob.projected_remaining_cost.toFixed(4)}
+              </div>
+            </div>
+            <div>
+              <div className="text-zinc-500">调用次数</div>
+              <div className="font-medium tabular-nums">{labelJob.call_count}</div>
+            </div>
+            <div>
+              <div className="text-zinc-500">输入 / 输出 tokens</div>
+              <div className="font-medium tabular-nums">
+                {labelJob.input_tokens} / {labelJob.output_tokens}
+                {labelJob.image_tokens > 0 ? (
+                  <span className="text-xs font-normal text-zinc-500">（图片 {labelJob.image_tokens}）</span>
+                ) : null}
+              </div>
+            </div>
             {labelJob.last_error ? (
               <div className="col-span-2 md:col-span-4">
                 <div className="text-zinc-500">最后错误</div>
                 <div className="font-mono text-red-600">{labelJob.last_error}</div>
               </div>
             ) : null}
+            {feed.length > 0 ? (
+              <div className="col-span-2 md:col-span-4">
+                <div className="text-zinc-500">最近标注</div>
+                <ul className="mt-1 max-h-64 divide-y divide-zinc-100 overflow-auto">
+                  {feed.map((f) => (
+                    <li key={f.seq} className="flex items-center gap-2 py-1">
+                      <span className={f.ok ? "font-medium" : "text-red-600"}>{f.ok ? f.grade ?? "-" : "失败"}</span>
+                      <a className="font-mono underline" href={f.url} target="_blank" rel="noreferrer">
+                        {f.modelId}
+                      </a>
+                      <span className="truncate text-zinc-600">{f.ok ? f.title ?? "" : f.error}</span>
+                      <span className="ml-auto shrink-0 text-xs text-zinc-400">
+                        {new Date(f.at).toLocaleTimeString()}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
           </div>
         ) : null}
       </div>
 
+      {reviewingId ? (
+        <ReviewPanel
+          modelId={reviewingId}
+          onSaved={() => {
+            setReviewingId(null);
+            setReloadKey((n) => n + 1);
+          }}
+          onClose={() => setReviewingId(null)}
+        />
+      ) : null}
+
       <div className="rounded-lg border border-zinc-200 bg-white">
         <div className="overflow-auto">
           <table className="w-full border-collapse text-sm">
@@ -307,6 +635,8 @@ export default function LabelPage() {
                 <th className="p-3">文件链接</th>
                 <th className="p-3">作者名</th>
                 <th className="p-3">下载量</th>
+                <th className="p-3">点赞/收藏/打印</th>
+                <th className="p-3">分类/标签</th>
                 <th className="p-3">标题</th>
                 <th className="p-3">模型图</th>
                 <th className="p-3">等级</th>
@@ -316,7 +646,7 @@ export default function LabelPage() {
             <tbody>
               {loading ? (
                 <tr>
-                  <td className="p-3 text-zinc-500" colSpan={8}>
+                  <td className="p-3 text-zinc-500" colSpan={10}>
                     加载中…
                   </td>
                 </tr>
@@ -331,6 +661,15 @@ export default function LabelPage() {
                   </td>
                   <td className="p-3">{row.author_name ?? "-"}</td>
                   <td className="p-3 tabular-nums">{row.download_count ?? "-"}</td>
+                  <td className="p-3 whitespace-nowrap tabular-nums">
+                    {row.like_count ?? "-"} / {row.collect_count ?? "-"} / {row.print_count ?? "-"}
+                  </td>
+                  <td className="p-3 max-w-[200px] text-zinc-700">
+                    <div>{row.category ?? "-"}</div>
+                    {row.tags && row.tags.length > 0 ? (
+                      <div className="text-xs text-zinc-500">{row.tags.join(" · ")}</div>
+                    ) : null}
+                  </td>
                   <td className="p-3">{row.title ?? "-"}</td>
                   <td className="p-3">
                     {row.cover_image_url ? (
@@ -346,13 +685,38 @@ export default function LabelPage() {
                       "-"
                     )}
                   </td>
-                  <td className="p-3 font-mono">{row.grade ?? "-"}</td>
+                  <td className="p-3 font-mono whitespace-nowrap">
+                    {row.final_grade ?? "-"}
+                    {row.human_grade ? (
+                      <span className="ml-1 text-xs text-emerald-700" title={`审核人：${row.reviewer ?? ""}`}>
+                        人工{row.grade && row.grade !== row.human_grade ? `（AI ${row.grade}）` : ""}
+                      </span>
+                    ) : row.grade && row.rubric_version ? (
+                      <span className="ml-1 text-xs text-zinc-400">v{row.rubric_version}</span>
+                    ) : null}
+                    {row.sample_count && row.sample_count > 1 && typeof row.agreement === "number" ? (
+                      <span
+                        className={`ml-1 font-sans text-xs ${row.agreement < 1 ? "text-amber-700" : "text-zinc-400"}`}
+                        title={`${row.sample_count} 次采样`}
+                      >
+                        一致 {Math.round(row.agreement * 100)}%
+                      </span>
+                    ) : null}
+                    <div>
+                      <button
+                        onClick={() => setReviewingId(row.id)}
+                        className="mt-1 rounded border border-zinc-200 px-2 py-0.5 font-sans text-xs hover:bg-zinc-50"
+                      >
+                        审核
+                      </button>
+                    </div>
+                  </td>
                   <td className="p-3 max-w-[420px] whitespace-pre-wrap text-zinc-700">{row.summary ?? "-"}</td>
                 </tr>
               ))}
               {!loading && data && data.rows.length === 0 ? (
                 <tr>
-                  <td className="p-3 text-zinc-500" colSpan={8}>
+                  <td className="p-3 text-zinc-500" colSpan={10}>
                     暂无数据。请先去“爬取”页面开始抓取。
                   </td>
                 </tr>
@@ -1,6 +1,7 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import ProjectPicker from "@/components/ProjectPicker";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -30,7 +31,10 @@ export default function RootLayout({
         <div className="min-h-screen bg-zinc-50 text-zinc-950">
           <header className="border-b border-zinc-200 bg-white">
             <div className="mx-auto flex max-w-6xl items-center justify-between px-6 py-4">
-              <div className="text-sm font-semibold">MakerWorld 工具</div>
+              <div className="flex items-center gap-4">
+                <div className="text-sm font-semibold">MakerWorld 工具</div>
+                <ProjectPicker />
+              </div>
               <nav className="flex items-center gap-4 text-sm">
                 <a className="rounded px-2 py-1 hover:bg-zinc-100" href="/crawl">
                   爬取
@@ -38,6 +42,30 @@ export default function RootLayout({
                 <a className="rounded px-2 py-1 hover:bg-zinc-100" href="/label">
                   标注
                 </a>
+                <a className="rounded px-2 py-1 hover:bg-zinc-100" href="/review">
+                  审核
+                </a>
+                <a className="rounded px-2 py-1 hover:bg-zinc-100" href="/label-history">
+                  标注历史
+                </a>
+                <a className="rounded px-2 py-1 hover:bg-zinc-100" href="/eval">
+                  评测
+                </a>
+                <a className="rounded px-2 py-1 hover:bg-zinc-100" href="/rubrics">
+                  评分标准
+                </a>
+                <a className="rounded px-2 py-1 hover:bg-zinc-100" href="/references">
+                  参考图
+                </a>
+                <a className="rounded px-2 py-1 hover:bg-zinc-100" href="/projects">
+                  项目
+                </a>
+                <a className="rounded px-2 py-1 hover:bg-zinc-100" href="/jobs">
+                  任务历史
+                </a>
+                <a className="rounded px-2 py-1 hover:bg-zinc-100" href="/schedules">
+                  定时任务
+                </a>
               </nav>
             </div>
           </header>
@@ -0,0 +1,219 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { workerUrl } from "@/lib/worker";
+import { DEFAULT_PROJECT_ID, notifyProjectsUpdated, setProjectId, useProjectId } from "@/lib/project";
+
+type Project = {
+  id: string;
+  name: string;
+  description: string | null;
+  archived: number;
+  created_at: string;
+  modelCount: number;
+  labeledCount: number;
+};
+
+function normalizeErrorText(text: string) {
+  const t = (text ?? "").trim();
+  if (!t) return "请求失败";
+  try {
+    const parsed = JSON.parse(t) as { error?: unknown };
+    if (typeof parsed?.error === "string") return parsed.error;
+  } catch {}
+  return t.length > 300 ? `${t.slice(0, 300)}…` : t;
+}
+
+async function requestJson<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    cache: "no-store",
+    headers: body === undefined ? undefined : { "content-type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error(normalizeErrorText(await res.text()));
+  return (await res.json()) as T;
+}
+
+export default function ProjectsPage() {
+  const projectId = useProjectId();
+  const [rows, setRows] = useState<Project[]>([]);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const data = await requestJson<{ rows: Project[] }>(workerUrl("/api/projects?includeArchived=1"), "GET");
+      setRows(data.rows);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const act = async (fn: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await fn();
+      await load();
+      notifyProjectsUpdated();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const create = () =>
+    act(async () => {
+      const res = await requestJson<{ id: string }>(workerUrl("/api/projects"), "POST", {
+        name,
+        description: description.trim() ? description.trim() : undefined,
+      });
+      setName("");
+      setDescription("");
+      setProjectId(res.id);
+    });
+
+  const rename = (p: Project) => {
+    const next = prompt("新的项目名称", p.name);
+    if (!next || next.trim() === p.name) return;
+    act(() => requestJson(workerUrl(`/api/projects/${p.id}`), "PATCH", { name: next.trim() }));
+  };
+
+  const toggleArchived = (p: Project) =>
+    act(async () => {
+      await requestJson(workerUrl(`/api/projects/${p.id}`), "PATCH", { archived: !p.archived });
+      if (!p.archived && p.id === projectId) setProjectId(DEFAULT_PROJECT_ID);
+    });
+
+  const remove = (p: Project) => {
+    if (!confirm(`删除项目「${p.name}」？项目下的任务记录、以及只属于该项目的模型和标注都会被删除，且无法恢复。`)) return;
+    act(async () => {
+      const res = await requestJson<{ deletedModels: number; deletedJobs: number }>(
+        workerUrl(`/api/projects/${p.id}`),
+        "DELETE",
+      );
+      if (p.id === projectId) setProjectId(DEFAULT_PROJECT_ID);
+      setNotice(`已删除项目，清理了 ${res.deletedModels} 个模型、${res.deletedJobs} 个任务`);
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-xl font-semibold">项目</h1>
+        <div className="text-sm text-zinc-600">
+          每个项目有自己的模型、标注和任务记录；同一个模型可以属于多个项目。删除项目即可丢弃该项目的数据。
+        </div>
+      </div>
+
+      <div className="grid gap-4 rounded-lg border border-zinc-200 bg-white p-4">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <label className="grid gap-1">
+            <div className="text-sm font-medium">名称</div>
+            <input
+              className="h-10 rounded border border-zinc-200 px-3 text-sm"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </label>
+          <label className="grid gap-1">
+            <div className="text-sm font-medium">说明（可选）</div>
+            <input
+              className="h-10 rounded border border-zinc-200 px-3 text-sm"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </label>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            disabled={busy || !name.trim()}
+            onClick={create}
+            className="h-10 rounded bg-black px-4 text-sm font-medium text-white disabled:opacity-60"
+          >
+            新建项目
+          </button>
+          {error ? <div className="text-sm text-red-600">{error}</div> : null}
+          {notice ? <div className="text-sm text-emerald-700">{notice}</div> : null}
+        </div>
+      </div>
+
+      <div className="overflow-auto rounded-lg border border-zinc-200 bg-white">
+        <table className="w-full border-collapse text-sm">
+          <thead>
+            <tr className="border-b border-zinc-200 text-left text-zinc-600">
+              <th className="p-2">名称</th>
+              <th className="p-2">模型数</th>
+              <th className="p-2">已标注</th>
+              <th className="p-2">创建时间</th>
+              <th className="p-2">操作</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((p) => (
+              <tr key={p.id} className={`border-b border-zinc-100 align-top ${p.archived ? "text-zinc-400" : ""}`}>
+                <td className="p-2">
+                  <div className="font-medium">
+                    {p.name}
+                    {p.id === projectId ? <span className="ml-2 text-xs text-emerald-700">当前</span> : null}
+                    {p.archived ? <span className="ml-2 text-xs">已归档</span> : null}
+                  </div>
+                  {p.description ? <div className="text-xs text-zinc-500">{p.description}</div> : null}
+                </td>
+                <td className="p-2 tabular-nums">{p.modelCount}</td>
+                <td className="p-2 tabular-nums">{p.labeledCount}</td>
+                <td className="p-2">{new Date(p.created_at).toLocaleString()}</td>
+                <td className="p-2">
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      disabled={busy || p.id === projectId || !!p.archived}
+                      onClick={() => setProjectId(p.id)}
+                      className="h-8 rounded border border-zinc-200 px-2 hover:bg-zinc-50 disabled:opacity-60"
+                    >
+                      切换到此项目
+                    </button>
+                    <button
+                      disabled={busy}
+                      onClick={() => rename(p)}
+                      className="h-8 rounded border border-zinc-200 px-2 hover:bg-zinc-50 disabled:opacity-60"
+                    >
+                      重命名
+                    </button>
+                    {p.id !== DEFAULT_PROJECT_ID ? (
+                      <>
+                        <button
+                          disabled={busy}
+                          onClick={() => toggleArchived(p)}
+                          className="h-8 rounded border border-zinc-200 px-2 hover:bg-zinc-50 disabled:opacity-60"
+                        >
+                          {p.archived ? "取消归档" : "归档"}
+                        </button>
+                        <button
+                          disabled={busy}
+                          onClick={() => remove(p)}
+                          className="h-8 rounded border border-red-200 px-2 text-red-700 hover:bg-red-50 disabled:opacity-60"
+                        >
+                          删除
+                        </button>
+                      </>
+                    ) : null}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+"use client";
+
+import Image from "next/image";
+import { useCallback, useEffect, useState } from "react";
+import { workerUrl } from "@/lib/worker";
+
+type Grade = "S" | "A" | "B" | "C" | "D";
+
+type ReferenceImage = {
+  id: string;
+  grade: Grade;
+  filename: string;
+  mime: string;
+  note: string | null;
+  active: number;
+  sort_order: number;
+  created_at: string;
+  size: number;
+  selected: boolean;
+};
+
+type ReferenceList = {
+  rubricVersion: number;
+  referenceCounts: Record<Grade, number>;
+  rows: ReferenceImage[];
+};
+
+const GRADES: Grade[] = ["S", "A", "B", "C", "D"];
+
+function normalizeErrorText(text: string) {
+  const t = (text ?? "").trim();
+  if (!t) return "请求失败";
+  try {
+    const parsed = JSON.parse(t) as { error?: unknown };
+    if (typeof parsed?.error === "string") return parsed.error;
+  } catch {}
+  return t.length > 300 ? `${t.slice(0, 300)}…` : t;
+}
+
+async function requestJson<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    cache: "no-store",
+    headers: body === undefined ? undefined : { "content-type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error(normalizeErrorText(await res.text()));
+  return (await res.json()) as T;
+}
+
+async function uploadImage(grade: Grade, file: File, note: string) {
+  const qs = new URLSearchParams({ grade, filename: file.name });
+  if (note.trim()) qs.set("note", note.trim());
+  const res = await fetch(workerUrl(`/api/references?${qs.toString()}`), {
+    method: "POST",
+    headers: { "content-type": file.type },
+    body: file,
+  });
+  if (!res.ok) throw new Error(normalizeErrorText(await res.text()));
+  return (await res.json()) as { id: string };
+}
+
+export default function ReferencesPage() {
+  const [data, setData] = useState<ReferenceList | null>(null);
+  const [grade, setGrade] = useState<Grade>("S");
+  const [note, setNote] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setData(await requestJson<ReferenceList>(workerUrl("/api/references"), "GET"));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const act = async (fn: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await fn();
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const upload = () =>
+    act(async () => {
+      for (const file of files) await uploadImage(grade, file, note);
+      setFiles([]);
+      setNote("");
+    });
+
+  const editNote = (img: ReferenceImage) => {
+    const next = prompt("为什么这张图是这个等级？", img.note ?? "");
+    if (next === null) return;
+    act(() => requestJson(workerUrl(`/api/references/${img.id}`), "PATCH", { note: next }));
+  };
+
+  const move = (list: ReferenceImage[], index: number, delta: number) =>
+    act(async () => {
+      const target = index + delta;
+      if (target < 0 || target >= list.length) return;
+      const reordered = [...list];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      for (let i = 0; i < reordered.length; i++) {
+        if (reordered[i].sort_order === i) continue;
+        await requestJson(workerUrl(`/api/references/${reordered[i].id}`), "PATCH", { sortOrder: i });
+      }
+    });
+
+  const remove = (img: ReferenceImage) => {
+    if (!confirm(`删除参考图 ${img.filename}？已创建的标注任务仍会使用它。`)) return;
+    act(() => requestJson(workerUrl(`/api/references/${img.id}`), "DELETE"));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-xl font-semibold">参考图</h1>
+        <div className="text-sm text-zinc-600">
+          标注时会按每个等级的顺序发送前 N 张启用的参考图（N 在“评分标准”中设置，当前 v{data?.rubricVersion ?? "-"}
+          ）。标注任务创建时会记录实际使用的参考图。
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 rounded-lg border border-zinc-200 bg-white p-4">
+        <label className="grid gap-1">
+          <div className="text-sm font-medium">等级</div>
+          <select
+            className="h-10 rounded border border-zinc-200 bg-white px-2 text-sm"
+            value={grade}
+            onChange={(e) => setGrade(e.target.value as Grade)}
+          >
+            {GRADES.map((g) => (
+              <option key={g} value={g}>
+                {g}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1">
+          <div className="text-sm font-medium">图片（PNG/JPEG/WebP）</div>
+          <input
+            type="file"
+            multiple
+            accept="image/png,image/jpeg,image/webp"
+            className="text-sm"
+            onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+          />
+        </label>
+        <label className="grid flex-1 gap-1">
+          <div className="text-sm font-medium">说明（可选）</div>
+          <input
+            className="h-10 rounded border border-zinc-200 px-3 text-sm"
+            placeholder="为什么这是该等级的典型样例"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </label>
+        <button
+          disabled={busy || files.length === 0}
+          onClick={upload}
+          className="h-10 rounded bg-black px-4 text-sm font-medium text-white disabled:opacity-60"
+        >
+          上传
+        </button>
+        {error ? <div className="text-sm text-red-600">{error}</div> : null}
+      </div>
+
+      {GRADES.map((g) => {
+        const list = (data?.rows ?? []).filter((r) => r.grade === g);
+        return (
+          <div key={g} className="space-y-2">
+            <div className="flex items-baseline gap-2">
+              <h2 className="font-mono text-lg font-semibold">{g}</h2>
+              <div className="text-sm text-zinc-500">
+                发送 {data?.referenceCounts[g] ?? 0} 张 · 共 {list.length} 张
+              </div>
+            </div>
+            {list.length === 0 ? <div className="text-sm text-zinc-400">暂无参考图</div> : null}
+            <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+              {list.map((img, i) => (
+                <div
+                  key={img.id}
+                  className={`grid gap-2 rounded-lg border bg-white p-2 text-xs ${
+                    img.selected ? "border-emerald-500" : "border-zinc-200"
+                  } ${img.active ? "" : "opacity-50"}`}
+                >
+                  <Image
+                    unoptimized
+                    src={workerUrl(`/api/references/${img.id}/image`)}
+                    alt={img.filename}
+                    width={240}
+                    height={160}
+                    className="h-40 w-full rounded object-contain"
+                  />
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate font-mono">{img.filename}</span>
+                    {img.selected ? <span className="shrink-0 text-emerald-700">发送中</span> : null}
+                  </div>
+                  <div className="text-zinc-500">{Math.round(img.size / 1024)} KB</div>
+                  {img.note ? <div className="text-zinc-700">{img.note}</div> : null}
+                  <div className="flex flex-wrap gap-1">
+                    <button
+                      disabled={busy || i === 0}
+                      onClick={() => move(list, i, -1)}
+                      className="rounded border border-zinc-200 px-2 py-1 hover:bg-zinc-50 disabled:opacity-60"
+                    >
+                      前移
+                    </button>
+                    <button
+                      disabled={busy || i === list.length - 1}
+                      onClick={() => move(list, i, 1)}
+                      className="rounded border border-zinc-200 px-2 py-1 hover:bg-zinc-50 disabled:opacity-60"
+                    >
+                      后移
+                    </button>
+                    <button
+                      disabled={busy}
+                      onClick={() =>
+                        act(() => requestJson(workerUrl(`/api/references/${img.id}`), "PATCH", { active: !img.active }))
+                      }
+                      className="rounded border border-zinc-200 px-2 py-1 hover:bg-zinc-50 disabled:opacity-60"
+                    >
+                      {img.active ? "停用" : "启用"}
+                    </button>
+                    <button
+                      disabled={busy}
+                      onClick={() => editNote(img)}
+                      className="rounded border border-zinc-200 px-2 py-1 hover:bg-zinc-50 disabled:opacity-60"
+                    >
+                      说明
+                    </button>
+                    <button
+                      disabled={busy}
+                      onClick={() => remove(img)}
+                      className="rounded border border-red-200 px-2 py-1 text-red-700 hover:bg-red-50 disabled:opacity-60"
+                    >
+                      删除
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,443 @@
+"use client";
+
+import Image from "next/image";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { workerUrl } from "@/lib/worker";
+import { useProjectId } from "@/lib/project";
+import { setReviewer, useReviewer } from "@/lib/reviewer";
+
+type Grade = "S" | "A" | "B" | "C" | "D";
+type Clarity = "low" | "medium" | "high";
+
+type Features = {
+  story: boolean;
+  selling_points: boolean;
+  interaction: boolean;
+  scene: boolean;
+  params: boolean;
+  instructions: boolean;
+  structure_clarity: Clarity;
+  multicolor: boolean;
+  advanced_structure: boolean;
+  use_case: boolean;
+  summary?: string;
+  confidence?: number;
+};
+
+type Strategy = "sequential" | "low_confidence" | "contradiction" | "disagreement" | "random";
+
+type QueueItem = {
+  id: string;
+  url: string;
+  title: string | null;
+  images: string[];
+  priority: { score: number; reasons: string[] };
+  label: {
+    grade: Grade;
+    reason: string;
+    extracted: Features;
+    rubricVersion: number | null;
+    sampleCount: number;
+    agreement: number | null;
+  };
+};
+
+type QueueResponse = {
+  labeled: number;
+  reviewed: number;
+  matched: number;
+  nextCursor: string | null;
+  rows: QueueItem[];
+};
+
+const STRATEGIES: { value: Strategy; label: string }[] = [
+  { value: "sequential", label: "按顺序" },
+  { value: "low_confidence", label: "低置信度优先" },
+  { value: "contradiction", label: "要素与等级矛盾" },
+  { value: "disagreement", label: "多次标注不一致" },
+  { value: "random", label: "随机抽检" },
+];
+
+const GRADES: Grade[] = ["S", "A", "B", "C", "D"];
+const CLARITY: Clarity[] = ["low", "medium", "high"];
+
+// Number keys 1-9 toggle these in order; 0 cycles structure clarity.
+const BOOLEAN_FEATURES: { key: Exclude<keyof Features, "structure_clarity" | "summary" | "confidence">; label: string }[] = [
+  { key: "story", label: "故事/主题" },
+  { key: "selling_points", label: "卖点" },
+  { key: "interaction", label: "互动" },
+  { key: "scene", label: "场景" },
+  { key: "params", label: "参数" },
+  { key: "instructions", label: "说明" },
+  { key: "multicolor", label: "多色分件" },
+  { key: "advanced_structure", label: "高级结构" },
+  { key: "use_case", label: "用途" },
+];
+
+const AGREEMENT_FILTERS: { value: string; label: string }[] = [
+  { value: "", label: "不限一致率" },
+  { value: "1", label: "采样不完全一致" },
+  { value: "0.8", label: "一致率 < 80%" },
+  { value: "0.6", label: "一致率 < 60%" },
+];
+
+const BATCH_SIZE = 20;
+const PREFETCH_AHEAD = 3;
+
+function normalizeErrorText(text: string) {
+  const t = (text ?? "").trim();
+  if (!t) return "请求失败";
+  try {
+    const parsed = JSON.parse(t) as { error?: unknown };
+    if (typeof parsed?.error === "string") return parsed.error;
+  } catch {}
+  return t.length > 300 ? `${t.slice(0, 300)}…` : t;
+}
+
+async function requestJson<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    cache: "no-store",
+    headers: body === undefined ? undefined : { "content-type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error(normalizeErrorText(await res.text()));
+  return (await res.json()) as T;
+}
+
+function featureOverrides(ai: Features, current: Features) {
+  const out: Record<string, unknown> = {};
+  for (const f of BOOLEAN_FEATURES) if (ai[f.key] !== current[f.key]) out[f.key] = current[f.key];
+  if (ai.structure_clarity !== current.structure_clarity) out.structure_clarity = current.structure_clarity;
+  return out;
+}
+
+export default function ReviewPage() {
+  const projectId = useProjectId();
+  const reviewer = useReviewer();
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [index, setIndex] = useState(0);
+  const [features, setFeatures] = useState<Record<string, Features>>({});
+  const [imageIndex, setImageIndex] = useState(0);
+  const [strategy, setStrategy] = useState<Strategy>("sequential");
+  const [maxAgreement, setMaxAgreement] = useState("");
+  const [counts, setCounts] = useState<{ labeled: number; reviewed: number; matched: number } | null>(null);
+  const [sessionCount, setSessionCount] = useState(0);
+  const [exhausted, setExhausted] = useState(false);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const loadingMore = useRef(false);
+
+  // Refills continue after the last page, so skipped models are not served again.
+  const fetchBatch = useCallback(
+    async (after?: string) => {
+      const qs = new URLSearchParams({ projectId, strategy, limit: String(BATCH_SIZE) });
+      if (maxAgreement) qs.set("maxAgreement", maxAgreement);
+      if (after) qs.set("cursor", after);
+      const res = await requestJson<QueueResponse>(workerUrl(`/api/review-queue?${qs.toString()}`), "GET");
+      // Cached images come back as worker paths (/api/images/...); the rest are absolute MakerWorld URLs.
+      const resolve = (src: string) => (src.startsWith("/") ? workerUrl(src) : src);
+      return { ...res, rows: res.rows.map((r) => ({ ...r, images: r.images.map(resolve) })) };
+    },
+    [projectId, strategy, maxAgreement],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchBatch()
+      .then((res) => {
+        if (cancelled) return;
+        setQueue(res.rows);
+        setIndex(0);
+        setImageIndex(0);
+        setFeatures({});
+        setCounts({ labeled: res.labeled, reviewed: res.reviewed, matched: res.matched });
+        setCursor(res.nextCursor);
+        setExhausted(!res.nextCursor);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchBatch]);
+
+  // Keep a few items ahead loaded and their images warm in the browser cache.
+  useEffect(() => {
+    for (const item of queue.slice(index + 1, index + 1 + PREFETCH_AHEAD)) {
+      for (const src of item.images) {
+        const img = new window.Image();
+        img.src = src;
+      }
+    }
+    if (!cursor || loadingMore.current || queue.length - index > PREFETCH_AHEAD + 2 || queue.length === 0) return;
+    loadingMore.current = true;
+    fetchBatch(cursor)
+      .then((res) => {
+        setQueue((q) => [...q, ...res.rows.filter((r) => !q.some((x) => x.id === r.id))]);
+        setCounts({ labeled: res.labeled, reviewed: res.reviewed, matched: res.matched });
+        setCursor(res.nextCursor);
+        setExhausted(!res.nextCursor);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)))
+      .finally(() => {
+        loadingMore.current = false;
+      });
+  }, [queue, index, cursor, fetchBatch]);
+
+  const current = queue[index] ?? null;
+  const currentFeatures = current ? (features[current.id] ?? current.label.extracted) : null;
+
+  const go = useCallback(
+    (delta: number) => {
+      setIndex((i) => Math.max(0, Math.min(queue.length, i + delta)));
+      setImageIndex(0);
+    },
+    [queue.length],
+  );
+
+  const updateFeatures = useCallback(
+    (fn: (f: Features) => Features) => {
+      if (!current || !currentFeatures) return;
+      setFeatures((all) => ({ ...all, [current.id]: fn(currentFeatures) }));
+    },
+    [current, currentFeatures],
+  );
+
+  const submit = useCallback(
+    async (grade: Grade) => {
+      if (!current || !currentFeatures || busy) return;
+      if (!reviewer.trim()) {
+        setError("请先填写审核人");
+        return;
+      }
+      setBusy(true);
+      setError(null);
+      try {
+        const overrides = featureOverrides(current.label.extracted, currentFeatures);
+        await requestJson(workerUrl(`/api/models/${current.id}/reviews`), "POST", {
+          reviewer: reviewer.trim(),
+          action: grade === current.label.grade ? "confirm" : "override",
+          grade,
+          features: Object.keys(overrides).length > 0 ? overrides : undefined,
+        });
+        setSessionCount((n) => n + 1);
+        setCounts((c) => (c ? { ...c, reviewed: c.reviewed + 1, matched: c.matched - 1 } : c));
+        setQueue((q) => q.filter((x) => x.id !== current.id));
+        setImageIndex(0);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      } finally {
+        setBusy(false);
+      }
+    },
+    [current, currentFeatures, busy, reviewer],
+  );
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.tagName === "SELECT")) return;
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      const key = e.key.toUpperCase();
+      if ((GRADES as string[]).includes(key)) {
+        e.preventDefault();
+        submit(key as Grade);
+      } else if (e.key === "Enter" || e.key === " ") {
+        e.preventDefault();
+        if (current) submit(current.label.grade);
+      } else if (e.key === "ArrowRight" || e.key === "ArrowLeft") {
+        e.preventDefault();
+        go(e.key === "ArrowRight" ? 1 : -1);
+      } else if (e.key === "]" || e.key === "[") {
+        const n = current?.images.length ?? 0;
+        if (n > 0) setImageIndex((i) => (i + (e.key === "]" ? 1 : n - 1)) % n);
+      } else if (/^[1-9]$/.test(e.key)) {
+        const f = BOOLEAN_FEATURES[Number(e.key) - 1];
+        updateFeatures((cur) => ({ ...cur, [f.key]: !cur[f.key] }));
+      } else if (e.key === "0") {
+        updateFeatures((cur) => ({
+          ...cur,
+          structure_clarity: CLARITY[(CLARITY.indexOf(cur.structure_clarity) + 1) % CLARITY.length],
+        }));
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [submit, go, updateFeatures, current]);
+
+  const mainImage = current?.images[imageIndex] ?? current?.images[0] ?? null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="space-y-1">
+          <h1 className="text-xl font-semibold">快速审核</h1>
+          <div className="text-sm text-zinc-600">
+            S/A/B/C/D 给出等级并进入下一个；回车或空格确认 AI 等级；1-9 切换要素，0 切换结构清晰度；←/→ 跳过或返回；[ ] 切换图片。
+          </div>
+        </div>
+        <div className="flex items-center gap-3 text-sm">
+          <select
+            className="h-9 rounded border border-zinc-200 bg-white px-2"
+            value={strategy}
+            onChange={(e) => setStrategy(e.target.value as Strategy)}
+          >
+            {STRATEGIES.map((s) => (
+              <option key={s.value} value={s.value}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+          <select
+            className="h-9 rounded border border-zinc-200 bg-white px-2"
+            value={maxAgreement}
+            onChange={(e) => setMaxAgreement(e.target.value)}
+          >
+            {AGREEMENT_FILTERS.map((f) => (
+              <option key={f.value} value={f.value}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+          <input
+            className="h-9 w-32 rounded border border-zinc-200 px-2"
+            placeholder="审核人"
+            value={reviewer}
+            onChange={(e) => setReviewer(e.target.value)}
+          />
+          {counts ? (
+            <div className="tabular-nums">
+              已审核 {counts.reviewed} / {counts.labeled}
+              <span className="ml-2 text-zinc-500">本次 {sessionCount}</span>
+              {strategy !== "sequential" || maxAgreement ? <span className="ml-2 text-zinc-500">符合条件 {counts.matched}</span> : null}
+            </div>
+          ) : null}
+        </div>
+      </div>
+
+      {counts && counts.labeled > 0 ? (
+        <div className="h-1.5 overflow-hidden rounded bg-zinc-200">
+          <div className="h-full bg-emerald-500" style={{ width: `${(counts.reviewed / counts.labeled) * 100}%` }} />
+        </div>
+      ) : null}
+
+      {error ? <div className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div> : null}
+
+      {current && currentFeatures ? (
+        <div className="grid gap-4 lg:grid-cols-[1fr_360px]">
+          <div className="grid content-start gap-2">
+            <div className="flex h-[480px] items-center justify-center rounded-lg border border-zinc-200 bg-white">
+              {mainImage ? (
+                <Image
+                  unoptimized
+                  src={mainImage}
+                  alt={current.title ?? current.id}
+                  width={800}
+                  height={480}
+                  className="h-full w-full object-contain"
+                />
+              ) : (
+                <div className="text-sm text-zinc-400">没有图片</div>
+              )}
+            </div>
+            <div className="flex gap-2 overflow-x-auto">
+              {current.images.map((src, i) => (
+                <button
+                  key={`${src}-${i}`}
+                  onClick={() => setImageIndex(i)}
+                  className={`shrink-0 rounded border-2 ${i === imageIndex ? "border-black" : "border-transparent"}`}
+                >
+                  <Image unoptimized src={src} alt="" width={72} height={72} className="h-18 w-18 rounded object-cover" />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid content-start gap-3 rounded-lg border border-zinc-200 bg-white p-4 text-sm">
+            <div>
+              <a className="font-mono underline" href={current.url} target="_blank" rel="noreferrer">
+                {current.id}
+              </a>
+              <div className="font-medium">{current.title ?? "-"}</div>
+              <div className="text-xs text-zinc-500">
+                第 {index + 1} 个 · 队列中 {queue.length} 个{exhausted ? "" : "+"}
+              </div>
+            </div>
+            <div>
+              AI 等级：<span className="font-mono text-lg font-semibold">{current.label.grade}</span>
+              {current.label.rubricVersion ? (
+                <span className="ml-1 text-xs text-zinc-400">v{current.label.rubricVersion}</span>
+              ) : null}
+              {typeof current.label.extracted.confidence === "number" ? (
+                <span className="ml-2 text-xs text-zinc-500">置信度 {current.label.extracted.confidence.toFixed(2)}</span>
+              ) : null}
+              {current.label.sampleCount > 1 && current.label.agreement !== null ? (
+                <span className="ml-2 text-xs text-zinc-500">
+                  {current.label.sampleCount} 次采样一致 {Math.round(current.label.agreement * 100)}%
+                </span>
+              ) : null}
+            </div>
+            {current.priority.reasons.length > 0 ? (
+              <div className="flex flex-wrap gap-1">
+                {current.priority.reasons.map((r) => (
+                  <span key={r} className="rounded bg-amber-50 px-2 py-0.5 text-xs text-amber-800">
+                    {r}
+                  </span>
+                ))}
+              </div>
+            ) : null}
+            <div className="text-zinc-700">{current.label.reason}</div>
+            {current.label.extracted.summary ? <div className="text-zinc-500">{current.label.extracted.summary}</div> : null}
+
+            <div className="grid gap-1">
+              {BOOLEAN_FEATURES.map((f, i) => {
+                const changed = current.label.extracted[f.key] !== currentFeatures[f.key];
+                return (
+                  <label key={f.key} className={`flex items-center gap-2 ${changed ? "text-amber-700" : ""}`}>
+                    <span className="w-4 font-mono text-xs text-zinc-400">{i + 1}</span>
+                    <input
+                      type="checkbox"
+                      checked={currentFeatures[f.key]}
+                      onChange={() => updateFeatures((cur) => ({ ...cur, [f.key]: !cur[f.key] }))}
+                    />
+                    {f.label}
+                  </label>
+                );
+              })}
+              <div
+                className={`flex items-center gap-2 ${
+                  current.label.extracted.structure_clarity !== currentFeatures.structure_clarity ? "text-amber-700" : ""
+                }`}
+              >
+                <span className="w-4 font-mono text-xs text-zinc-400">0</span>
+                结构清晰度：<span className="font-mono">{currentFeatures.structure_clarity}</span>
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              {GRADES.map((g) => (
+                <button
+                  key={g}
+                  disabled={busy}
+                  onClick={() => submit(g)}
+                  className={`h-10 w-10 rounded border font-mono text-base ${
+                    g === current.label.grade ? "border-black" : "border-zinc-200"
+                  } hover:bg-zinc-50 disabled:opacity-60`}
+                >
+                  {g}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="rounded-lg border border-zinc-200 bg-white p-6 text-center text-sm text-zinc-500">
+          {queue.length === 0 && exhausted ? "没有符合条件的待审核模型。" : index >= queue.length && queue.length > 0 ? "已到队列末尾，按 ← 返回跳过的模型。" : "加载中…"}
+        </div>
+      )}
+    </div>
+  );
+}
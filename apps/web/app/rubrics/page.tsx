@@ -0,0 +1,303 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { workerUrl } from "@/lib/worker";
+
+type Grade = "S" | "A" | "B" | "C" | "D";
+
+type RubricSummary = {
+  version: number;
+  name: string;
+  notes: string | null;
+  created_at: string;
+  labelCount: number;
+};
+
+type RubricFeature = { key: string; label: string; definition: string };
+
+type Rubric = {
+  version: number;
+  name: string;
+  notes: string | null;
+  createdAt: string;
+  grades: Record<Grade, string>;
+  constraints: string[];
+  features: RubricFeature[];
+  tieBreaks: string[];
+  referenceCounts: Record<Grade, number>;
+};
+
+type Draft = {
+  name: string;
+  notes: string;
+  grades: Record<Grade, string>;
+  constraints: string;
+  features: RubricFeature[];
+  tieBreaks: string;
+  referenceCounts: Record<Grade, number>;
+};
+
+const GRADES: Grade[] = ["S", "A", "B", "C", "D"];
+
+const FEATURE_LABELS: Record<string, string> = {
+  story: "故事/主题（只看图片）",
+  selling_points: "卖点（只看图片）",
+  interaction: "互动（只看图片）",
+  scene: "场景（只看图片）",
+  params: "参数（只看图片）",
+  instructions: "说明（只看图片）",
+  structure_clarity: "结构清晰度（只看图片信息组织）",
+  multicolor: "多色分件（只看图片）",
+  advanced_structure: "高级结构（只看图片）",
+  use_case: "用途（只看图片）",
+};
+
+function normalizeErrorText(text: string) {
+  const t = (text ?? "").trim();
+  if (!t) return "请求失败";
+  try {
+    const parsed = JSON.parse(t) as { error?: unknown };
+    if (typeof parsed?.error === "string") return parsed.error;
+  } catch {}
+  return t.length > 300 ? `${t.slice(0, 300)}…` : t;
+}
+
+async function requestJson<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    cache: "no-store",
+    headers: body === undefined ? undefined : { "content-type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error(normalizeErrorText(await res.text()));
+  return (await res.json()) as T;
+}
+
+function toDraft(r: Rubric): Draft {
+  const byKey = new Map(r.features.map((f) => [f.key, f]));
+  return {
+    name: r.name,
+    notes: r.notes ?? "",
+    grades: { ...r.grades },
+    constraints: r.constraints.join("\n"),
+    features: Object.keys(FEATURE_LABELS).map(
+      (key) => byKey.get(key) ?? { key, label: FEATURE_LABELS[key], definition: "" },
+    ),
+    tieBreaks: r.tieBreaks.join("\n"),
+    referenceCounts: { ...r.referenceCounts },
+  };
+}
+
+function lines(text: string) {
+  return text
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+}
+
+export default function RubricsPage() {
+  const [rows, setRows] = useState<RubricSummary[]>([]);
+  const [selected, setSelected] = useState<Rubric | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const open = useCallback(async (version: number | "latest") => {
+    try {
+      const r = await requestJson<Rubric>(workerUrl(`/api/rubrics/${version}`), "GET");
+      setSelected(r);
+      setDraft(toDraft(r));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, []);
+
+  const load = useCallback(async () => {
+    try {
+      const data = await requestJson<{ rows: RubricSummary[] }>(workerUrl("/api/rubrics"), "GET");
+      setRows(data.rows);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    open("latest");
+  }, [load, open]);
+
+  const updateFeature = (key: string, patch: Partial<RubricFeature>) =>
+    setDraft((d) => (d ? { ...d, features: d.features.map((f) => (f.key === key ? { ...f, ...patch } : f)) } : d));
+
+  const save = async () => {
+    if (!draft) return;
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await requestJson<{ version: number }>(workerUrl("/api/rubrics"), "POST", {
+        name: draft.name,
+        notes: draft.notes.trim() ? draft.notes.trim() : null,
+        grades: draft.grades,
+        constraints: lines(draft.constraints),
+        features: draft.features.filter((f) => f.definition.trim()),
+        tieBreaks: lines(draft.tieBreaks),
+        referenceCounts: draft.referenceCounts,
+      });
+      setNotice(`已保存为 v${res.version}，之后新建的标注任务默认使用这个版本`);
+      await load();
+      await open(res.version);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-xl font-semibold">评分标准</h1>
+        <div className="text-sm text-zinc-600">
+          标准按版本保存，修改后会生成新版本，不会影响已有标注；每条标注都会记录使用的标准版本。
+        </div>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-[260px_1fr]">
+        <div className="grid content-start gap-2">
+          {rows.map((r) => (
+            <button
+              key={r.version}
+              onClick={() => open(r.version)}
+              className={`rounded-lg border p-3 text-left text-sm ${
+                selected?.version === r.version ? "border-black bg-white" : "border-zinc-200 bg-white hover:bg-zinc-50"
+              }`}
+            >
+              <div className="font-medium">
+                v{r.version} {r.name}
+              </div>
+              <div className="text-xs text-zinc-500">
+                {new Date(r.created_at).toLocaleString()} · {r.labelCount} 条标注
+              </div>
+              {r.notes ? <div className="mt-1 text-xs text-zinc-600">{r.notes}</div> : null}
+            </button>
+          ))}
+        </div>
+
+        {draft ? (
+          <div className="grid content-start gap-4 rounded-lg border border-zinc-200 bg-white p-4">
+            <div className="text-sm text-zinc-500">基于 v{selected?.version} 编辑</div>
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <label className="grid gap-1">
+                <div className="text-sm font-medium">版本名称</div>
+                <input
+                  className="h-10 rounded border border-zinc-200 px-3 text-sm"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </label>
+              <label className="grid gap-1">
+                <div className="text-sm font-medium">修改说明（可选）</div>
+                <input
+                  className="h-10 rounded border border-zinc-200 px-3 text-sm"
+                  value={draft.notes}
+                  onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                />
+              </label>
+            </div>
+
+            <div className="grid gap-2">
+              <div className="text-sm font-medium">等级定义</div>
+              {GRADES.map((g) => (
+                <label key={g} className="grid grid-cols-[24px_1fr] items-start gap-2">
+                  <span className="pt-2 font-mono text-sm">{g}</span>
+                  <textarea
+                    className="min-h-16 rounded border border-zinc-200 p-2 text-sm"
+                    value={draft.grades[g]}
+                    onChange={(e) => setDraft({ ...draft, grades: { ...draft.grades, [g]: e.target.value } })}
+                  />
+                </label>
+              ))}
+            </div>
+
+            <div className="grid gap-2">
+              <div className="text-sm font-medium">要素定义</div>
+              <div className="text-xs text-zinc-500">定义留空的要素不会写进提示词。</div>
+              {draft.features.map((f) => (
+                <div key={f.key} className="grid gap-1 md:grid-cols-[220px_1fr]">
+                  <input
+                    className="h-9 rounded border border-zinc-200 px-2 text-sm"
+                    value={f.label}
+                    onChange={(e) => updateFeature(f.key, { label: e.target.value })}
+                  />
+                  <textarea
+                    className="min-h-9 rounded border border-zinc-200 p-2 text-sm"
+                    value={f.definition}
+                    onChange={(e) => updateFeature(f.key, { definition: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <label className="grid gap-1">
+              <div className="text-sm font-medium">约束（每行一条）</div>
+              <textarea
+                className="min-h-28 rounded border border-zinc-200 p-2 text-sm"
+                value={draft.constraints}
+                onChange={(e) => setDraft({ ...draft, constraints: e.target.value })}
+              />
+            </label>
+
+            <label className="grid gap-1">
+              <div className="text-sm font-medium">分级决策规则（每行一条）</div>
+              <textarea
+                className="min-h-20 rounded border border-zinc-200 p-2 text-sm"
+                value={draft.tieBreaks}
+                onChange={(e) => setDraft({ ...draft, tieBreaks: e.target.value })}
+              />
+            </label>
+
+            <div className="grid gap-2">
+              <div className="text-sm font-medium">每个等级发送的参考图数量</div>
+              <div className="text-xs text-zinc-500">
+                按“参考图”页中的顺序取每个等级前 N 张启用的图片；设为 0 表示不发送该等级。
+              </div>
+              <div className="flex flex-wrap gap-3">
+                {GRADES.map((g) => (
+                  <label key={g} className="flex items-center gap-1 text-sm">
+                    <span className="font-mono">{g}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={5}
+                      className="h-9 w-16 rounded border border-zinc-200 px-2 text-sm"
+                      value={draft.referenceCounts[g]}
+                      onChange={(e) =>
+                        setDraft({ ...draft, referenceCounts: { ...draft.referenceCounts, [g]: Number(e.target.value) } })
+                      }
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <button
+                disabled={busy || !draft.name.trim()}
+                onClick={save}
+                className="h-10 rounded bg-black px-4 text-sm font-medium text-white disabled:opacity-60"
+              >
+                保存为新版本
+              </button>
+              {error ? <div className="text-sm text-red-600">{error}</div> : null}
+              {notice ? <div className="text-sm text-emerald-700">{notice}</div> : null}
+            </div>
+          </div>
+        ) : error ? (
+          <div className="text-sm text-red-600">{error}</div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
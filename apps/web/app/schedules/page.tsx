@@ -0,0 +1,325 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { workerUrl } from "@/lib/worker";
+import { useProjectId } from "@/lib/project";
+
+type JobType = "crawl" | "refresh" | "label";
+
+type Schedule = {
+  id: string;
+  name: string;
+  cron: string;
+  job_type: JobType;
+  config_json: string;
+  then_label: number;
+  missed_policy: "run_once" | "skip";
+  enabled: number;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_job_id: string | null;
+  chained_job_id: string | null;
+  last_error: string | null;
+};
+
+const JOB_TYPE_LABELS: Record<JobType, string> = {
+  crawl: "爬取",
+  refresh: "刷新指标",
+  label: "标注",
+};
+
+const CRON_PRESETS = [
+  { value: "@nightly", label: "每晚 2 点" },
+  { value: "@daily", label: "每天 0 点" },
+  { value: "@hourly", label: "每小时" },
+  { value: "@weekly", label: "每周日 0 点" },
+  { value: "0 */6 * * *", label: "每 6 小时" },
+];
+
+function normalizeErrorText(text: string) {
+  const t = (text ?? "").trim();
+  if (!t) return "请求失败";
+  try {
+    const parsed = JSON.parse(t) as { error?: unknown };
+    if (typeof parsed?.error === "string") return parsed.error;
+  } catch {}
+  return t.length > 300 ? `${t.slice(0, 300)}…` : t;
+}
+
+async function requestJson<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    cache: "no-store",
+    headers: body === undefined ? undefined : { "content-type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error(normalizeErrorText(await res.text()));
+  return (await res.json()) as T;
+}
+
+function formatTime(v: string | null) {
+  return v ? new Date(v).toLocaleString() : "-";
+}
+
+function scheduleProjectId(s: Schedule) {
+  try {
+    const config = JSON.parse(s.config_json) as { projectId?: unknown };
+    return typeof config.projectId === "string" ? config.projectId : null;
+  } catch {
+    return null;
+  }
+}
+
+export default function SchedulesPage() {
+  const projectId = useProjectId();
+  const [rows, setRows] = useState<Schedule[]>([]);
+  const [name, setName] = useState("每晚爬取");
+  const [cron, setCron] = useState("@nightly");
+  const [jobType, setJobType] = useState<JobType>("crawl");
+  const [startUrl, setStartUrl] = useState("https://makerworld.com/zh/3d-models");
+  const [limit, setLimit] = useState(200);
+  const [staleHours, setStaleHours] = useState(24);
+  const [thenLabel, setThenLabel] = useState(true);
+  const [missedPolicy, setMissedPolicy] = useState<"run_once" | "skip">("run_once");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const data = await requestJson<{ rows: Schedule[] }>(workerUrl("/api/schedules"), "GET");
+      setRows(data.rows);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    const t = setInterval(load, 5000);
+    return () => clearInterval(t);
+  }, [load]);
+
+  const act = async (fn: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await fn();
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const create = () =>
+    act(() => {
+      const config =
+        jobType === "crawl"
+          ? { startUrl, limitModels: limit, projectId }
+          : jobType === "refresh"
+            ? { limitModels: limit, staleHours, projectId }
+            : { limit, projectId };
+      return requestJson(workerUrl("/api/schedules"), "POST", {
+        name,
+        cron,
+        jobType,
+        config,
+        thenLabel: jobType !== "label" && thenLabel,
+        missedPolicy,
+      });
+    });
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-xl font-semibold">定时任务</h1>
+        <div className="text-sm text-zinc-600">
+          按 cron 表达式（服务器本地时间）定时启动爬取、指标刷新或标注；爬取/刷新完成后可自动接着标注。
+        </div>
+      </div>
+
+      <div className="grid gap-4 rounded-lg border border-zinc-200 bg-white p-4">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <label className="grid gap-1">
+            <div className="text-sm font-medium">名称</div>
+            <input
+              className="h-10 rounded border border-zinc-200 px-3 text-sm"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </label>
+          <label className="grid gap-1">
+            <div className="text-sm font-medium">Cron 表达式</div>
+            <input
+              className="h-10 rounded border border-zinc-200 px-3 font-mono text-sm"
+              value={cron}
+              list="cron-presets"
+              onChange={(e) => setCron(e.target.value)}
+            />
+            <datalist id="cron-presets">
+              {CRON_PRESETS.map((p) => (
+                <option key={p.value} value={p.value}>
+                  {p.label}
+                </option>
+              ))}
+            </datalist>
+          </label>
+          <label className="grid gap-1">
+            <div className="text-sm font-medium">任务类型</div>
+            <select
+              className="h-10 rounded border border-zinc-200 bg-white px-2 text-sm"
+              value={jobType}
+              onChange={(e) => setJobType(e.target.value as JobType)}
+            >
+              {(Object.keys(JOB_TYPE_LABELS) as JobType[]).map((t) => (
+                <option key={t} value={t}>
+                  {JOB_TYPE_LABELS[t]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          {jobType === "crawl" ? (
+            <label className="grid gap-1">
+              <div className="text-sm font-medium">起始 URL</div>
+              <input
+                className="h-10 rounded border border-zinc-200 px-3 text-sm"
+                value={startUrl}
+                onChange={(e) => setStartUrl(e.target.value)}
+              />
+            </label>
+          ) : null}
+          {jobType === "refresh" ? (
+            <label className="grid gap-1">
+              <div className="text-sm font-medium">超过多少小时未更新</div>
+              <input
+                type="number"
+                className="h-10 rounded border border-zinc-200 px-3 text-sm"
+                value={staleHours}
+                onChange={(e) => setStaleHours(Number(e.target.value))}
+              />
+            </label>
+          ) : null}
+          <label className="grid gap-1">
+            <div className="text-sm font-medium">{jobType === "label" ? "最多标注数" : "最多模型数"}</div>
+            <input
+              type="number"
+              className="h-10 rounded border border-zinc-200 px-3 text-sm"
+              value={limit}
+              onChange={(e) => setLimit(Number(e.target.value))}
+            />
+          </label>
+          <label className="grid gap-1">
+            <div className="text-sm font-medium">错过执行时间</div>
+            <select
+              className="h-10 rounded border border-zinc-200 bg-white px-2 text-sm"
+              value={missedPolicy}
+              onChange={(e) => setMissedPolicy(e.target.value as "run_once" | "skip")}
+            >
+              <option value="run_once">启动后补跑一次</option>
+              <option value="skip">跳过</option>
+            </select>
+          </label>
+        </div>
+
+        <div className="flex items-center gap-3">
+          {jobType !== "label" ? (
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={thenLabel} onChange={(e) => setThenLabel(e.target.checked)} />
+              完成后自动标注
+            </label>
+          ) : null}
+          <button
+            disabled={busy}
+            onClick={create}
+            className="h-10 rounded bg-black px-4 text-sm font-medium text-white disabled:opacity-60"
+          >
+            新建定时任务
+          </button>
+        </div>
+
+        {error ? <div className="text-sm text-red-600">{error}</div> : null}
+      </div>
+
+      <div className="overflow-auto rounded-lg border border-zinc-200 bg-white">
+        <table className="w-full border-collapse text-sm">
+          <thead>
+            <tr className="border-b border-zinc-200 text-left text-zinc-600">
+              <th className="p-2">名称</th>
+              <th className="p-2">Cron</th>
+              <th className="p-2">类型</th>
+              <th className="p-2">下次执行</th>
+              <th className="p-2">上次执行</th>
+              <th className="p-2">上次任务</th>
+              <th className="p-2">操作</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="p-4 text-center text-zinc-500">
+                  暂无定时任务
+                </td>
+              </tr>
+            ) : null}
+            {rows.map((s) => (
+              <tr key={s.id} className="border-b border-zinc-100 align-top">
+                <td className="p-2">
+                  <div className="font-medium">{s.name}</div>
+                  {s.last_error ? <div className="font-mono text-xs text-red-600">{s.last_error}</div> : null}
+                </td>
+                <td className="p-2 font-mono">{s.cron}</td>
+                <td className="p-2">
+                  {JOB_TYPE_LABELS[s.job_type]}
+                  {s.then_label ? " → 标注" : ""}
+                  {scheduleProjectId(s) ? (
+                    <div className="font-mono text-xs text-zinc-500">项目：{scheduleProjectId(s)}</div>
+                  ) : null}
+                </td>
+                <td className="p-2">{s.enabled ? formatTime(s.next_run_at) : "已停用"}</td>
+                <td className="p-2">{formatTime(s.last_run_at)}</td>
+                <td className="p-2 font-mono text-xs">
+                  <div>{s.last_job_id ?? "-"}</div>
+                  {s.chained_job_id ? <div>{s.chained_job_id}</div> : null}
+                </td>
+                <td className="p-2">
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      disabled={busy}
+                      onClick={() => act(() => requestJson(workerUrl(`/api/schedules/${s.id}/run`), "POST", {}))}
+                      className="h-8 rounded border border-zinc-200 px-2 hover:bg-zinc-50 disabled:opacity-60"
+                    >
+                      立即执行
+                    </button>
+                    <button
+                      disabled={busy}
+                      onClick={() =>
+                        act(() => requestJson(workerUrl(`/api/schedules/${s.id}`), "PATCH", { enabled: !s.enabled }))
+                      }
+                      className="h-8 rounded border border-zinc-200 px-2 hover:bg-zinc-50 disabled:opacity-60"
+                    >
+                      {s.enabled ? "停用" : "启用"}
+                    </button>
+                    <button
+                      disabled={busy}
+                      onClick={() => {
+                        if (!confirm(`删除定时任务「${s.name}」？`)) return;
+                        act(() => requestJson(workerUrl(`/api/schedules/${s.id}`), "DELETE"));
+                      }}
+                      className="h-8 rounded border border-zinc-200 px-2 text-red-600 hover:bg-zinc-50 disabled:opacity-60"
+                    >
+                      删除
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
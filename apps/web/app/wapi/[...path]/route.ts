@@ -23,11 +23,17 @@ async function proxy(req: Request, pathParts: string[]) {
     headers,
     body,
     redirect: "manual",
+    signal: req.signal,
   });
 
   const outHeaders = new Headers(upstream.headers);
   outHeaders.delete("content-encoding");
   outHeaders.delete("transfer-encoding");
+  if ((upstream.headers.get("content-type") ?? "").includes("text/event-stream")) {
+    outHeaders.delete("content-length");
+    outHeaders.set("cache-control", "no-cache, no-transform");
+    outHeaders.set("x-accel-buffering", "no");
+  }
 
   return new Response(upstream.body, {
     status: upstream.status,
@@ -44,3 +50,13 @@ export async function POST(req: Request, ctx: { params: Promise<{ path: string[]
   const { path } = await ctx.params;
   return proxy(req, path);
 }
+
+export async function PATCH(req: Request, ctx: { params: Promise<{ path: string[] }> }) {
+  const { path } = await ctx.params;
+  return proxy(req, path);
+}
+
+export async function DELETE(req: Request, ctx: { params: Promise<{ path: string[] }> }) {
+  const { path } = await ctx.params;
+  return proxy(req, path);
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { workerUrl } from "@/lib/worker";
+
+type Price = {
+  model: string;
+  input_per_million: number;
+  output_per_million: number;
+  per_image: number;
+  updated_at: string;
+};
+
+type Draft = { model: string; input: string; output: string; image: string; saved: boolean };
+
+function normalizeErrorText(text: string) {
+  const t = (text ?? "").trim();
+  if (!t) return "请求失败";
+  try {
+    const parsed = JSON.parse(t) as { error?: unknown };
+    if (typeof parsed?.error === "string") return parsed.error;
+  } catch {}
+  return t.length > 300 ? `${t.slice(0, 300)}…` : t;
+}
+
+async function requestJson<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { "content-type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    cache: "no-store",
+  });
+  if (!res.ok) throw new Error(normalizeErrorText(await res.text()));
+  return (await res.json()) as T;
+}
+
+const toDraft = (p: Price): Draft => ({
+  model: p.model,
+  input: String(p.input_per_million),
+  output: String(p.output_per_million),
+  image: String(p.per_image),
+  saved: true,
+});
+
+// `models` are the model names of the configured backends, offered as suggestions for new rows.
+export default function PriceTable({ models }: { models: string[] }) {
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    requestJson<{ rows: Price[] }>(workerUrl("/api/label-prices"), "GET")
+      .then((data) => {
+        if (!cancelled) setDrafts(data.rows.map(toDraft));
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  const update = (index: number, patch: Partial<Draft>) =>
+    setDrafts((list) => list.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+
+  const save = async (d: Draft) => {
+    setError(null);
+    try {
+      await requestJson(workerUrl("/api/label-prices"), "POST", {
+        model: d.model,
+        inputPerMillion: Number(d.input) || 0,
+        outputPerMillion: Number(d.output) || 0,
+        perImage: Number(d.image) || 0,
+      });
+      setReloadKey((n) => n + 1);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const remove = async (model: string) => {
+    setError(null);
+    try {
+      await requestJson(workerUrl(`/api/label-prices?model=${encodeURIComponent(model)}`), "DELETE");
+      setReloadKey((n) => n + 1);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const missing = models.filter((m) => m && !drafts.some((d) => d.model === m));
+
+  return (
+    <div className="space-y-2 rounded border border-zinc-200 p-3 text-sm">
+      <div className="text-zinc-600">
+        按模型名设置单价：每百万输入 / 输出 token 的价格，以及按张计费的后端每张图片的价格。金额单位自定，各模型保持一致即可；任务开始时读取价格，没有价格的调用不计入费用。
+      </div>
+      {error ? <div className="text-red-600">{error}</div> : null}
+      <table className="border-collapse">
+        <thead>
+          <tr className="text-left text-zinc-500">
+            <th className="py-1 pr-3">模型</th>
+            <th className="py-1 pr-3">输入 / 百万</th>
+            <th className="py-1 pr-3">输出 / 百万</th>
+            <th className="py-1 pr-3">每张图片</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {drafts.map((d, i) => (
+            <tr key={i}>
+              <td className="py-1 pr-3">
+                <input
+                  className="h-8 w-56 rounded border border-zinc-200 px-2 font-mono disabled:bg-zinc-50"
+                  list="price-table-models"
+                  disabled={d.saved}
+                  value={d.model}
+                  onChange={(e) => update(i, { model: e.target.value })}
+                />
+              </td>
+              {(["input", "output", "image"] as const).map((key) => (
+                <td key={key} className="py-1 pr-3">
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    className="h-8 w-24 rounded border border-zinc-200 px-2"
+                    value={d[key]}
+                    onChange={(e) => update(i, { [key]: e.target.value })}
+                  />
+                </td>
+              ))}
+              <td className="flex gap-2 py-1">
+                <button
+                  className="h-8 rounded border border-zinc-200 bg-white px-2 hover:bg-zinc-50 disabled:opacity-60"
+                  disabled={!d.model.trim()}
+                  onClick={() => save(d)}
+                >
+                  保存
+                </button>
+                <button
+                  className="h-8 rounded border border-zinc-200 bg-white px-2 text-red-600 hover:bg-zinc-50"
+                  onClick={() => (d.saved ? remove(d.model) : setDrafts((list) => list.filter((_, j) => j !== i)))}
+                >
+                  删除
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <datalist id="price-table-models">
+        {missing.map((m) => (
+          <option key={m} value={m} />
+        ))}
+      </datalist>
+      <button
+        className="h-8 rounded border border-zinc-200 bg-white px-2 hover:bg-zinc-50"
+        onClick={() => setDrafts((list) => [...list, { model: missing[0] ?? "", input: "0", output: "0", image: "0", saved: false }])}
+      >
+        添加模型
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { workerUrl } from "@/lib/worker";
+import { DEFAULT_PROJECT_ID, PROJECTS_UPDATED_EVENT, setProjectId, useProjectId } from "@/lib/project";
+
+type Project = { id: string; name: string };
+
+export default function ProjectPicker() {
+  const projectId = useProjectId();
+  const [projects, setProjects] = useState<Project[]>([]);
+
+  useEffect(() => {
+    const load = () =>
+      fetch(workerUrl("/api/projects"), { cache: "no-store" })
+        .then((res) => (res.ok ? (res.json() as Promise<{ rows: Project[] }>) : { rows: [] }))
+        .then((data) => {
+          setProjects(data.rows);
+          if (data.rows.length > 0 && !data.rows.some((p) => p.id === projectId)) setProjectId(DEFAULT_PROJECT_ID);
+        })
+        .catch(() => setProjects([]));
+    load();
+    window.addEventListener(PROJECTS_UPDATED_EVENT, load);
+    return () => window.removeEventListener(PROJECTS_UPDATED_EVENT, load);
+  }, [projectId]);
+
+  return (
+    <label className="flex items-center gap-2 text-sm">
+      <span className="text-zinc-500">项目</span>
+      <select
+        className="h-8 rounded border border-zinc-200 bg-white px-2 text-sm"
+        value={projectId}
+        onChange={(e) => setProjectId(e.target.value)}
+      >
+        {projects.length === 0 ? <option value={projectId}>{projectId}</option> : null}
+        {projects.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
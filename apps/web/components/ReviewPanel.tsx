@@ -0,0 +1,267 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { workerUrl } from "@/lib/worker";
+import { setReviewer, useReviewer } from "@/lib/reviewer";
+
+type Grade = "S" | "A" | "B" | "C" | "D";
+type Clarity = "low" | "medium" | "high";
+
+type Features = {
+  story: boolean;
+  selling_points: boolean;
+  interaction: boolean;
+  scene: boolean;
+  params: boolean;
+  instructions: boolean;
+  structure_clarity: Clarity;
+  multicolor: boolean;
+  advanced_structure: boolean;
+  use_case: boolean;
+};
+
+type ModelDetail = {
+  model: { id: string; title: string | null; url: string };
+  label: { grade: Grade; reason: string; extracted_json: string; rubric_version: number | null } | null;
+  review: { grade: Grade; reviewer: string; comment: string | null; created_at: string } | null;
+  final: { grade: Grade | null; extracted: (Features & { summary?: string }) | null; source: "ai" | "human" | null };
+  consensus: {
+    sampleCount: number;
+    agreement: number | null;
+    samples: { provider: string | null; model: string | null; index: number; grade: Grade; confidence: number | null }[];
+  } | null;
+};
+
+const GRADES: Grade[] = ["S", "A", "B", "C", "D"];
+
+const BOOLEAN_FEATURES: { key: Exclude<keyof Features, "structure_clarity">; label: string }[] = [
+  { key: "story", label: "故事/主题" },
+  { key: "selling_points", label: "卖点" },
+  { key: "interaction", label: "互动" },
+  { key: "scene", label: "场景" },
+  { key: "params", label: "参数" },
+  { key: "instructions", label: "说明" },
+  { key: "multicolor", label: "多色分件" },
+  { key: "advanced_structure", label: "高级结构" },
+  { key: "use_case", label: "用途" },
+];
+
+function normalizeErrorText(text: string) {
+  const t = (text ?? "").trim();
+  if (!t) return "请求失败";
+  try {
+    const parsed = JSON.parse(t) as { error?: unknown };
+    if (typeof parsed?.error === "string") return parsed.error;
+  } catch {}
+  return t.length > 300 ? `${t.slice(0, 300)}…` : t;
+}
+
+async function requestJson<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    cache: "no-store",
+    headers: body === undefined ? undefined : { "content-type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error(normalizeErrorText(await res.text()));
+  return (await res.json()) as T;
+}
+
+// Only the fields that differ from the AI output are sent as overrides.
+function diffFeatures(ai: Features | null, current: Features) {
+  const out: Partial<Features> = {};
+  for (const key of Object.keys(current) as (keyof Features)[]) {
+    if (!ai || ai[key] !== current[key]) (out as Record<string, unknown>)[key] = current[key];
+  }
+  return out;
+}
+
+export default function ReviewPanel({
+  modelId,
+  onSaved,
+  onClose,
+}: {
+  modelId: string;
+  onSaved: () => void;
+  onClose?: () => void;
+}) {
+  const reviewer = useReviewer();
+  const [detail, setDetail] = useState<{ id: string; data: ModelDetail } | null>(null);
+  const [grade, setGrade] = useState<Grade | null>(null);
+  const [features, setFeatures] = useState<Features | null>(null);
+  const [comment, setComment] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    requestJson<ModelDetail>(workerUrl(`/api/models/${modelId}`), "GET")
+      .then((data) => {
+        if (cancelled) return;
+        setDetail({ id: modelId, data });
+        setGrade(data.final.grade);
+        setFeatures(data.final.extracted);
+        setComment("");
+        setError(null);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [modelId]);
+
+  const data = detail?.id === modelId ? detail.data : null;
+  const aiFeatures = data?.label ? (JSON.parse(data.label.extracted_json) as Features) : null;
+
+  const submit = async (action: "confirm" | "override") => {
+    if (!reviewer.trim()) {
+      setError("请先填写审核人");
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await requestJson(workerUrl(`/api/models/${modelId}/reviews`), "POST", {
+        reviewer: reviewer.trim(),
+        action,
+        grade: action === "override" ? grade : undefined,
+        features: features ? diffFeatures(aiFeatures, features) : undefined,
+        comment: comment.trim() ? comment.trim() : undefined,
+      });
+      onSaved();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="grid gap-3 rounded-lg border border-zinc-200 bg-white p-4 text-sm">
+      <div className="flex items-center justify-between gap-3">
+        <div className="font-medium">
+          审核 <span className="font-mono">{modelId}</span>
+          {data?.model.title ? <span className="ml-2 text-zinc-600">{data.model.title}</span> : null}
+        </div>
+        {onClose ? (
+          <button onClick={onClose} className="rounded px-2 py-1 text-zinc-500 hover:bg-zinc-100">
+            关闭
+          </button>
+        ) : null}
+      </div>
+
+      {data ? (
+        <>
+          <div className="grid gap-1">
+            <div>
+              AI：<span className="font-mono font-medium">{data.label?.grade ?? "未标注"}</span>
+              {data.label?.rubric_version ? <span className="ml-1 text-xs text-zinc-400">v{data.label.rubric_version}</span> : null}
+            </div>
+            {data.label?.reason ? <div className="text-zinc-600">{data.label.reason}</div> : null}
+            {data.consensus && data.consensus.samples.length > 1 ? (
+              <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-500">
+                <span>
+                  {data.consensus.sampleCount} 次采样，一致率 {Math.round((data.consensus.agreement ?? 0) * 100)}%：
+                </span>
+                {data.consensus.samples.map((s) => (
+                  <span
+                    key={s.index}
+                    className={`rounded border px-1.5 py-0.5 ${s.grade === data.label?.grade ? "border-zinc-200" : "border-amber-300 text-amber-800"}`}
+                    title={[s.provider, s.model].filter(Boolean).join(" / ")}
+                  >
+                    <span className="font-mono">{s.grade}</span>
+                    {s.confidence !== null ? ` ${s.confidence.toFixed(2)}` : ""}
+                  </span>
+                ))}
+              </div>
+            ) : null}
+            {data.review ? (
+              <div className="text-zinc-600">
+                上次审核：<span className="font-mono">{data.review.grade}</span>（{data.review.reviewer}，
+                {new Date(data.review.created_at).toLocaleString()}）{data.review.comment ? ` ${data.review.comment}` : ""}
+              </div>
+            ) : null}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-zinc-500">等级</span>
+            {GRADES.map((g) => (
+              <button
+                key={g}
+                onClick={() => setGrade(g)}
+                className={`h-8 w-8 rounded border font-mono ${
+                  grade === g ? "border-black bg-black text-white" : "border-zinc-200 hover:bg-zinc-50"
+                }`}
+              >
+                {g}
+              </button>
+            ))}
+          </div>
+
+          {features ? (
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {BOOLEAN_FEATURES.map((f) => (
+                <label
+                  key={f.key}
+                  className={`flex items-center gap-1 ${aiFeatures && aiFeatures[f.key] !== features[f.key] ? "text-amber-700" : ""}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={features[f.key]}
+                    onChange={(e) => setFeatures({ ...features, [f.key]: e.target.checked })}
+                  />
+                  {f.label}
+                </label>
+              ))}
+              <label className="flex items-center gap-1">
+                结构清晰度
+                <select
+                  className="h-7 rounded border border-zinc-200 px-1"
+                  value={features.structure_clarity}
+                  onChange={(e) => setFeatures({ ...features, structure_clarity: e.target.value as Clarity })}
+                >
+                  <option value="low">low</option>
+                  <option value="medium">medium</option>
+                  <option value="high">high</option>
+                </select>
+              </label>
+            </div>
+          ) : null}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              className="h-9 w-32 rounded border border-zinc-200 px-2"
+              placeholder="审核人"
+              value={reviewer}
+              onChange={(e) => setReviewer(e.target.value)}
+            />
+            <input
+              className="h-9 flex-1 rounded border border-zinc-200 px-2"
+              placeholder="备注（可选）"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+            />
+            <button
+              disabled={busy || !data.label}
+              onClick={() => submit("confirm")}
+              className="h-9 rounded border border-zinc-200 px-3 hover:bg-zinc-50 disabled:opacity-60"
+            >
+              确认 AI 等级
+            </button>
+            <button
+              disabled={busy || !grade}
+              onClick={() => submit("override")}
+              className="h-9 rounded bg-black px-3 font-medium text-white disabled:opacity-60"
+            >
+              保存为人工等级
+            </button>
+          </div>
+        </>
+      ) : null}
+
+      {error ? <div className="text-red-600">{error}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { workerUrl } from "./worker";
+
+export type JobFeedItem = {
+  seq: number;
+  at: string;
+  ok: boolean;
+  modelId: string;
+  url: string;
+  title?: string | null;
+  grade?: string | null;
+  error?: string;
+  errorClass?: string;
+  retrying?: boolean;
+};
+
+type State<J> = {
+  jobId: string;
+  job: J | null;
+  feed: JobFeedItem[];
+  disconnected: boolean;
+};
+
+const FEED_LIMIT = 30;
+
+export function useJobEvents<J>(jobId: string) {
+  const [state, setState] = useState<State<J>>({ jobId: "", job: null, feed: [], disconnected: false });
+
+  useEffect(() => {
+    if (!jobId) return;
+    const es = new EventSource(workerUrl(`/api/jobs/${jobId}/events`));
+
+    const update = (fn: (s: State<J>) => State<J>) =>
+      setState((prev) => fn(prev.jobId === jobId ? prev : { jobId, job: null, feed: [], disconnected: false }));
+
+    const pushFeed = (item: JobFeedItem) =>
+      update((s) =>
+        s.feed.some((f) => f.seq === item.seq) ? s : { ...s, feed: [item, ...s.feed].slice(0, FEED_LIMIT) },
+      );
+
+    es.addEventListener("job", (e) => {
+      const data = JSON.parse((e as MessageEvent).data) as J | null;
+      update((s) => ({ ...s, job: data, disconnected: false }));
+    });
+    es.addEventListener("model_done", (e) => {
+      pushFeed({ ...JSON.parse((e as MessageEvent).data), ok: true });
+    });
+    es.addEventListener("model_failed", (e) => {
+      pushFeed({ ...JSON.parse((e as MessageEvent).data), ok: false });
+    });
+    es.onerror = () => {
+      if (es.readyState === EventSource.CLOSED) update((s) => ({ ...s, disconnected: true }));
+    };
+
+    return () => es.close();
+  }, [jobId]);
+
+  if (state.jobId !== jobId) return { job: null, feed: [] as JobFeedItem[], disconnected: false };
+  return { job: state.job, feed: state.feed, disconnected: state.disconnected };
+}
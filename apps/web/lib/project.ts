@@ -0,0 +1,35 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+
+export const DEFAULT_PROJECT_ID = "default";
+
+const STORAGE_KEY = "mw_project_id";
+const CHANGE_EVENT = "mw-project-change";
+export const PROJECTS_UPDATED_EVENT = "mw-projects-updated";
+
+function subscribe(onChange: () => void) {
+  window.addEventListener(CHANGE_EVENT, onChange);
+  window.addEventListener("storage", onChange);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, onChange);
+    window.removeEventListener("storage", onChange);
+  };
+}
+
+export function getProjectId() {
+  return localStorage.getItem(STORAGE_KEY) || DEFAULT_PROJECT_ID;
+}
+
+export function setProjectId(id: string) {
+  localStorage.setItem(STORAGE_KEY, id);
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+export function notifyProjectsUpdated() {
+  window.dispatchEvent(new Event(PROJECTS_UPDATED_EVENT));
+}
+
+export function useProjectId() {
+  return useSyncExternalStore(subscribe, getProjectId, () => DEFAULT_PROJECT_ID);
+}
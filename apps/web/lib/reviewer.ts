@@ -0,0 +1,24 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+
+const STORAGE_KEY = "mw_reviewer";
+const CHANGE_EVENT = "mw-reviewer-change";
+
+function subscribe(onChange: () => void) {
+  window.addEventListener(CHANGE_EVENT, onChange);
+  window.addEventListener("storage", onChange);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, onChange);
+    window.removeEventListener("storage", onChange);
+  };
+}
+
+export function setReviewer(name: string) {
+  localStorage.setItem(STORAGE_KEY, name);
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+export function useReviewer() {
+  return useSyncExternalStore(subscribe, () => localStorage.getItem(STORAGE_KEY) ?? "", () => "");
+}
@@ -0,0 +1,23 @@
+import type { CrawlErrorClass } from "../db/types";
+
+export function classifyCrawlError(err: unknown): CrawlErrorClass {
+  const name = err instanceof Error ? err.name : "";
+  const message = err instanceof Error ? err.message : String(err);
+  if (message === "CLOUDFLARE_BLOCKED") return "CLOUDFLARE_BLOCKED";
+  if (message.startsWith("Unable to extract model id")) return "NO_MODEL_ID";
+  if (name === "TimeoutError" || /timeout/i.test(message)) return "TIMEOUT";
+  if (/net::ERR_|page\.goto|navigation|Target page, context or browser has been closed/i.test(message)) {
+    return "NAVIGATION_ERROR";
+  }
+  return "UNKNOWN";
+}
+
+export function isTransientCrawlError(errorClass: CrawlErrorClass) {
+  return errorClass === "TIMEOUT" || errorClass === "NAVIGATION_ERROR";
+}
+
+export function retryDelayMs(baseMs: number, attempt: number) {
+  const exp = Math.max(0, baseMs) * 2 ** Math.max(0, attempt - 1);
+  const capped = Math.min(10 * 60_000, exp);
+  return capped + Math.floor(Math.random() * Math.min(1000, capped / 4 + 1));
+}
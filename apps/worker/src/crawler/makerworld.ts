@@ -1,6 +1,7 @@
 import { chromium, type Browser, type BrowserContext } from "playwright";
 import { env } from "../env";
 import { resolveChromiumExecutablePath } from "./executable";
+import { parseEmbeddedJson, parseModelPageData, type FieldSource, type PageModelData } from "./pageData";
 
 export interface DiscoveredModel {
   id: string;
@@ -12,10 +13,24 @@ export interface ScrapedModel {
   url: string;
   title: string | null;
   authorName: string | null;
+  authorHandle: string | null;
   downloadCount: number | null;
+  likeCount: number | null;
+  collectCount: number | null;
+  printCount: number | null;
+  boostCount: number | null;
+  commentCount: number | null;
+  printProfileCount: number | null;
+  plateCount: number | null;
+  publishedAt: string | null;
+  updatedAt: string | null;
+  category: string | null;
+  tags: string[];
+  license: string | null;
   imageUrls: string[];
   description: string | null;
   rawTextSample: string | null;
+  fieldSources: Partial<Record<keyof ScrapedModel, FieldSource>>;
 }
 
 function normalizeModelUrl(url: string) {
@@ -272,6 +287,7 @@ export async function scrapeModelPageInContext(context: BrowserContext, options:
   const page = await context.newPage();
   let downloadFromApi: number | null = null;
   let authorFromApi: string | null = null;
+  const apiPayloads: unknown[] = [];
 
   const maybeCaptureFromJson = (data: any) => {
     const stack: any[] = [data];
@@ -300,7 +316,6 @@ export async function scrapeModelPageInContext(context: BrowserContext, options:
   };
 
   const onResponse = async (resp: any) => {
-    if (downloadFromApi !== null && authorFromApi !== null) return;
     try {
       const url = resp.url?.() ?? "";
       if (!/api|graphql/i.test(url)) return;
@@ -308,7 +323,8 @@ export async function scrapeModelPageInContext(context: BrowserContext, options:
       const ct = (headers?.["content-type"] ?? "").toLowerCase();
       if (!ct.includes("application/json")) return;
       const json = await resp.json();
-      maybeCaptureFromJson(json);
+      if (apiPayloads.length < 30) apiPayloads.push(json);
+      if (downloadFromApi === null || authorFromApi === null) maybeCaptureFromJson(json);
     } catch {}
   };
 
@@ -322,40 +338,72 @@ export async function scrapeModelPageInContext(context: BrowserContext, options:
     throw new Error(`Unable to extract model id from url: ${canonical}`);
   }
 
-  const title =
-    (await firstTextOrNull(page.locator("h1"))) ?? (await getMetaContentOrNull(page, 'meta[property="og:title"]'));
+  const embeddedTexts = await page
+    .$$eval('script#__NEXT_DATA__, script[type="application/json"], script[type="application/ld+json"]', (nodes) =>
+      nodes.map((n) => n.textContent ?? ""),
+    )
+    .catch(() => [] as string[]);
+  const fieldSources: ScrapedModel["fieldSources"] = {};
+  let structured: PageModelData | null = parseModelPageData(parseEmbeddedJson(embeddedTexts), discovered.id);
+  let structuredSource: FieldSource = "embedded";
+  if (!structured) {
+    structured = parseModelPageData(apiPayloads, discovered.id);
+    structuredSource = "api";
+  }
 
-  let authorName =
-    (await firstTextOrNull(page.locator('a[href*="/@"]'))) ??
-    (await firstTextOrNull(page.locator('a[href*="/user/"]'))) ??
-    (await firstTextOrNull(page.locator('[data-testid*="author"]'))) ??
-    null;
+  const fromStructured = <K extends keyof PageModelData & keyof ScrapedModel>(key: K) => {
+    const v = structured?.[key];
+    if (v === null || v === undefined || (Array.isArray(v) && v.length === 0)) return null;
+    fieldSources[key] = structuredSource;
+    return v as PageModelData[K];
+  };
 
-  let downloadCount: number | null = null;
-  try {
-    const metricTexts = await page.$$eval('[aria-label],[title]', (nodes) => {
-      const out: string[] = [];
-      for (const n of nodes as any[]) {
-        const el = n as HTMLElement;
-        const aria = el.getAttribute("aria-label") ?? "";
-        const title = el.getAttribute("title") ?? "";
-        const key = `${aria} ${title}`.toLowerCase();
-        if (!key.includes("下载") && !key.includes("download")) continue;
-        const parent = el.parentElement;
-        const t = (parent?.innerText ?? el.innerText ?? "").trim();
-        if (t) out.push(t);
-      }
-      return out.slice(0, 80);
-    });
-    for (const t of metricTexts) {
-      const n = parseCompactNumber(t);
-      if (n && n > 0 && n < 100_000_000) {
-        downloadCount = n;
-        break;
+  let title = fromStructured("title");
+  if (!title) {
+    title =
+      (await firstTextOrNull(page.locator("h1"))) ?? (await getMetaContentOrNull(page, 'meta[property="og:title"]'));
+    if (title) fieldSources.title = "dom";
+  }
+
+  const authorHandle = fromStructured("authorHandle");
+  let authorName = fromStructured("authorName");
+  if (!authorName) {
+    authorName =
+      (await firstTextOrNull(page.locator('a[href*="/@"]'))) ??
+      (await firstTextOrNull(page.locator('a[href*="/user/"]'))) ??
+      (await firstTextOrNull(page.locator('[data-testid*="author"]'))) ??
+      null;
+    if (authorName) fieldSources.authorName = "dom";
+  }
+
+  let downloadCount = fromStructured("downloadCount");
+  if (downloadCount === null) {
+    try {
+      const metricTexts = await page.$$eval('[aria-label],[title]', (nodes) => {
+        const out: string[] = [];
+        for (const n of nodes as any[]) {
+          const el = n as HTMLElement;
+          const aria = el.getAttribute("aria-label") ?? "";
+          const title = el.getAttribute("title") ?? "";
+          const key = `${aria} ${title}`.toLowerCase();
+          if (!key.includes("下载") && !key.includes("download")) continue;
+          const parent = el.parentElement;
+          const t = (parent?.innerText ?? el.innerText ?? "").trim();
+          if (t) out.push(t);
+        }
+        return out.slice(0, 80);
+      });
+      for (const t of metricTexts) {
+        const n = parseCompactNumber(t);
+        if (n && n > 0 && n < 100_000_000) {
+          downloadCount = n;
+          fieldSources.downloadCount = "dom";
+          break;
+        }
       }
+    } catch {
+      downloadCount = null;
     }
-  } catch {
-    downloadCount = null;
   }
 
   const ogImage = await page.locator('meta[property="og:image"]').getAttribute("content").catch(() => null);
@@ -370,7 +418,11 @@ export async function scrapeModelPageInContext(context: BrowserContext, options:
   );
   const uniq = Array.from(new Set([ogImage, ...imgHrefs].filter(Boolean) as string[]));
   const preferred = uniq.filter((u) => /makerworld|design|model/i.test(u));
-  const imageUrls = (preferred.length > 0 ? preferred : uniq).slice(0, 30);
+  let imageUrls = fromStructured("imageUrls")?.slice(0, 30) ?? null;
+  if (!imageUrls) {
+    imageUrls = (preferred.length > 0 ? preferred : uniq).slice(0, 30);
+    if (imageUrls.length > 0) fieldSources.imageUrls = "dom";
+  }
 
   const mainText = (await firstTextOrNull(page.locator("main"))) ?? (await firstTextOrNull(page.locator("article"))) ?? null;
   const description = mainText ? mainText.slice(0, 6000) : null;
@@ -383,12 +435,24 @@ export async function scrapeModelPageInContext(context: BrowserContext, options:
   }
 
   if (bodyTextFull) {
-    if (!authorName) authorName = extractAuthorFromText(title, bodyTextFull);
-    if (!downloadCount) downloadCount = extractDownloadsFromText(bodyTextFull);
+    if (!authorName) {
+      authorName = extractAuthorFromText(title, bodyTextFull);
+      if (authorName) fieldSources.authorName = "text";
+    }
+    if (downloadCount === null) {
+      downloadCount = extractDownloadsFromText(bodyTextFull);
+      if (downloadCount !== null) fieldSources.downloadCount = "text";
+    }
   }
 
-  if (!authorName && authorFromApi) authorName = authorFromApi;
-  if (!downloadCount && downloadFromApi) downloadCount = downloadFromApi;
+  if (!authorName && authorFromApi) {
+    authorName = authorFromApi;
+    fieldSources.authorName = "api";
+  }
+  if (downloadCount === null && downloadFromApi !== null) {
+    downloadCount = downloadFromApi;
+    fieldSources.downloadCount = "api";
+  }
 
   page.off("response", onResponse);
   await page.close();
@@ -398,10 +462,24 @@ export async function scrapeModelPageInContext(context: BrowserContext, options:
     url: discovered.url,
     title,
     authorName,
+    authorHandle,
     downloadCount,
+    likeCount: fromStructured("likeCount"),
+    collectCount: fromStructured("collectCount"),
+    printCount: fromStructured("printCount"),
+    boostCount: fromStructured("boostCount"),
+    commentCount: fromStructured("commentCount"),
+    printProfileCount: fromStructured("printProfileCount"),
+    plateCount: fromStructured("plateCount"),
+    publishedAt: fromStructured("publishedAt"),
+    updatedAt: fromStructured("updatedAt"),
+    category: fromStructured("category"),
+    tags: fromStructured("tags") ?? [],
+    license: fromStructured("license"),
     imageUrls,
     description,
     rawTextSample,
+    fieldSources,
   };
 
   return result;
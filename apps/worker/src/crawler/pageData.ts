@@ -0,0 +1,197 @@
+export type FieldSource = "embedded" | "api" | "dom" | "text";
+
+export interface PageModelData {
+  id: string;
+  title: string | null;
+  authorHandle: string | null;
+  authorName: string | null;
+  downloadCount: number | null;
+  likeCount: number | null;
+  collectCount: number | null;
+  printCount: number | null;
+  boostCount: number | null;
+  commentCount: number | null;
+  printProfileCount: number | null;
+  plateCount: number | null;
+  publishedAt: string | null;
+  updatedAt: string | null;
+  category: string | null;
+  tags: string[];
+  license: string | null;
+  imageUrls: string[];
+}
+
+function pick(obj: any, keys: string[]) {
+  if (!obj || typeof obj !== "object") return undefined;
+  for (const k of keys) {
+    const v = obj[k];
+    if (v !== undefined && v !== null && v !== "") return v;
+  }
+  return undefined;
+}
+
+function toStringOrNull(v: unknown) {
+  if (typeof v === "string") {
+    const s = v.trim();
+    return s ? s : null;
+  }
+  if (typeof v === "number" && Number.isFinite(v)) return String(v);
+  return null;
+}
+
+function toCount(v: unknown) {
+  if (typeof v === "number" && Number.isFinite(v) && v >= 0) return Math.floor(v);
+  if (typeof v === "string" && /^\d+$/.test(v.trim())) return Number(v.trim());
+  return null;
+}
+
+function toIsoOrNull(v: unknown) {
+  if (typeof v === "number" && Number.isFinite(v) && v > 0) {
+    const ms = v < 1e12 ? v * 1000 : v;
+    return new Date(ms).toISOString();
+  }
+  if (typeof v === "string" && v.trim()) {
+    const s = v.trim();
+    if (/^\d+$/.test(s)) return toIsoOrNull(Number(s));
+    const d = new Date(s);
+    if (!Number.isNaN(d.getTime())) return d.toISOString();
+  }
+  return null;
+}
+
+function nameOf(v: unknown) {
+  if (typeof v === "string") return toStringOrNull(v);
+  return toStringOrNull(pick(v, ["name", "title", "displayName", "tagName"]));
+}
+
+function imageUrlOf(v: unknown) {
+  if (typeof v === "string") return v.startsWith("http") ? v : null;
+  const u = toStringOrNull(pick(v, ["url", "imageUrl", "originUrl", "src"]));
+  return u && u.startsWith("http") ? u : null;
+}
+
+function scoreCandidate(obj: any) {
+  const keys = [
+    "title",
+    "designCreator",
+    "creator",
+    "downloadCount",
+    "likeCount",
+    "collectionCount",
+    "printCount",
+    "tags",
+    "license",
+    "designExtension",
+    "coverUrl",
+  ];
+  return keys.reduce((n, k) => (obj[k] !== undefined ? n + 1 : n), 0);
+}
+
+function findDesignObject(roots: unknown[], modelId: string) {
+  let best: any = null;
+  let bestScore = 0;
+  let visited = 0;
+  const stack: unknown[] = [...roots];
+  while (stack.length && visited < 200_000) {
+    const cur = stack.pop();
+    visited += 1;
+    if (!cur || typeof cur !== "object") continue;
+    if (Array.isArray(cur)) {
+      for (const v of cur) stack.push(v);
+      continue;
+    }
+    const obj = cur as any;
+    const id = toStringOrNull(pick(obj, ["id", "designId", "modelId"]));
+    if (id === modelId && typeof obj.title === "string") {
+      const score = scoreCandidate(obj);
+      if (score > bestScore) {
+        best = obj;
+        bestScore = score;
+      }
+    }
+    for (const v of Object.values(obj)) {
+      if (v && typeof v === "object") stack.push(v);
+    }
+  }
+  return best;
+}
+
+export function parseEmbeddedJson(texts: string[]) {
+  const out: unknown[] = [];
+  for (const t of texts) {
+    const s = t.trim();
+    if (!s || s.length > 5_000_000) continue;
+    try {
+      out.push(JSON.parse(s));
+    } catch {}
+  }
+  return out;
+}
+
+export function parseModelPageData(roots: unknown[], modelId: string): PageModelData | null {
+  const design = findDesignObject(roots, modelId);
+  if (!design) return null;
+
+  const creator = pick(design, ["designCreator", "creator", "author", "user", "owner"]);
+  const authorHandle =
+    typeof creator === "object" ? toStringOrNull(pick(creator, ["handle", "userName", "username"])) : null;
+  const authorName =
+    typeof creator === "object"
+      ? toStringOrNull(pick(creator, ["name", "nickname", "nickName", "displayName"]))
+      : toStringOrNull(creator);
+
+  const categoryRaw = pick(design, ["category", "categoryName", "categories"]);
+  const category = Array.isArray(categoryRaw)
+    ? nameOf(categoryRaw[categoryRaw.length - 1])
+    : nameOf(categoryRaw);
+
+  const tagsRaw = pick(design, ["tags", "tagList", "tagsOriginal"]);
+  const tags = Array.isArray(tagsRaw)
+    ? Array.from(new Set(tagsRaw.map(nameOf).filter((t): t is string => Boolean(t))))
+    : [];
+
+  const licenseRaw = pick(design, ["license", "licenseType", "licence"]);
+  const license = nameOf(licenseRaw) ?? toStringOrNull(pick(licenseRaw, ["type", "code"]));
+
+  const picturesRaw =
+    pick(design.designExtension, ["design_pictures", "designPictures"]) ??
+    pick(design, ["designPictures", "pictures", "images", "imageList"]);
+  const pictures = Array.isArray(picturesRaw)
+    ? picturesRaw.map(imageUrlOf).filter((u): u is string => Boolean(u))
+    : [];
+  const instances = pick(design, ["instances", "printProfiles", "profiles"]);
+  const printProfileCount =
+    toCount(pick(design, ["instanceCount", "profileCount", "printProfileCount"])) ??
+    (Array.isArray(instances) ? instances.length : null);
+  const plateCounts = Array.isArray(instances)
+    ? instances
+        .map((it: any) => (Array.isArray(it?.plates) ? it.plates.length : toCount(pick(it, ["plateCount", "plateNum"]))))
+        .filter((n: number | null): n is number => n !== null)
+    : [];
+  const plateCount =
+    toCount(pick(design, ["plateCount", "plateNum"])) ?? (plateCounts.length > 0 ? Math.max(...plateCounts) : null);
+
+  const cover = imageUrlOf(pick(design, ["coverUrl", "cover", "coverImage"]));
+  const imageUrls = Array.from(new Set([...(cover && !pictures.includes(cover) ? [cover] : []), ...pictures]));
+
+  return {
+    id: modelId,
+    title: toStringOrNull(design.title),
+    authorHandle,
+    authorName,
+    downloadCount: toCount(pick(design, ["downloadCount", "downloads", "download_count"])),
+    likeCount: toCount(pick(design, ["likeCount", "likes", "like_count"])),
+    collectCount: toCount(pick(design, ["collectionCount", "collectCount", "favoriteCount", "favorites"])),
+    printCount: toCount(pick(design, ["printCount", "makeCount", "prints"])),
+    boostCount: toCount(pick(design, ["boostCount", "boosts", "boostCnt"])),
+    commentCount: toCount(pick(design, ["commentCount", "comments", "commentCnt"])),
+    printProfileCount,
+    plateCount,
+    publishedAt: toIsoOrNull(pick(design, ["publishTime", "publishedAt", "createTime", "createdAt"])),
+    updatedAt: toIsoOrNull(pick(design, ["updateTime", "updatedAt", "modifyTime"])),
+    category,
+    tags,
+    license,
+    imageUrls,
+  };
+}
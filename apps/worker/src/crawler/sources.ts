@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+const BASE = "https://makerworld.com/zh";
+
+export const DiscoverySourceSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("url"), url: z.string().url() }),
+  z.object({ type: z.literal("search"), query: z.string().trim().min(1) }),
+  z.object({ type: z.literal("category"), slug: z.string().trim().min(1) }),
+  z.object({ type: z.literal("tag"), tag: z.string().trim().min(1) }),
+  z.object({ type: z.literal("designer"), handle: z.string().trim().min(1) }),
+  z.object({ type: z.literal("collection"), id: z.string().trim().min(1) }),
+]);
+
+export type DiscoverySource = z.infer<typeof DiscoverySourceSchema>;
+
+export interface SourcePlan {
+  pagination: "scroll" | "page";
+  startUrl: string;
+  pageUrl: (page: number) => string;
+}
+
+function withPage(url: string, page: number) {
+  const u = new URL(url);
+  if (page > 1) u.searchParams.set("page", String(page));
+  return u.toString();
+}
+
+function scrollPlan(startUrl: string): SourcePlan {
+  return { pagination: "scroll", startUrl, pageUrl: () => startUrl };
+}
+
+function pagedPlan(startUrl: string): SourcePlan {
+  return { pagination: "page", startUrl, pageUrl: (page) => withPage(startUrl, page) };
+}
+
+export function buildSourcePlan(source: DiscoverySource): SourcePlan {
+  switch (source.type) {
+    case "url":
+      return scrollPlan(source.url);
+    case "search":
+      return pagedPlan(`${BASE}/search/models?keyword=${encodeURIComponent(source.query)}`);
+    case "tag":
+      return pagedPlan(`${BASE}/search/models?tags=${encodeURIComponent(source.tag.replace(/^#/, ""))}`);
+    case "category":
+      return scrollPlan(`${BASE}/3d-models/${encodeURIComponent(source.slug.replace(/^\/+|\/+$/g, ""))}`);
+    case "designer":
+      return scrollPlan(`${BASE}/@${encodeURIComponent(source.handle.replace(/^@/, ""))}/upload`);
+    case "collection":
+      return scrollPlan(`${BASE}/collections/${encodeURIComponent(source.id)}`);
+  }
+}
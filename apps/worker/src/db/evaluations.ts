@@ -0,0 +1,122 @@
+import type { Kysely } from "kysely";
+import type { Database } from "./types";
+import type { Extracted } from "../label/types";
+import { evaluationReport } from "../label/evaluation";
+import { finalLabel } from "./reviews";
+import { nowIso, randomId } from "../lib/ids";
+
+function goldQuery(db: Kysely<Database>, projectId: string) {
+  return db
+    .selectFrom("gold_models")
+    .innerJoin("models", "models.id", "gold_models.model_id")
+    .leftJoin("model_labels", "model_labels.model_id", "gold_models.model_id")
+    .leftJoin("model_reviews", (join) =>
+      join.onRef("model_reviews.model_id", "=", "gold_models.model_id").on("model_reviews.is_current", "=", 1),
+    )
+    .where("gold_models.project_id", "=", projectId)
+    .select([
+      "gold_models.model_id as id",
+      "gold_models.added_at as added_at",
+      "models.title as title",
+      "models.url as url",
+      "model_labels.grade as ai_grade",
+      "model_labels.extracted_json as extracted_json",
+      "model_reviews.grade as review_grade",
+      "model_reviews.features_json as review_features_json",
+      "model_reviews.reviewer as reviewer",
+    ]);
+}
+
+// The human-final label is the ground truth; gold models that lost their review are reported but not evaluated.
+export async function listGoldModels(db: Kysely<Database>, projectId: string) {
+  const rows = await goldQuery(db, projectId).orderBy("gold_models.added_at", "desc").execute();
+  return rows.map((r) => {
+    const final = finalLabel(
+      r.ai_grade && r.extracted_json ? { grade: r.ai_grade, extracted: JSON.parse(r.extracted_json) as Extracted } : null,
+      r.review_grade ? { grade: r.review_grade, features_json: r.review_features_json } : null,
+    );
+    return {
+      id: r.id,
+      title: r.title,
+      url: r.url,
+      addedAt: r.added_at,
+      reviewer: r.reviewer,
+      verified: r.review_grade !== null,
+      expectedGrade: r.review_grade ? final.grade : null,
+      expected: r.review_grade ? final.extracted : null,
+    };
+  });
+}
+
+// Only models of the project with a current human review can join the gold set.
+export async function addGoldModels(db: Kysely<Database>, projectId: string, modelIds: string[] | "reviewed") {
+  let q = db
+    .selectFrom("project_models")
+    .innerJoin("model_reviews", (join) =>
+      join.onRef("model_reviews.model_id", "=", "project_models.model_id").on("model_reviews.is_current", "=", 1),
+    )
+    .leftJoin("gold_models", (join) =>
+      join
+        .onRef("gold_models.model_id", "=", "project_models.model_id")
+        .onRef("gold_models.project_id", "=", "project_models.project_id"),
+    )
+    .where("project_models.project_id", "=", projectId)
+    .where("gold_models.model_id", "is", null)
+    .select(["project_models.model_id as id"]);
+  if (modelIds !== "reviewed") {
+    if (modelIds.length === 0) return { added: 0 };
+    q = q.where("project_models.model_id", "in", modelIds);
+  }
+  const ids = (await q.execute()).map((r) => r.id);
+  const now = nowIso();
+  for (const id of ids) {
+    await db.insertInto("gold_models").values({ project_id: projectId, model_id: id, added_at: now }).execute();
+  }
+  return { added: ids.length };
+}
+
+// Freezes the expected labels when a run starts, so later reviews do not shift an existing run's score.
+export async function snapshotGoldSet(db: Kysely<Database>, evalRunId: string, projectId: string) {
+  const gold = (await listGoldModels(db, projectId)).filter((g) => g.verified && g.expectedGrade);
+  for (const g of gold) {
+    await db
+      .insertInto("eval_results")
+      .values({
+        id: randomId("evalres"),
+        eval_run_id: evalRunId,
+        model_id: g.id,
+        expected_grade: g.expectedGrade!,
+        expected_json: JSON.stringify(g.expected ?? {}),
+        predicted_grade: null,
+        predicted_json: null,
+        latency_ms: null,
+        input_tokens: null,
+        output_tokens: null,
+        image_tokens: null,
+        image_count: null,
+        cost: null,
+        error: null,
+        finished_at: null,
+      })
+      .execute();
+  }
+  return gold.length;
+}
+
+export async function evalRunReport(db: Kysely<Database>, evalRunId: string) {
+  const results = await db.selectFrom("eval_results").selectAll().where("eval_run_id", "=", evalRunId).execute();
+  return evaluationReport(
+    results.map((r) => ({
+      expectedGrade: r.expected_grade,
+      expected: JSON.parse(r.expected_json),
+      predictedGrade: r.predicted_grade,
+      predicted: r.predicted_json ? JSON.parse(r.predicted_json) : null,
+      latencyMs: r.latency_ms,
+      inputTokens: r.input_tokens,
+      outputTokens: r.output_tokens,
+      imageTokens: r.image_tokens,
+      cost: r.cost,
+      error: r.error,
+    })),
+  );
+}
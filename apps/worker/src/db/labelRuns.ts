@@ -0,0 +1,117 @@
+import type { Kysely } from "kysely";
+import type { Database, Grade } from "./types";
+import type { LabelResult } from "../label/types";
+import { consensusLabel, type ConsensusMethod } from "../label/consensus";
+
+const GRADE_ORDER: Grade[] = ["S", "A", "B", "C", "D"];
+
+type RunRow = { model_id: string; job_id: string | null; grade: Grade; extracted_json: string; created_at: string };
+type JobGrade = { jobId: string | null; grade: Grade; agreement: number; samples: number; labeledAt: string };
+
+async function consensusMethods(db: Kysely<Database>, jobIds: string[]) {
+  const methods = new Map<string, ConsensusMethod | undefined>();
+  if (jobIds.length === 0) return methods;
+  const jobs = await db.selectFrom("label_jobs").select(["id", "config_json"]).where("id", "in", jobIds).execute();
+  for (const job of jobs) methods.set(job.id, (JSON.parse(job.config_json) as { consensus?: ConsensusMethod }).consensus);
+  return methods;
+}
+
+// Re-derives the grade one job gave a model from its stored samples, the same way the job did.
+function jobGrade(runs: RunRow[], method: ConsensusMethod | undefined): JobGrade {
+  const samples = runs.map((r) => ({ grade: r.grade, extracted: JSON.parse(r.extracted_json) }) as LabelResult);
+  const { result, agreement } = consensusLabel(samples, method);
+  return {
+    jobId: runs[0].job_id,
+    grade: result.grade,
+    agreement,
+    samples: runs.length,
+    labeledAt: runs[runs.length - 1].created_at,
+  };
+}
+
+function groupByJob(runs: RunRow[]) {
+  const groups = new Map<string, RunRow[]>();
+  for (const run of runs) {
+    const key = `${run.model_id}\u0000${run.job_id ?? ""}`;
+    groups.set(key, [...(groups.get(key) ?? []), run]);
+  }
+  return [...groups.values()];
+}
+
+// How the grades a label job produced differ from another job's, or by default from each model's previous labeling.
+export async function labelJobDiff(db: Kysely<Database>, jobId: string, against?: string) {
+  const selectRuns = () =>
+    db
+      .selectFrom("label_runs")
+      .select(["model_id", "job_id", "grade", "extracted_json", "created_at"])
+      .orderBy("created_at", "asc");
+
+  const targetRuns = await selectRuns().where("job_id", "=", jobId).execute();
+  const baselineRuns = against
+    ? await selectRuns().where("job_id", "=", against).execute()
+    : await selectRuns()
+        .where("model_id", "in", (eb) => eb.selectFrom("label_runs").select("model_id").where("job_id", "=", jobId))
+        .where((eb) => eb.or([eb("job_id", "is", null), eb("job_id", "!=", jobId)]))
+        .execute();
+
+  const jobIds = [...new Set([...targetRuns, ...baselineRuns].map((r) => r.job_id).filter((id): id is string => !!id))];
+  const methods = await consensusMethods(db, jobIds);
+  const gradeOf = (runs: RunRow[]) => jobGrade(runs, runs[0].job_id ? methods.get(runs[0].job_id) : undefined);
+
+  const after = new Map(groupByJob(targetRuns).map((runs) => [runs[0].model_id, gradeOf(runs)]));
+  const firstRunAt = new Map<string, string>();
+  for (const run of targetRuns) if (!firstRunAt.has(run.model_id)) firstRunAt.set(run.model_id, run.created_at);
+
+  const before = new Map<string, JobGrade>();
+  for (const runs of groupByJob(baselineRuns)) {
+    const modelId = runs[0].model_id;
+    if (!after.has(modelId)) continue;
+    const grade = gradeOf(runs);
+    if (!against && grade.labeledAt >= firstRunAt.get(modelId)!) continue;
+    const cur = before.get(modelId);
+    if (!cur || grade.labeledAt > cur.labeledAt) before.set(modelId, grade);
+  }
+
+  const modelIds = [...after.keys()];
+  const models = modelIds.length
+    ? await db.selectFrom("models").select(["id", "title", "url"]).where("id", "in", modelIds).execute()
+    : [];
+  const modelById = new Map(models.map((m) => [m.id, m]));
+
+  const transitions: Record<string, Record<string, number>> = {};
+  let changed = 0;
+  let upgraded = 0;
+  let downgraded = 0;
+  const rows = modelIds.map((id) => {
+    const a = after.get(id)!;
+    const b = before.get(id) ?? null;
+    // Positive means a better grade than before (D -> C is +1).
+    const delta = b ? GRADE_ORDER.indexOf(b.grade) - GRADE_ORDER.indexOf(a.grade) : null;
+    if (b) {
+      transitions[b.grade] = { ...transitions[b.grade], [a.grade]: (transitions[b.grade]?.[a.grade] ?? 0) + 1 };
+      if (delta !== 0) changed++;
+      if (delta! > 0) upgraded++;
+      if (delta! < 0) downgraded++;
+    }
+    return {
+      modelId: id,
+      title: modelById.get(id)?.title ?? null,
+      url: modelById.get(id)?.url ?? null,
+      before: b,
+      after: a,
+      delta,
+    };
+  });
+  rows.sort((x, y) => Math.abs(y.delta ?? 0) - Math.abs(x.delta ?? 0) || (x.modelId < y.modelId ? -1 : 1));
+
+  return {
+    jobId,
+    against: against ?? null,
+    compared: rows.filter((r) => r.before).length,
+    changed,
+    upgraded,
+    downgraded,
+    transitions,
+    rows,
+  };
+}
@@ -0,0 +1,41 @@
+import type { Kysely } from "kysely";
+
+export async function up(db: Kysely<any>) {
+  await db.schema
+    .createTable("crawl_frontier")
+    .addColumn("id", "text", (col) => col.primaryKey())
+    .addColumn("job_id", "text", (col) => col.notNull())
+    .addColumn("model_id", "text", (col) => col.notNull())
+    .addColumn("url", "text", (col) => col.notNull())
+    .addColumn("state", "text", (col) => col.notNull())
+    .addColumn("attempt_count", "integer", (col) => col.notNull().defaultTo(0))
+    .addColumn("last_error", "text")
+    .addColumn("created_at", "text", (col) => col.notNull())
+    .addColumn("updated_at", "text", (col) => col.notNull())
+    .addForeignKeyConstraint("crawl_frontier_job_id_fk", ["job_id"], "crawl_jobs", ["id"], (cb) =>
+      cb.onDelete("cascade"),
+    )
+    .execute();
+
+  await db.schema
+    .createIndex("crawl_frontier_job_state_idx")
+    .on("crawl_frontier")
+    .columns(["job_id", "state"])
+    .execute();
+
+  await db.schema
+    .alterTable("crawl_jobs")
+    .addColumn("discovery_done", "integer", (col) => col.notNull().defaultTo(0))
+    .execute();
+  await db.schema
+    .alterTable("crawl_jobs")
+    .addColumn("scroll_count", "integer", (col) => col.notNull().defaultTo(0))
+    .execute();
+}
+
+export async function down(db: Kysely<any>) {
+  await db.schema.alterTable("crawl_jobs").dropColumn("scroll_count").execute();
+  await db.schema.alterTable("crawl_jobs").dropColumn("discovery_done").execute();
+  await db.schema.dropIndex("crawl_frontier_job_state_idx").execute();
+  await db.schema.dropTable("crawl_frontier").execute();
+}
@@ -0,0 +1,30 @@
+import type { Kysely } from "kysely";
+
+export async function up(db: Kysely<any>) {
+  await db.schema
+    .createTable("crawl_failures")
+    .addColumn("id", "text", (col) => col.primaryKey())
+    .addColumn("job_id", "text", (col) => col.notNull())
+    .addColumn("model_id", "text", (col) => col.notNull())
+    .addColumn("url", "text", (col) => col.notNull())
+    .addColumn("attempt", "integer", (col) => col.notNull())
+    .addColumn("error_class", "text", (col) => col.notNull())
+    .addColumn("message", "text", (col) => col.notNull())
+    .addColumn("created_at", "text", (col) => col.notNull())
+    .addForeignKeyConstraint("crawl_failures_job_id_fk", ["job_id"], "crawl_jobs", ["id"], (cb) =>
+      cb.onDelete("cascade"),
+    )
+    .execute();
+
+  await db.schema.createIndex("crawl_failures_job_id_idx").on("crawl_failures").column("job_id").execute();
+
+  await db.schema.alterTable("crawl_frontier").addColumn("error_class", "text").execute();
+  await db.schema.alterTable("crawl_frontier").addColumn("next_attempt_at", "text").execute();
+}
+
+export async function down(db: Kysely<any>) {
+  await db.schema.alterTable("crawl_frontier").dropColumn("next_attempt_at").execute();
+  await db.schema.alterTable("crawl_frontier").dropColumn("error_class").execute();
+  await db.schema.dropIndex("crawl_failures_job_id_idx").execute();
+  await db.schema.dropTable("crawl_failures").execute();
+}
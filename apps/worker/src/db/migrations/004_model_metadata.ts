@@ -0,0 +1,44 @@
+import type { Kysely } from "kysely";
+
+const integerColumns = [
+  "like_count",
+  "collect_count",
+  "boost_count",
+  "print_count",
+  "comment_count",
+  "print_profile_count",
+  "plate_count",
+];
+
+const textColumns = ["author_handle", "published_at", "source_updated_at", "category", "license", "field_sources_json"];
+
+export async function up(db: Kysely<any>) {
+  for (const name of integerColumns) {
+    await db.schema.alterTable("models").addColumn(name, "integer").execute();
+  }
+  for (const name of textColumns) {
+    await db.schema.alterTable("models").addColumn(name, "text").execute();
+  }
+
+  await db.schema
+    .createTable("model_tags")
+    .addColumn("model_id", "text", (col) => col.notNull())
+    .addColumn("tag", "text", (col) => col.notNull())
+    .addColumn("idx", "integer", (col) => col.notNull())
+    .addPrimaryKeyConstraint("model_tags_pk", ["model_id", "tag"])
+    .addForeignKeyConstraint("model_tags_model_id_fk", ["model_id"], "models", ["id"], (cb) => cb.onDelete("cascade"))
+    .execute();
+
+  await db.schema.createIndex("model_tags_tag_idx").on("model_tags").column("tag").execute();
+}
+
+export async function down(db: Kysely<any>) {
+  await db.schema.dropIndex("model_tags_tag_idx").execute();
+  await db.schema.dropTable("model_tags").execute();
+  for (const name of [...textColumns].reverse()) {
+    await db.schema.alterTable("models").dropColumn(name).execute();
+  }
+  for (const name of [...integerColumns].reverse()) {
+    await db.schema.alterTable("models").dropColumn(name).execute();
+  }
+}
@@ -0,0 +1,30 @@
+import type { Kysely } from "kysely";
+
+export async function up(db: Kysely<any>) {
+  await db.schema
+    .createTable("model_metrics_snapshots")
+    .addColumn("id", "text", (col) => col.primaryKey())
+    .addColumn("model_id", "text", (col) => col.notNull())
+    .addColumn("captured_at", "text", (col) => col.notNull())
+    .addColumn("download_count", "integer")
+    .addColumn("like_count", "integer")
+    .addColumn("collect_count", "integer")
+    .addColumn("boost_count", "integer")
+    .addColumn("print_count", "integer")
+    .addColumn("comment_count", "integer")
+    .addForeignKeyConstraint("model_metrics_snapshots_model_id_fk", ["model_id"], "models", ["id"], (cb) =>
+      cb.onDelete("cascade"),
+    )
+    .execute();
+
+  await db.schema
+    .createIndex("model_metrics_snapshots_model_captured_idx")
+    .on("model_metrics_snapshots")
+    .columns(["model_id", "captured_at"])
+    .execute();
+}
+
+export async function down(db: Kysely<any>) {
+  await db.schema.dropIndex("model_metrics_snapshots_model_captured_idx").execute();
+  await db.schema.dropTable("model_metrics_snapshots").execute();
+}
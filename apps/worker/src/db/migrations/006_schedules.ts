@@ -0,0 +1,27 @@
+import type { Kysely } from "kysely";
+
+export async function up(db: Kysely<any>) {
+  await db.schema
+    .createTable("schedules")
+    .addColumn("id", "text", (col) => col.primaryKey())
+    .addColumn("name", "text", (col) => col.notNull())
+    .addColumn("cron", "text", (col) => col.notNull())
+    .addColumn("job_type", "text", (col) => col.notNull())
+    .addColumn("config_json", "text", (col) => col.notNull())
+    .addColumn("then_label", "integer", (col) => col.notNull().defaultTo(0))
+    .addColumn("label_config_json", "text")
+    .addColumn("missed_policy", "text", (col) => col.notNull().defaultTo("run_once"))
+    .addColumn("enabled", "integer", (col) => col.notNull().defaultTo(1))
+    .addColumn("next_run_at", "text")
+    .addColumn("last_run_at", "text")
+    .addColumn("last_job_id", "text")
+    .addColumn("chained_job_id", "text")
+    .addColumn("last_error", "text")
+    .addColumn("created_at", "text", (col) => col.notNull())
+    .addColumn("updated_at", "text", (col) => col.notNull())
+    .execute();
+}
+
+export async function down(db: Kysely<any>) {
+  await db.schema.dropTable("schedules").execute();
+}
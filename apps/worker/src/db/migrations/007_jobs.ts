@@ -0,0 +1,35 @@
+import { sql, type Kysely } from "kysely";
+
+export async function up(db: Kysely<any>) {
+  await db.schema
+    .createTable("jobs")
+    .addColumn("id", "text", (col) => col.primaryKey())
+    .addColumn("type", "text", (col) => col.notNull())
+    .addColumn("payload_json", "text", (col) => col.notNull())
+    .addColumn("state", "text", (col) => col.notNull())
+    .addColumn("lease_owner", "text")
+    .addColumn("lease_expires_at", "text")
+    .addColumn("attempts", "integer", (col) => col.notNull().defaultTo(0))
+    .addColumn("created_at", "text", (col) => col.notNull())
+    .addColumn("updated_at", "text", (col) => col.notNull())
+    .addColumn("finished_at", "text")
+    .execute();
+
+  await db.schema.createIndex("jobs_type_state_idx").on("jobs").columns(["type", "state", "created_at"]).execute();
+
+  await sql`
+    INSERT INTO jobs (id, type, payload_json, state, attempts, created_at, updated_at)
+    SELECT id, 'crawl', '{"crawlJobId":"' || id || '"}', 'queued', 0, created_at, created_at
+    FROM crawl_jobs WHERE finished_at IS NULL
+  `.execute(db);
+  await sql`
+    INSERT INTO jobs (id, type, payload_json, state, attempts, created_at, updated_at)
+    SELECT id, 'label', '{"labelJobId":"' || id || '"}', 'queued', 0, created_at, created_at
+    FROM label_jobs WHERE finished_at IS NULL
+  `.execute(db);
+}
+
+export async function down(db: Kysely<any>) {
+  await db.schema.dropIndex("jobs_type_state_idx").execute();
+  await db.schema.dropTable("jobs").execute();
+}
@@ -0,0 +1,52 @@
+import { sql, type Kysely } from "kysely";
+
+export async function up(db: Kysely<any>) {
+  await db.schema
+    .createTable("projects")
+    .addColumn("id", "text", (col) => col.primaryKey())
+    .addColumn("name", "text", (col) => col.notNull())
+    .addColumn("description", "text")
+    .addColumn("archived", "integer", (col) => col.notNull().defaultTo(0))
+    .addColumn("created_at", "text", (col) => col.notNull())
+    .addColumn("updated_at", "text", (col) => col.notNull())
+    .execute();
+
+  await db.schema
+    .createTable("project_models")
+    .addColumn("project_id", "text", (col) => col.notNull())
+    .addColumn("model_id", "text", (col) => col.notNull())
+    .addColumn("added_at", "text", (col) => col.notNull())
+    .addPrimaryKeyConstraint("project_models_pk", ["project_id", "model_id"])
+    .addForeignKeyConstraint("project_models_project_id_fk", ["project_id"], "projects", ["id"], (cb) =>
+      cb.onDelete("cascade"),
+    )
+    .addForeignKeyConstraint("project_models_model_id_fk", ["model_id"], "models", ["id"], (cb) =>
+      cb.onDelete("cascade"),
+    )
+    .execute();
+
+  await db.schema.createIndex("project_models_model_id_idx").on("project_models").column("model_id").execute();
+
+  await db.schema.alterTable("crawl_jobs").addColumn("project_id", "text").execute();
+  await db.schema.alterTable("label_jobs").addColumn("project_id", "text").execute();
+
+  const now = new Date().toISOString();
+  await db
+    .insertInto("projects")
+    .values({ id: "default", name: "默认项目", description: null, archived: 0, created_at: now, updated_at: now })
+    .execute();
+  await sql`
+    INSERT INTO project_models (project_id, model_id, added_at)
+    SELECT 'default', id, created_at FROM models
+  `.execute(db);
+  await db.updateTable("crawl_jobs").set({ project_id: "default" }).execute();
+  await db.updateTable("label_jobs").set({ project_id: "default" }).execute();
+}
+
+export async function down(db: Kysely<any>) {
+  await db.schema.alterTable("label_jobs").dropColumn("project_id").execute();
+  await db.schema.alterTable("crawl_jobs").dropColumn("project_id").execute();
+  await db.schema.dropIndex("project_models_model_id_idx").execute();
+  await db.schema.dropTable("project_models").execute();
+  await db.schema.dropTable("projects").execute();
+}
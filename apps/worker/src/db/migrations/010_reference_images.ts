@@ -0,0 +1,57 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { Kysely } from "kysely";
+
+// The four images the labeler used to hardcode go first so existing rubrics keep sending the same references.
+const LEGACY_ORDER = ["slevel1.PNG", "alevel2.png", "blevel2.png", "clevel2.png"];
+
+export async function up(db: Kysely<any>) {
+  await db.schema
+    .createTable("reference_images")
+    .addColumn("id", "text", (col) => col.primaryKey())
+    .addColumn("grade", "text", (col) => col.notNull())
+    .addColumn("filename", "text", (col) => col.notNull())
+    .addColumn("mime", "text", (col) => col.notNull())
+    .addColumn("data_base64", "text", (col) => col.notNull())
+    .addColumn("note", "text")
+    .addColumn("active", "integer", (col) => col.notNull().defaultTo(1))
+    .addColumn("sort_order", "integer", (col) => col.notNull().defaultTo(0))
+    .addColumn("created_at", "text", (col) => col.notNull())
+    .addColumn("deleted_at", "text")
+    .execute();
+
+  await db.schema.createIndex("reference_images_grade_idx").on("reference_images").columns(["grade", "sort_order"]).execute();
+
+  await db.schema.alterTable("rubrics").addColumn("reference_counts_json", "text").execute();
+
+  const dir = path.resolve(__dirname, "..", "..", "..", "..", "..", "level");
+  const files = await fs.readdir(dir).catch(() => [] as string[]);
+  const now = new Date().toISOString();
+  for (const filename of files) {
+    const match = /^([sabcd])level\d+\.(png|jpe?g)$/i.exec(filename);
+    if (!match) continue;
+    const buf = await fs.readFile(path.join(dir, filename));
+    const legacy = LEGACY_ORDER.indexOf(filename);
+    await db
+      .insertInto("reference_images")
+      .values({
+        id: `ref_${filename.toLowerCase().replace(/\.[a-z]+$/, "")}`,
+        grade: match[1].toUpperCase(),
+        filename,
+        mime: match[2].toLowerCase() === "png" ? "image/png" : "image/jpeg",
+        data_base64: buf.toString("base64"),
+        note: null,
+        active: 1,
+        sort_order: legacy >= 0 ? 0 : 1,
+        created_at: now,
+        deleted_at: null,
+      })
+      .execute();
+  }
+}
+
+export async function down(db: Kysely<any>) {
+  await db.schema.alterTable("rubrics").dropColumn("reference_counts_json").execute();
+  await db.schema.dropIndex("reference_images_grade_idx").execute();
+  await db.schema.dropTable("reference_images").execute();
+}
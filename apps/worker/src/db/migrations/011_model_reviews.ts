@@ -0,0 +1,32 @@
+import type { Kysely } from "kysely";
+
+export async function up(db: Kysely<any>) {
+  await db.schema
+    .createTable("model_reviews")
+    .addColumn("id", "text", (col) => col.primaryKey())
+    .addColumn("model_id", "text", (col) => col.notNull())
+    .addColumn("reviewer", "text", (col) => col.notNull())
+    .addColumn("action", "text", (col) => col.notNull())
+    .addColumn("grade", "text", (col) => col.notNull())
+    .addColumn("features_json", "text")
+    .addColumn("comment", "text")
+    .addColumn("ai_grade", "text")
+    .addColumn("rubric_version", "integer")
+    .addColumn("is_current", "integer", (col) => col.notNull().defaultTo(1))
+    .addColumn("created_at", "text", (col) => col.notNull())
+    .addForeignKeyConstraint("model_reviews_model_id_fk", ["model_id"], "models", ["id"], (cb) =>
+      cb.onDelete("cascade"),
+    )
+    .execute();
+
+  await db.schema
+    .createIndex("model_reviews_model_id_idx")
+    .on("model_reviews")
+    .columns(["model_id", "is_current"])
+    .execute();
+}
+
+export async function down(db: Kysely<any>) {
+  await db.schema.dropIndex("model_reviews_model_id_idx").execute();
+  await db.schema.dropTable("model_reviews").execute();
+}
@@ -0,0 +1,45 @@
+import { randomUUID } from "node:crypto";
+import type { Kysely } from "kysely";
+
+export async function up(db: Kysely<any>) {
+  await db.schema
+    .createTable("label_runs")
+    .addColumn("id", "text", (col) => col.primaryKey())
+    .addColumn("model_id", "text", (col) => col.notNull())
+    .addColumn("job_id", "text")
+    .addColumn("provider", "text")
+    .addColumn("grade", "text", (col) => col.notNull())
+    .addColumn("extracted_json", "text", (col) => col.notNull())
+    .addColumn("rubric_version", "integer")
+    .addColumn("created_at", "text", (col) => col.notNull())
+    .addForeignKeyConstraint("label_runs_model_id_fk", ["model_id"], "models", ["id"], (cb) => cb.onDelete("cascade"))
+    .execute();
+
+  await db.schema.createIndex("label_runs_model_id_idx").on("label_runs").column("model_id").execute();
+
+  // Existing labels become the first recorded run of each model.
+  const labels = await db
+    .selectFrom("model_labels")
+    .select(["model_id", "grade", "extracted_json", "rubric_version", "updated_at"])
+    .execute();
+  for (const label of labels) {
+    await db
+      .insertInto("label_runs")
+      .values({
+        id: `run_${randomUUID()}`,
+        model_id: label.model_id,
+        job_id: null,
+        provider: null,
+        grade: label.grade,
+        extracted_json: label.extracted_json,
+        rubric_version: label.rubric_version,
+        created_at: label.updated_at,
+      })
+      .execute();
+  }
+}
+
+export async function down(db: Kysely<any>) {
+  await db.schema.dropIndex("label_runs_model_id_idx").execute();
+  await db.schema.dropTable("label_runs").execute();
+}
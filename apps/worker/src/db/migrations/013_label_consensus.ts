@@ -0,0 +1,35 @@
+import type { Kysely } from "kysely";
+
+export async function up(db: Kysely<any>) {
+  await db.schema
+    .alterTable("model_labels")
+    .addColumn("sample_count", "integer", (col) => col.notNull().defaultTo(1))
+    .execute();
+  await db.schema.alterTable("model_labels").addColumn("agreement", "real").execute();
+  await db.updateTable("model_labels").set({ agreement: 1 }).execute();
+
+  await db.schema.alterTable("label_runs").addColumn("model", "text").execute();
+  await db.schema.alterTable("label_runs").addColumn("reason", "text").execute();
+  await db.schema
+    .alterTable("label_runs")
+    .addColumn("sample_index", "integer", (col) => col.notNull().defaultTo(0))
+    .execute();
+  await db
+    .updateTable("label_runs")
+    .set((eb) => ({
+      reason: eb
+        .selectFrom("model_labels")
+        .select("model_labels.reason")
+        .whereRef("model_labels.model_id", "=", "label_runs.model_id"),
+    }))
+    .where("job_id", "is", null)
+    .execute();
+}
+
+export async function down(db: Kysely<any>) {
+  await db.schema.alterTable("label_runs").dropColumn("sample_index").execute();
+  await db.schema.alterTable("label_runs").dropColumn("reason").execute();
+  await db.schema.alterTable("label_runs").dropColumn("model").execute();
+  await db.schema.alterTable("model_labels").dropColumn("agreement").execute();
+  await db.schema.alterTable("model_labels").dropColumn("sample_count").execute();
+}
@@ -0,0 +1,43 @@
+import type { Kysely } from "kysely";
+
+export async function up(db: Kysely<any>) {
+  await db.schema.alterTable("label_runs").addColumn("prompt_hash", "text").execute();
+  await db.schema.alterTable("label_runs").addColumn("raw_output", "text").execute();
+  await db.schema.alterTable("label_runs").addColumn("latency_ms", "integer").execute();
+  await db.schema
+    .alterTable("label_runs")
+    .addColumn("is_current", "integer", (col) => col.notNull().defaultTo(0))
+    .execute();
+
+  // The runs of the most recent job per model are the ones behind its current label.
+  const runs = await db
+    .selectFrom("label_runs")
+    .select(["id", "model_id", "job_id", "created_at"])
+    .orderBy("created_at", "asc")
+    .execute();
+  const latest = new Map<string, { jobId: string | null; ids: string[] }>();
+  for (const run of runs) {
+    const cur = latest.get(run.model_id);
+    if (cur && cur.jobId === run.job_id) cur.ids.push(run.id);
+    else latest.set(run.model_id, { jobId: run.job_id, ids: [run.id] });
+  }
+  for (const { ids } of latest.values()) {
+    await db.updateTable("label_runs").set({ is_current: 1 }).where("id", "in", ids).execute();
+  }
+
+  await db.schema
+    .createIndex("label_runs_current_idx")
+    .on("label_runs")
+    .columns(["model_id", "is_current"])
+    .execute();
+  await db.schema.createIndex("label_runs_job_id_idx").on("label_runs").column("job_id").execute();
+}
+
+export async function down(db: Kysely<any>) {
+  await db.schema.dropIndex("label_runs_job_id_idx").execute();
+  await db.schema.dropIndex("label_runs_current_idx").execute();
+  await db.schema.alterTable("label_runs").dropColumn("is_current").execute();
+  await db.schema.alterTable("label_runs").dropColumn("latency_ms").execute();
+  await db.schema.alterTable("label_runs").dropColumn("raw_output").execute();
+  await db.schema.alterTable("label_runs").dropColumn("prompt_hash").execute();
+}
@@ -0,0 +1,60 @@
+import type { Kysely } from "kysely";
+
+export async function up(db: Kysely<any>) {
+  await db.schema
+    .createTable("gold_models")
+    .addColumn("project_id", "text", (col) => col.notNull())
+    .addColumn("model_id", "text", (col) => col.notNull())
+    .addColumn("added_at", "text", (col) => col.notNull())
+    .addPrimaryKeyConstraint("gold_models_pk", ["project_id", "model_id"])
+    .addForeignKeyConstraint("gold_models_project_id_fk", ["project_id"], "projects", ["id"], (cb) => cb.onDelete("cascade"))
+    .addForeignKeyConstraint("gold_models_model_id_fk", ["model_id"], "models", ["id"], (cb) => cb.onDelete("cascade"))
+    .execute();
+
+  await db.schema
+    .createTable("eval_runs")
+    .addColumn("id", "text", (col) => col.primaryKey())
+    .addColumn("project_id", "text", (col) => col.notNull())
+    .addColumn("name", "text")
+    .addColumn("status", "text", (col) => col.notNull())
+    .addColumn("config_json", "text", (col) => col.notNull())
+    .addColumn("provider", "text")
+    .addColumn("model", "text")
+    .addColumn("rubric_version", "integer")
+    .addColumn("total_count", "integer", (col) => col.notNull().defaultTo(0))
+    .addColumn("processed_count", "integer", (col) => col.notNull().defaultTo(0))
+    .addColumn("failed_count", "integer", (col) => col.notNull().defaultTo(0))
+    .addColumn("last_error", "text")
+    .addColumn("created_at", "text", (col) => col.notNull())
+    .addColumn("started_at", "text")
+    .addColumn("finished_at", "text")
+    .execute();
+
+  await db.schema
+    .createTable("eval_results")
+    .addColumn("id", "text", (col) => col.primaryKey())
+    .addColumn("eval_run_id", "text", (col) => col.notNull())
+    .addColumn("model_id", "text", (col) => col.notNull())
+    .addColumn("expected_grade", "text", (col) => col.notNull())
+    .addColumn("expected_json", "text", (col) => col.notNull())
+    .addColumn("predicted_grade", "text")
+    .addColumn("predicted_json", "text")
+    .addColumn("latency_ms", "integer")
+    .addColumn("input_tokens", "integer")
+    .addColumn("output_tokens", "integer")
+    .addColumn("error", "text")
+    .addColumn("finished_at", "text")
+    .addForeignKeyConstraint("eval_results_eval_run_id_fk", ["eval_run_id"], "eval_runs", ["id"], (cb) =>
+      cb.onDelete("cascade"),
+    )
+    .execute();
+
+  await db.schema.createIndex("eval_results_eval_run_id_idx").on("eval_results").column("eval_run_id").execute();
+}
+
+export async function down(db: Kysely<any>) {
+  await db.schema.dropIndex("eval_results_eval_run_id_idx").execute();
+  await db.schema.dropTable("eval_results").execute();
+  await db.schema.dropTable("eval_runs").execute();
+  await db.schema.dropTable("gold_models").execute();
+}
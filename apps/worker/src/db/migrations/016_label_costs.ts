@@ -0,0 +1,47 @@
+import type { Kysely } from "kysely";
+
+export async function up(db: Kysely<any>) {
+  await db.schema
+    .createTable("label_prices")
+    .addColumn("model", "text", (col) => col.primaryKey())
+    .addColumn("input_per_million", "real", (col) => col.notNull().defaultTo(0))
+    .addColumn("output_per_million", "real", (col) => col.notNull().defaultTo(0))
+    .addColumn("per_image", "real", (col) => col.notNull().defaultTo(0))
+    .addColumn("updated_at", "text", (col) => col.notNull())
+    .execute();
+
+  // eval_results already records input/output tokens.
+  await db.schema.alterTable("label_runs").addColumn("input_tokens", "integer").execute();
+  await db.schema.alterTable("label_runs").addColumn("output_tokens", "integer").execute();
+  for (const table of ["label_runs", "eval_results"]) {
+    await db.schema.alterTable(table).addColumn("image_tokens", "integer").execute();
+    await db.schema.alterTable(table).addColumn("image_count", "integer").execute();
+    await db.schema.alterTable(table).addColumn("cost", "real").execute();
+  }
+
+  for (const column of ["call_count", "input_tokens", "output_tokens", "image_tokens", "latency_ms", "unpriced_count"]) {
+    await db.schema
+      .alterTable("label_jobs")
+      .addColumn(column, "integer", (col) => col.notNull().defaultTo(0))
+      .execute();
+  }
+  await db.schema
+    .alterTable("label_jobs")
+    .addColumn("cost", "real", (col) => col.notNull().defaultTo(0))
+    .execute();
+  await db.schema.alterTable("label_jobs").addColumn("budget", "real").execute();
+}
+
+export async function down(db: Kysely<any>) {
+  for (const column of ["budget", "cost", "unpriced_count", "latency_ms", "image_tokens", "output_tokens", "input_tokens", "call_count"]) {
+    await db.schema.alterTable("label_jobs").dropColumn(column).execute();
+  }
+  for (const table of ["eval_results", "label_runs"]) {
+    await db.schema.alterTable(table).dropColumn("cost").execute();
+    await db.schema.alterTable(table).dropColumn("image_count").execute();
+    await db.schema.alterTable(table).dropColumn("image_tokens").execute();
+  }
+  await db.schema.alterTable("label_runs").dropColumn("output_tokens").execute();
+  await db.schema.alterTable("label_runs").dropColumn("input_tokens").execute();
+  await db.schema.dropTable("label_prices").execute();
+}
@@ -0,0 +1,31 @@
+import type { Kysely } from "kysely";
+
+export async function up(db: Kysely<any>) {
+  await db.schema
+    .createTable("label_failures")
+    .addColumn("id", "text", (col) => col.primaryKey())
+    .addColumn("job_id", "text", (col) => col.notNull())
+    .addColumn("model_id", "text", (col) => col.notNull())
+    .addColumn("sample_index", "integer", (col) => col.notNull().defaultTo(0))
+    .addColumn("attempt", "integer", (col) => col.notNull())
+    .addColumn("error_class", "text", (col) => col.notNull())
+    .addColumn("message", "text", (col) => col.notNull())
+    .addColumn("output_text", "text")
+    .addColumn("created_at", "text", (col) => col.notNull())
+    .addForeignKeyConstraint("label_failures_job_id_fk", ["job_id"], "label_jobs", ["id"], (cb) => cb.onDelete("cascade"))
+    .execute();
+
+  await db.schema.createIndex("label_failures_job_id_idx").on("label_failures").column("job_id").execute();
+
+  // How many outputs a run needed: more than 1 means it was repaired by re-asking.
+  await db.schema
+    .alterTable("label_runs")
+    .addColumn("attempts", "integer", (col) => col.notNull().defaultTo(1))
+    .execute();
+}
+
+export async function down(db: Kysely<any>) {
+  await db.schema.alterTable("label_runs").dropColumn("attempts").execute();
+  await db.schema.dropIndex("label_failures_job_id_idx").execute();
+  await db.schema.dropTable("label_failures").execute();
+}
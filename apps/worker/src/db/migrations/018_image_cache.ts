@@ -0,0 +1,20 @@
+import type { Kysely } from "kysely";
+
+export async function up(db: Kysely<any>) {
+  // Filled once the image has been downloaded into the content-addressed cache; null while only the remote URL is known.
+  await db.schema.alterTable("model_images").addColumn("hash", "text").execute();
+  await db.schema.alterTable("model_images").addColumn("mime", "text").execute();
+  await db.schema.alterTable("model_images").addColumn("width", "integer").execute();
+  await db.schema.alterTable("model_images").addColumn("height", "integer").execute();
+  await db.schema.alterTable("model_images").addColumn("byte_size", "integer").execute();
+  await db.schema.alterTable("model_images").addColumn("cached_at", "text").execute();
+
+  await db.schema.createIndex("model_images_hash_idx").on("model_images").column("hash").execute();
+}
+
+export async function down(db: Kysely<any>) {
+  await db.schema.dropIndex("model_images_hash_idx").execute();
+  for (const column of ["cached_at", "byte_size", "height", "width", "mime", "hash"]) {
+    await db.schema.alterTable("model_images").dropColumn(column).execute();
+  }
+}
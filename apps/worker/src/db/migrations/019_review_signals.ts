@@ -0,0 +1,80 @@
+import { randomInt } from "node:crypto";
+import type { Kysely } from "kysely";
+
+// Snapshot of the review signals in src/db/reviewQueue.ts as of this migration, so later changes there leave it alone.
+const GRADE_ORDER = ["S", "A", "B", "C", "D"];
+const BOOLEAN_FEATURES = [
+  "story",
+  "selling_points",
+  "interaction",
+  "scene",
+  "params",
+  "instructions",
+  "multicolor",
+  "advanced_structure",
+  "use_case",
+];
+
+function contradictionScore(grade: string, extracted: Record<string, unknown>) {
+  const present = BOOLEAN_FEATURES.filter((key) => extracted[key]).length;
+  const high = grade === "S" || grade === "A";
+  const low = grade === "C" || grade === "D";
+  let score = 0;
+  if (high && extracted.structure_clarity === "low") score += 2;
+  if (high && present <= 2) score += 1;
+  if (grade === "S" && !extracted.multicolor && !extracted.advanced_structure) score += 1;
+  if (grade === "A" && !extracted.params && !extracted.instructions) score += 1;
+  if (low && extracted.structure_clarity === "high") score += 2;
+  if (low && present >= 6) score += 1;
+  return score;
+}
+
+function disagreementScore(grades: string[]) {
+  const distinct = new Set(grades).size;
+  if (distinct < 2) return 0;
+  const ordinals = grades.map((g) => GRADE_ORDER.indexOf(g));
+  return Math.max(...ordinals) - Math.min(...ordinals) + distinct / 10;
+}
+
+export async function up(db: Kysely<any>) {
+  // Precomputed per label so the review queue can filter and order in SQL instead of scoring every model per request.
+  await db.schema.alterTable("model_labels").addColumn("confidence", "double precision").execute();
+  await db.schema
+    .alterTable("model_labels")
+    .addColumn("contradiction_score", "integer", (col) => col.notNull().defaultTo(0))
+    .execute();
+  await db.schema
+    .alterTable("model_labels")
+    .addColumn("disagreement", "double precision", (col) => col.notNull().defaultTo(0))
+    .execute();
+  await db.schema
+    .alterTable("model_labels")
+    .addColumn("audit_key", "integer", (col) => col.notNull().defaultTo(0))
+    .execute();
+
+  const runs = await db.selectFrom("label_runs").select(["model_id", "grade"]).execute();
+  const gradesByModel = new Map<string, string[]>();
+  for (const run of runs) gradesByModel.set(run.model_id, [...(gradesByModel.get(run.model_id) ?? []), run.grade]);
+
+  const labels = await db.selectFrom("model_labels").select(["model_id", "grade", "extracted_json"]).execute();
+  for (const label of labels) {
+    const extracted = JSON.parse(label.extracted_json);
+    await db
+      .updateTable("model_labels")
+      .set({
+        confidence: typeof extracted.confidence === "number" ? extracted.confidence : null,
+        contradiction_score: contradictionScore(label.grade, extracted),
+        disagreement: disagreementScore(gradesByModel.get(label.model_id) ?? []),
+        audit_key: randomInt(1_000_000_000),
+      })
+      .where("model_id", "=", label.model_id)
+      .execute();
+  }
+}
+
+export async function down(db: Kysely<any>) {
+  await db.schema.alterTable("model_labels").dropColumn("audit_key").execute();
+  await db.schema.alterTable("model_labels").dropColumn("disagreement").execute();
+  await db.schema.alterTable("model_labels").dropColumn("contradiction_score").execute();
+  await db.schema.alterTable("model_labels").dropColumn("confidence").execute();
+}
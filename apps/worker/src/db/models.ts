@@ -0,0 +1,111 @@
+import type { Kysely } from "kysely";
+import type { ScrapedModel } from "../crawler/makerworld";
+import type { Database } from "./types";
+import { nowIso, randomId } from "../lib/ids";
+import { addModelsToProject } from "./projects";
+
+export async function saveScrapedModel(db: Kysely<Database>, scraped: ScrapedModel, projectId?: string | null) {
+  const now = nowIso();
+  const fields = {
+    url: scraped.url,
+    title: scraped.title,
+    author_name: scraped.authorName,
+    author_handle: scraped.authorHandle,
+    download_count: scraped.downloadCount,
+    like_count: scraped.likeCount,
+    collect_count: scraped.collectCount,
+    boost_count: scraped.boostCount,
+    print_count: scraped.printCount,
+    comment_count: scraped.commentCount,
+    print_profile_count: scraped.printProfileCount,
+    plate_count: scraped.plateCount,
+    published_at: scraped.publishedAt,
+    source_updated_at: scraped.updatedAt,
+    category: scraped.category,
+    license: scraped.license,
+    cover_image_url: scraped.imageUrls[0] ?? null,
+    description: scraped.description,
+    field_sources_json: JSON.stringify(scraped.fieldSources),
+    updated_at: now,
+  };
+
+  await db
+    .insertInto("models")
+    .values({ id: scraped.id, ...fields, created_at: now })
+    .onConflict((oc) => oc.column("id").doUpdateSet(fields))
+    .execute();
+
+  await db
+    .insertInto("model_metrics_snapshots")
+    .values({
+      id: randomId("snap"),
+      model_id: scraped.id,
+      captured_at: now,
+      download_count: scraped.downloadCount,
+      like_count: scraped.likeCount,
+      collect_count: scraped.collectCount,
+      boost_count: scraped.boostCount,
+      print_count: scraped.printCount,
+      comment_count: scraped.commentCount,
+    })
+    .execute();
+
+  // Keep cache metadata for URLs that survive a re-crawl so the images are not downloaded again.
+  const cached = new Map(
+    (
+      await db
+        .selectFrom("model_images")
+        .select(["url", "hash", "mime", "width", "height", "byte_size", "cached_at"])
+        .where("model_id", "=", scraped.id)
+        .where("hash", "is not", null)
+        .execute()
+    ).map((r) => [r.url, r]),
+  );
+  await db.deleteFrom("model_images").where("model_id", "=", scraped.id).execute();
+  if (scraped.imageUrls.length > 0) {
+    await db
+      .insertInto("model_images")
+      .values(
+        scraped.imageUrls.map((u, idx) => {
+          const meta = cached.get(u);
+          return {
+            id: `${scraped.id}_${idx}`,
+            model_id: scraped.id,
+            idx,
+            url: u,
+            hash: meta?.hash ?? null,
+            mime: meta?.mime ?? null,
+            width: meta?.width ?? null,
+            height: meta?.height ?? null,
+            byte_size: meta?.byte_size ?? null,
+            cached_at: meta?.cached_at ?? null,
+          };
+        }),
+      )
+      .execute();
+  }
+
+  await db.deleteFrom("model_tags").where("model_id", "=", scraped.id).execute();
+  if (scraped.tags.length > 0) {
+    await db
+      .insertInto("model_tags")
+      .values(scraped.tags.map((tag, idx) => ({ model_id: scraped.id, tag, idx })))
+      .execute();
+  }
+
+  if (projectId) await addModelsToProject(db, projectId, [scraped.id]);
+}
+
+export async function loadModelTags(db: Kysely<Database>, modelIds?: string[]) {
+  if (modelIds && modelIds.length === 0) return new Map<string, string[]>();
+  let q = db.selectFrom("model_tags").select(["model_id", "tag"]).orderBy("model_id").orderBy("idx");
+  if (modelIds) q = q.where("model_id", "in", modelIds);
+  const rows = await q.execute();
+  const out = new Map<string, string[]>();
+  for (const r of rows) {
+    const list = out.get(r.model_id) ?? [];
+    list.push(r.tag);
+    out.set(r.model_id, list);
+  }
+  return out;
+}
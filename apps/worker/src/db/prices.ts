@@ -0,0 +1,28 @@
+import type { Kysely } from "kysely";
+import type { Database, LabelPriceRow } from "./types";
+import { nowIso } from "../lib/ids";
+
+export async function listLabelPrices(db: Kysely<Database>) {
+  return db.selectFrom("label_prices").selectAll().orderBy("model", "asc").execute();
+}
+
+export async function loadPriceTable(db: Kysely<Database>) {
+  return new Map((await listLabelPrices(db)).map((p) => [p.model, p]));
+}
+
+export async function saveLabelPrice(db: Kysely<Database>, price: Omit<LabelPriceRow, "updated_at">) {
+  const row = { ...price, updated_at: nowIso() };
+  await db
+    .insertInto("label_prices")
+    .values(row)
+    .onConflict((oc) =>
+      oc.column("model").doUpdateSet({
+        input_per_million: row.input_per_million,
+        output_per_million: row.output_per_million,
+        per_image: row.per_image,
+        updated_at: row.updated_at,
+      }),
+    )
+    .execute();
+  return row;
+}
@@ -0,0 +1,113 @@
+import type { Kysely } from "kysely";
+import type { Database } from "./types";
+import { nowIso } from "../lib/ids";
+
+export const DEFAULT_PROJECT_ID = "default";
+
+const CHUNK = 500;
+
+export async function projectError(db: Kysely<Database>, projectId: string) {
+  const project = await db.selectFrom("projects").select(["archived"]).where("id", "=", projectId).executeTakeFirst();
+  if (!project) return "PROJECT_NOT_FOUND";
+  if (project.archived) return "PROJECT_ARCHIVED";
+  return null;
+}
+
+export async function addModelsToProject(db: Kysely<Database>, projectId: string, modelIds: string[]) {
+  const now = nowIso();
+  for (let i = 0; i < modelIds.length; i += CHUNK) {
+    const chunk = modelIds.slice(i, i + CHUNK);
+    await db
+      .insertInto("project_models")
+      .values(chunk.map((modelId) => ({ project_id: projectId, model_id: modelId, added_at: now })))
+      .onConflict((oc) => oc.columns(["project_id", "model_id"]).doNothing())
+      .execute();
+  }
+}
+
+export async function deleteProject(db: Kysely<Database>, projectId: string) {
+  // One transaction: SQLite does not enforce the foreign keys, so stopping halfway would leave orphaned rows.
+  return db.transaction().execute(async (trx) => {
+    const now = nowIso();
+    await trx
+      .updateTable("crawl_jobs")
+      .set({ status: "cancelled", finished_at: now, last_error: "PROJECT_DELETED" })
+      .where("project_id", "=", projectId)
+      .where("finished_at", "is", null)
+      .execute();
+    await trx
+      .updateTable("label_jobs")
+      .set({ status: "cancelled", finished_at: now, last_error: "PROJECT_DELETED" })
+      .where("project_id", "=", projectId)
+      .where("finished_at", "is", null)
+      .execute();
+    await trx
+      .updateTable("eval_runs")
+      .set({ status: "cancelled", finished_at: now, last_error: "PROJECT_DELETED" })
+      .where("project_id", "=", projectId)
+      .where("finished_at", "is", null)
+      .execute();
+
+    const crawlJobIds = (
+      await trx.selectFrom("crawl_jobs").select(["id"]).where("project_id", "=", projectId).execute()
+    ).map((r) => r.id);
+    const labelJobIds = (
+      await trx.selectFrom("label_jobs").select(["id"]).where("project_id", "=", projectId).execute()
+    ).map((r) => r.id);
+    const evalRunIds = (
+      await trx.selectFrom("eval_runs").select(["id"]).where("project_id", "=", projectId).execute()
+    ).map((r) => r.id);
+    for (let i = 0; i < crawlJobIds.length; i += CHUNK) {
+      const chunk = crawlJobIds.slice(i, i + CHUNK);
+      await trx.deleteFrom("crawl_failures").where("job_id", "in", chunk).execute();
+      await trx.deleteFrom("crawl_frontier").where("job_id", "in", chunk).execute();
+    }
+    for (let i = 0; i < labelJobIds.length; i += CHUNK) {
+      await trx.deleteFrom("label_failures").where("job_id", "in", labelJobIds.slice(i, i + CHUNK)).execute();
+    }
+    for (let i = 0; i < evalRunIds.length; i += CHUNK) {
+      await trx.deleteFrom("eval_results").where("eval_run_id", "in", evalRunIds.slice(i, i + CHUNK)).execute();
+    }
+    const jobIds = [...crawlJobIds, ...labelJobIds, ...evalRunIds];
+    for (let i = 0; i < jobIds.length; i += CHUNK) {
+      await trx.deleteFrom("jobs").where("id", "in", jobIds.slice(i, i + CHUNK)).execute();
+    }
+    await trx.deleteFrom("crawl_jobs").where("project_id", "=", projectId).execute();
+    await trx.deleteFrom("label_jobs").where("project_id", "=", projectId).execute();
+    await trx.deleteFrom("eval_runs").where("project_id", "=", projectId).execute();
+    await trx.deleteFrom("gold_models").where("project_id", "=", projectId).execute();
+
+    const orphanIds = (
+      await trx
+        .selectFrom("project_models as pm")
+        .select(["pm.model_id"])
+        .where("pm.project_id", "=", projectId)
+        .where(({ not, exists, selectFrom }) =>
+          not(
+            exists(
+              selectFrom("project_models as other")
+                .select(["other.model_id"])
+                .whereRef("other.model_id", "=", "pm.model_id")
+                .where("other.project_id", "!=", projectId),
+            ),
+          ),
+        )
+        .execute()
+    ).map((r) => r.model_id);
+
+    await trx.deleteFrom("project_models").where("project_id", "=", projectId).execute();
+    for (let i = 0; i < orphanIds.length; i += CHUNK) {
+      const chunk = orphanIds.slice(i, i + CHUNK);
+      await trx.deleteFrom("model_labels").where("model_id", "in", chunk).execute();
+      await trx.deleteFrom("model_reviews").where("model_id", "in", chunk).execute();
+      await trx.deleteFrom("label_runs").where("model_id", "in", chunk).execute();
+      await trx.deleteFrom("model_images").where("model_id", "in", chunk).execute();
+      await trx.deleteFrom("model_tags").where("model_id", "in", chunk).execute();
+      await trx.deleteFrom("model_metrics_snapshots").where("model_id", "in", chunk).execute();
+      await trx.deleteFrom("models").where("id", "in", chunk).execute();
+    }
+
+    await trx.deleteFrom("projects").where("id", "=", projectId).execute();
+    return { deletedModels: orphanIds.length, deletedJobs: jobIds.length };
+  });
+}
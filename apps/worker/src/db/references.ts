@@ -0,0 +1,40 @@
+import type { Kysely } from "kysely";
+import type { Database, Grade } from "./types";
+import type { Rubric } from "../label/rubric";
+import type { ReferenceImage } from "../label/types";
+
+const GRADES: Grade[] = ["S", "A", "B", "C", "D"];
+
+// The first N active images of each grade, N taken from the rubric.
+export async function selectReferenceImageIds(db: Kysely<Database>, counts: Rubric["referenceCounts"]) {
+  const rows = await db
+    .selectFrom("reference_images")
+    .select(["id", "grade"])
+    .where("deleted_at", "is", null)
+    .where("active", "=", 1)
+    .orderBy("sort_order", "asc")
+    .orderBy("created_at", "asc")
+    .execute();
+
+  const ids: string[] = [];
+  for (const grade of GRADES) {
+    const limit = counts[grade] ?? 0;
+    ids.push(...rows.filter((r) => r.grade === grade).slice(0, limit).map((r) => r.id));
+  }
+  return ids;
+}
+
+// Deleted images are still returned so jobs created before the delete send what they recorded.
+export async function loadReferenceImages(db: Kysely<Database>, ids: string[]): Promise<ReferenceImage[]> {
+  if (ids.length === 0) return [];
+  const rows = await db
+    .selectFrom("reference_images")
+    .select(["id", "grade", "mime", "data_base64", "note"])
+    .where("id", "in", ids)
+    .execute();
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  return ids
+    .map((id) => byId.get(id))
+    .filter((r) => r !== undefined)
+    .map((r) => ({ grade: r.grade, note: r.note, dataUrl: `data:${r.mime};base64,${r.data_base64}` }));
+}
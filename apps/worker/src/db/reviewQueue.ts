@@ -0,0 +1,259 @@
+import { randomInt } from "node:crypto";
+import { sql, type Kysely } from "kysely";
+import { z } from "zod";
+import type { Database, Grade } from "./types";
+import type { Extracted } from "../label/types";
+import { cachedImagePath } from "../images/cache";
+import { imageStore } from "../images/store";
+
+export const REVIEW_QUEUE_STRATEGIES = ["sequential", "low_confidence", "contradiction", "disagreement", "random"] as const;
+export type ReviewQueueStrategy = (typeof REVIEW_QUEUE_STRATEGIES)[number];
+
+// Position after the last row of a page. `seed` fixes the random audit order across pages.
+export interface ReviewQueueCursor {
+  key: number;
+  id: string;
+  seed: number | null;
+}
+
+export interface ReviewQueueInput {
+  projectId: string;
+  strategy: ReviewQueueStrategy;
+  limit: number;
+  after?: string;
+  cursor?: ReviewQueueCursor;
+  maxAgreement?: number;
+  exclude?: string[];
+}
+
+// audit_key and the seed both stay below this, so their sum fits a 32-bit integer column.
+const AUDIT_KEY_RANGE = 1_000_000_000;
+
+const GRADE_ORDER: Grade[] = ["S", "A", "B", "C", "D"];
+
+const BOOLEAN_FEATURES = [
+  "story",
+  "selling_points",
+  "interaction",
+  "scene",
+  "params",
+  "instructions",
+  "multicolor",
+  "advanced_structure",
+  "use_case",
+] as const;
+
+// Heuristics derived from the default grade definitions: a grade the extracted features cannot support is suspicious.
+export function gradeContradictions(grade: Grade, extracted: Extracted) {
+  const present = BOOLEAN_FEATURES.filter((key) => extracted[key]).length;
+  const high = grade === "S" || grade === "A";
+  const low = grade === "C" || grade === "D";
+  const out: { weight: number; reason: string }[] = [];
+  if (high && extracted.structure_clarity === "low") out.push({ weight: 2, reason: `${grade} 级但结构清晰度为 low` });
+  if (high && present <= 2) out.push({ weight: 1, reason: `${grade} 级但只有 ${present} 项要素` });
+  if (grade === "S" && !extracted.multicolor && !extracted.advanced_structure) {
+    out.push({ weight: 1, reason: "S 级但没有多色分件或高级结构" });
+  }
+  if (grade === "A" && !extracted.params && !extracted.instructions) out.push({ weight: 1, reason: "A 级但没有参数或说明" });
+  if (low && extracted.structure_clarity === "high") out.push({ weight: 2, reason: `${grade} 级但结构清晰度为 high` });
+  if (low && present >= 6) out.push({ weight: 1, reason: `${grade} 级但有 ${present} 项要素` });
+  return out;
+}
+
+export function randomAuditKey() {
+  return randomInt(AUDIT_KEY_RANGE);
+}
+
+// Spread between the highest and lowest grade over all runs, plus a tenth per distinct grade; 0 when the runs agree.
+function disagreementScore(grades: string[]) {
+  const distinct = new Set(grades).size;
+  if (distinct < 2) return 0;
+  const ordinals = grades.map((g) => GRADE_ORDER.indexOf(g as Grade));
+  return Math.max(...ordinals) - Math.min(...ordinals) + distinct / 10;
+}
+
+// The model_labels columns the queue strategies filter and order by; `runGrades` are the grades of every run of the model.
+export function reviewSignals(grade: Grade, extracted: Extracted, runGrades: string[]) {
+  return {
+    confidence: typeof extracted.confidence === "number" ? extracted.confidence : null,
+    contradiction_score: gradeContradictions(grade, extracted).reduce((sum, f) => sum + f.weight, 0),
+    disagreement: disagreementScore(runGrades),
+  };
+}
+
+const cursorSchema = z.object({ key: z.number(), id: z.string(), seed: z.number().int().nullable() });
+
+export function encodeReviewCursor(cursor: ReviewQueueCursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeReviewCursor(value: string): ReviewQueueCursor | null {
+  try {
+    const parsed = cursorSchema.safeParse(JSON.parse(Buffer.from(value, "base64url").toString("utf8")));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// Every strategy orders by an ascending key, then by model id, so one keyset condition pages through all of them.
+function sortKey(strategy: ReviewQueueStrategy, seed: number | null) {
+  switch (strategy) {
+    case "sequential":
+      return sql<number>`0`;
+    case "low_confidence":
+      return sql<number>`coalesce(model_labels.confidence, 0)`;
+    case "contradiction":
+      return sql<number>`-model_labels.contradiction_score`;
+    case "disagreement":
+      return sql<number>`-model_labels.disagreement`;
+    case "random":
+      return sql<number>`(model_labels.audit_key + ${seed ?? 0}) % ${AUDIT_KEY_RANGE}`;
+  }
+}
+
+// Labeled models of the project without a current review that match the strategy and filters.
+function pendingQuery(db: Kysely<Database>, input: ReviewQueueInput) {
+  let q = db
+    .selectFrom("project_models")
+    .innerJoin("model_labels", "model_labels.model_id", "project_models.model_id")
+    .leftJoin("model_reviews", (join) =>
+      join.onRef("model_reviews.model_id", "=", "project_models.model_id").on("model_reviews.is_current", "=", 1),
+    )
+    .where("project_models.project_id", "=", input.projectId)
+    .where("model_reviews.id", "is", null);
+  if (input.exclude?.length) q = q.where("project_models.model_id", "not in", input.exclude);
+  if (input.maxAgreement !== undefined) q = q.where(sql<boolean>`coalesce(model_labels.agreement, 1) < ${input.maxAgreement}`);
+  if (input.strategy === "contradiction") q = q.where("model_labels.contradiction_score", ">", 0);
+  if (input.strategy === "disagreement") q = q.where("model_labels.disagreement", ">", 0);
+  return q;
+}
+
+async function runGradesByModel(db: Kysely<Database>, modelIds: string[]) {
+  const runs = modelIds.length
+    ? await db
+        .selectFrom("label_runs")
+        .select(["model_id", "grade"])
+        .where("model_id", "in", modelIds)
+        .orderBy("created_at", "asc")
+        .execute()
+    : [];
+  const byModel = new Map<string, Grade[]>();
+  for (const run of runs) byModel.set(run.model_id, [...(byModel.get(run.model_id) ?? []), run.grade]);
+  return byModel;
+}
+
+// Ordered so reviewers see the least reliable labels first; pages continue from `cursor` (the previous page's nextCursor).
+export async function loadReviewQueue(db: Kysely<Database>, input: ReviewQueueInput) {
+  const seed = input.strategy === "random" ? (input.cursor?.seed ?? randomAuditKey()) : null;
+  const key = sortKey(input.strategy, seed);
+
+  let pageQuery = pendingQuery(db, input);
+  if (input.strategy === "sequential" && input.after) pageQuery = pageQuery.where("project_models.model_id", ">", input.after);
+  if (input.cursor) {
+    const { key: k, id } = input.cursor;
+    pageQuery = pageQuery.where(sql<boolean>`(${key} > ${k} or (${key} = ${k} and project_models.model_id > ${id}))`);
+  }
+  const page = await pageQuery
+    .innerJoin("models", "models.id", "project_models.model_id")
+    .select([
+      "models.id as id",
+      "models.url as url",
+      "models.title as title",
+      "models.cover_image_url as cover_image_url",
+      "model_labels.grade as grade",
+      "model_labels.reason as reason",
+      "model_labels.extracted_json as extracted_json",
+      "model_labels.rubric_version as rubric_version",
+      "model_labels.sample_count as sample_count",
+      "model_labels.agreement as agreement",
+      "model_labels.confidence as confidence",
+      "model_labels.contradiction_score as contradiction_score",
+      "model_labels.disagreement as disagreement",
+      key.as("sort_key"),
+    ])
+    .orderBy("sort_key", "asc")
+    .orderBy("project_models.model_id", "asc")
+    .limit(input.limit)
+    .execute();
+  const ids = page.map((r) => r.id);
+
+  const totals = await db
+    .selectFrom("project_models")
+    .innerJoin("model_labels", "model_labels.model_id", "project_models.model_id")
+    .leftJoin("model_reviews", (join) =>
+      join.onRef("model_reviews.model_id", "=", "project_models.model_id").on("model_reviews.is_current", "=", 1),
+    )
+    .where("project_models.project_id", "=", input.projectId)
+    .select((eb) => [eb.fn.countAll().as("labeled"), eb.fn.count("model_reviews.id").as("reviewed")])
+    .executeTakeFirstOrThrow();
+  const matched = await pendingQuery(db, input)
+    .select((eb) => eb.fn.countAll().as("count"))
+    .executeTakeFirstOrThrow();
+
+  const runGrades = input.strategy === "disagreement" ? await runGradesByModel(db, ids) : new Map<string, Grade[]>();
+
+  const images = ids.length
+    ? await db
+        .selectFrom("model_images")
+        .select(["model_id", "url", "hash"])
+        .where("model_id", "in", ids)
+        .orderBy("idx", "asc")
+        .execute()
+    : [];
+  // Prefer the cached copy: MakerWorld CDN URLs expire, the worker's content-addressed copy does not.
+  const serveCached = imageStore() !== null;
+  const imagesById = new Map<string, string[]>();
+  for (const img of images) {
+    const src = serveCached && img.hash ? cachedImagePath(img.hash) : img.url;
+    imagesById.set(img.model_id, [...(imagesById.get(img.model_id) ?? []), src]);
+  }
+
+  const priority = (r: (typeof page)[number], extracted: Extracted) => {
+    switch (input.strategy) {
+      case "sequential":
+        return { score: 0, reasons: [] };
+      case "low_confidence": {
+        const confidence = r.confidence ?? 0;
+        return { score: Math.round((1 - confidence) * 100) / 100, reasons: [`置信度 ${confidence.toFixed(2)}`] };
+      }
+      case "contradiction":
+        return { score: r.contradiction_score, reasons: gradeContradictions(r.grade, extracted).map((f) => f.reason) };
+      case "disagreement": {
+        const grades = runGrades.get(r.id) ?? [];
+        return { score: r.disagreement, reasons: [`${grades.length} 次标注：${grades.join("、")}`] };
+      }
+      case "random":
+        return { score: 0, reasons: ["随机抽检"] };
+    }
+  };
+
+  const last = page[page.length - 1];
+  return {
+    strategy: input.strategy,
+    labeled: Number(totals.labeled),
+    reviewed: Number(totals.reviewed),
+    matched: Number(matched.count),
+    nextCursor:
+      last && page.length === input.limit ? encodeReviewCursor({ key: Number(last.sort_key), id: last.id, seed }) : null,
+    rows: page.map((r) => {
+      const extracted = JSON.parse(r.extracted_json) as Extracted;
+      const gallery = imagesById.get(r.id) ?? [];
+      return {
+        id: r.id,
+        url: r.url,
+        title: r.title,
+        images: gallery.length > 0 ? gallery : r.cover_image_url ? [r.cover_image_url] : [],
+        priority: priority(r, extracted),
+        label: {
+          grade: r.grade,
+          reason: r.reason,
+          extracted,
+          rubricVersion: r.rubric_version,
+          sampleCount: r.sample_count,
+          agreement: r.agreement,
+        },
+      };
+    }),
+  };
+}
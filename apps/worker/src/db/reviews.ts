@@ -0,0 +1,66 @@
+import type { Kysely } from "kysely";
+import type { Database, Grade, ReviewAction } from "./types";
+import type { Extracted } from "../label/types";
+import { randomId, nowIso } from "../lib/ids";
+
+export type FeatureOverrides = Partial<Omit<Extracted, "summary" | "confidence">>;
+
+export interface ReviewInput {
+  reviewer: string;
+  action: ReviewAction;
+  grade?: Grade;
+  features?: FeatureOverrides;
+  comment?: string | null;
+}
+
+// Reviews are append-only; the newest one per model is flagged is_current so queries can join on it.
+export async function addReview(db: Kysely<Database>, modelId: string, input: ReviewInput) {
+  const label = await db
+    .selectFrom("model_labels")
+    .select(["grade", "rubric_version"])
+    .where("model_id", "=", modelId)
+    .executeTakeFirst();
+
+  const grade = input.action === "confirm" ? label?.grade : input.grade;
+  if (!grade) throw new Error(input.action === "confirm" ? "REVIEW_NO_AI_LABEL" : "REVIEW_GRADE_REQUIRED");
+
+  const id = randomId("review");
+  await db.transaction().execute(async (trx) => {
+    await trx
+      .updateTable("model_reviews")
+      .set({ is_current: 0 })
+      .where("model_id", "=", modelId)
+      .where("is_current", "=", 1)
+      .execute();
+    await trx
+      .insertInto("model_reviews")
+      .values({
+        id,
+        model_id: modelId,
+        reviewer: input.reviewer,
+        action: input.action,
+        grade,
+        features_json: input.features && Object.keys(input.features).length > 0 ? JSON.stringify(input.features) : null,
+        comment: input.comment?.trim() ? input.comment.trim() : null,
+        ai_grade: label?.grade ?? null,
+        rubric_version: label?.rubric_version ?? null,
+        is_current: 1,
+        created_at: nowIso(),
+      })
+      .execute();
+  });
+  return id;
+}
+
+// Human decisions win over the model's; features fall back field by field.
+export function finalLabel(
+  ai: { grade: Grade; extracted: Extracted } | null,
+  review: { grade: Grade; features_json: string | null } | null,
+) {
+  const overrides = review?.features_json ? (JSON.parse(review.features_json) as FeatureOverrides) : {};
+  return {
+    grade: review?.grade ?? ai?.grade ?? null,
+    extracted: ai ? { ...ai.extracted, ...overrides } : null,
+    source: review ? ("human" as const) : ai ? ("ai" as const) : null,
+  };
+}
@@ -0,0 +1,62 @@
+import type { Kysely } from "kysely";
+import type { Database, RubricRow } from "./types";
+import { defaultReferenceCounts, type Rubric } from "../label/rubric";
+import { nowIso } from "../lib/ids";
+
+export interface RubricVersion extends Rubric {
+  version: number;
+  name: string;
+  notes: string | null;
+  createdAt: string;
+}
+
+export function rubricFromRow(row: RubricRow): RubricVersion {
+  return {
+    version: row.version,
+    name: row.name,
+    notes: row.notes,
+    createdAt: row.created_at,
+    grades: JSON.parse(row.grades_json),
+    constraints: JSON.parse(row.constraints_json),
+    features: JSON.parse(row.features_json),
+    tieBreaks: JSON.parse(row.tie_breaks_json),
+    referenceCounts: row.reference_counts_json ? JSON.parse(row.reference_counts_json) : defaultReferenceCounts,
+  };
+}
+
+export async function latestRubricVersion(db: Kysely<Database>) {
+  const row = await db.selectFrom("rubrics").select(["version"]).orderBy("version", "desc").limit(1).executeTakeFirst();
+  return row?.version ?? null;
+}
+
+// Without a version this returns the newest rubric.
+export async function loadRubric(db: Kysely<Database>, version?: number | null) {
+  let q = db.selectFrom("rubrics").selectAll();
+  q = version ? q.where("version", "=", version) : q.orderBy("version", "desc").limit(1);
+  const row = await q.executeTakeFirst();
+  if (!row) throw new Error("RUBRIC_NOT_FOUND");
+  return rubricFromRow(row);
+}
+
+// Rubrics are append-only: editing one always creates the next version.
+export async function createRubricVersion(
+  db: Kysely<Database>,
+  input: Rubric & { name: string; notes?: string | null },
+) {
+  const version = ((await latestRubricVersion(db)) ?? 0) + 1;
+  await db
+    .insertInto("rubrics")
+    .values({
+      version,
+      name: input.name,
+      notes: input.notes ?? null,
+      grades_json: JSON.stringify(input.grades),
+      constraints_json: JSON.stringify(input.constraints),
+      features_json: JSON.stringify(input.features),
+      tie_breaks_json: JSON.stringify(input.tieBreaks),
+      reference_counts_json: JSON.stringify(input.referenceCounts),
+      created_at: nowIso(),
+    })
+    .execute();
+  return version;
+}
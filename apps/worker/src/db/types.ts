@@ -1,6 +1,14 @@
-export type CrawlJobStatus = "queued" | "running" | "paused" | "completed" | "failed";
-export type LabelJobStatus = "queued" | "running" | "paused" | "completed" | "failed";
+export type CrawlJobStatus = "queued" | "running" | "paused" | "completed" | "failed" | "cancelled";
+export type LabelJobStatus = "queued" | "running" | "paused" | "completed" | "failed" | "cancelled";
 export type Grade = "S" | "A" | "B" | "C" | "D";
+export type QueueJobType = "crawl" | "label" | "eval";
+export type QueueJobState = "queued" | "running" | "done";
+export type ScheduleJobType = "crawl" | "refresh" | "label";
+export type ScheduleMissedPolicy = "run_once" | "skip";
+export type FrontierState = "pending" | "in_flight" | "done" | "failed";
+export type CrawlErrorClass = "TIMEOUT" | "CLOUDFLARE_BLOCKED" | "NO_MODEL_ID" | "NAVIGATION_ERROR" | "UNKNOWN";
+
+export type LabelErrorClass = "API_ERROR" | "EMPTY_OUTPUT" | "INVALID_JSON" | "SCHEMA_VIOLATION" | "UNKNOWN";
 
 export interface CrawlJobRow {
   id: string;
@@ -13,6 +21,34 @@ export interface CrawlJobRow {
   processed_count: number;
   failed_count: number;
   last_error: string | null;
+  discovery_done: number;
+  scroll_count: number;
+  project_id: string | null;
+}
+
+export interface CrawlFrontierRow {
+  id: string;
+  job_id: string;
+  model_id: string;
+  url: string;
+  state: FrontierState;
+  attempt_count: number;
+  last_error: string | null;
+  error_class: CrawlErrorClass | null;
+  next_attempt_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CrawlFailureRow {
+  id: string;
+  job_id: string;
+  model_id: string;
+  url: string;
+  attempt: number;
+  error_class: CrawlErrorClass;
+  message: string;
+  created_at: string;
 }
 
 export interface LabelJobRow {
@@ -26,6 +62,15 @@ export interface LabelJobRow {
   processed_count: number;
   failed_count: number;
   last_error: string | null;
+  project_id: string | null;
+  call_count: number;
+  input_tokens: number;
+  output_tokens: number;
+  image_tokens: number;
+  latency_ms: number;
+  unpriced_count: number;
+  cost: number;
+  budget: number | null;
 }
 
 export interface ModelRow {
@@ -38,6 +83,37 @@ export interface ModelRow {
   description: string | null;
   created_at: string;
   updated_at: string;
+  author_handle: string | null;
+  like_count: number | null;
+  collect_count: number | null;
+  boost_count: number | null;
+  print_count: number | null;
+  comment_count: number | null;
+  print_profile_count: number | null;
+  plate_count: number | null;
+  published_at: string | null;
+  source_updated_at: string | null;
+  category: string | null;
+  license: string | null;
+  field_sources_json: string | null;
+}
+
+export interface ModelMetricsSnapshotRow {
+  id: string;
+  model_id: string;
+  captured_at: string;
+  download_count: number | null;
+  like_count: number | null;
+  collect_count: number | null;
+  boost_count: number | null;
+  print_count: number | null;
+  comment_count: number | null;
+}
+
+export interface ModelTagRow {
+  model_id: string;
+  tag: string;
+  idx: number;
 }
 
 export interface ModelImageRow {
@@ -45,6 +121,12 @@ export interface ModelImageRow {
   model_id: string;
   idx: number;
   url: string;
+  hash: string | null;
+  mime: string | null;
+  width: number | null;
+  height: number | null;
+  byte_size: number | null;
+  cached_at: string | null;
 }
 
 export interface ModelLabelRow {
@@ -53,13 +135,214 @@ export interface ModelLabelRow {
   reason: string;
   extracted_json: string;
   updated_at: string;
+  rubric_version: number | null;
+  sample_count: number;
+  agreement: number | null;
+  // Review queue signals, recomputed whenever the label is written.
+  confidence: number | null;
+  contradiction_score: number;
+  disagreement: number;
+  audit_key: number;
+}
+
+export interface LabelRunRow {
+  id: string;
+  model_id: string;
+  job_id: string | null;
+  provider: string | null;
+  model: string | null;
+  sample_index: number;
+  grade: Grade;
+  reason: string | null;
+  extracted_json: string;
+  rubric_version: number | null;
+  prompt_hash: string | null;
+  raw_output: string | null;
+  latency_ms: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  image_tokens: number | null;
+  image_count: number | null;
+  cost: number | null;
+  attempts: number;
+  is_current: number;
+  created_at: string;
+}
+
+// One row per failed label call attempt, including invalid outputs that a later re-ask repaired.
+export interface LabelFailureRow {
+  id: string;
+  job_id: string;
+  model_id: string;
+  sample_index: number;
+  attempt: number;
+  error_class: LabelErrorClass;
+  message: string;
+  output_text: string | null;
+  created_at: string;
+}
+
+export interface GoldModelRow {
+  project_id: string;
+  model_id: string;
+  added_at: string;
+}
+
+export interface EvalRunRow {
+  id: string;
+  project_id: string;
+  name: string | null;
+  status: LabelJobStatus;
+  config_json: string;
+  provider: string | null;
+  model: string | null;
+  rubric_version: number | null;
+  total_count: number;
+  processed_count: number;
+  failed_count: number;
+  last_error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+export interface EvalResultRow {
+  id: string;
+  eval_run_id: string;
+  model_id: string;
+  expected_grade: Grade;
+  expected_json: string;
+  predicted_grade: Grade | null;
+  predicted_json: string | null;
+  latency_ms: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  image_tokens: number | null;
+  image_count: number | null;
+  cost: number | null;
+  error: string | null;
+  finished_at: string | null;
+}
+
+// Prices per million tokens (and per image, for backends that bill images separately), keyed by model name.
+export interface LabelPriceRow {
+  model: string;
+  input_per_million: number;
+  output_per_million: number;
+  per_image: number;
+  updated_at: string;
+}
+
+export type ReviewAction = "confirm" | "override";
+
+export interface ModelReviewRow {
+  id: string;
+  model_id: string;
+  reviewer: string;
+  action: ReviewAction;
+  grade: Grade;
+  features_json: string | null;
+  comment: string | null;
+  ai_grade: Grade | null;
+  rubric_version: number | null;
+  is_current: number;
+  created_at: string;
+}
+
+export interface RubricRow {
+  version: number;
+  name: string;
+  notes: string | null;
+  grades_json: string;
+  constraints_json: string;
+  features_json: string;
+  tie_breaks_json: string;
+  reference_counts_json: string | null;
+  created_at: string;
+}
+
+export interface ReferenceImageRow {
+  id: string;
+  grade: Grade;
+  filename: string;
+  mime: string;
+  data_base64: string;
+  note: string | null;
+  active: number;
+  sort_order: number;
+  created_at: string;
+  deleted_at: string | null;
+}
+
+export interface ProjectRow {
+  id: string;
+  name: string;
+  description: string | null;
+  archived: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProjectModelRow {
+  project_id: string;
+  model_id: string;
+  added_at: string;
+}
+
+export interface ScheduleRow {
+  id: string;
+  name: string;
+  cron: string;
+  job_type: ScheduleJobType;
+  config_json: string;
+  then_label: number;
+  label_config_json: string | null;
+  missed_policy: ScheduleMissedPolicy;
+  enabled: number;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_job_id: string | null;
+  chained_job_id: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface JobRow {
+  id: string;
+  type: QueueJobType;
+  payload_json: string;
+  state: QueueJobState;
+  lease_owner: string | null;
+  lease_expires_at: string | null;
+  attempts: number;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
 }
 
 export interface Database {
   crawl_jobs: CrawlJobRow;
+  crawl_frontier: CrawlFrontierRow;
+  crawl_failures: CrawlFailureRow;
   label_jobs: LabelJobRow;
   models: ModelRow;
   model_images: ModelImageRow;
+  model_tags: ModelTagRow;
+  model_metrics_snapshots: ModelMetricsSnapshotRow;
   model_labels: ModelLabelRow;
+  schedules: ScheduleRow;
+  jobs: JobRow;
+  projects: ProjectRow;
+  project_models: ProjectModelRow;
+  rubrics: RubricRow;
+  reference_images: ReferenceImageRow;
+  model_reviews: ModelReviewRow;
+  label_runs: LabelRunRow;
+  gold_models: GoldModelRow;
+  eval_runs: EvalRunRow;
+  eval_results: EvalResultRow;
+  label_prices: LabelPriceRow;
+  label_failures: LabelFailureRow;
 }
 
@@ -15,11 +15,43 @@ const EnvSchema = z.object({
     .default(
       "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36",
     ),
+  LABEL_PROVIDER: z.preprocess((v) => (v === "" ? undefined : v), z.enum(["openai", "ark", "chat", "mock"]).optional()),
   OPENAI_API_KEY: z.string().optional(),
+  OPENAI_BASE_URL: z.string().default("https://api.openai.com/v1"),
+  OPENAI_MODEL: z.string().default("gpt-4o-mini"),
   ARK_API_KEY: z.string().optional(),
   ARK_BASE_URL: z.string().default("https://ark.cn-beijing.volces.com/api/v3"),
   ARK_MODEL: z.string().default("doubao-seed-1-8-251228"),
+  LABEL_CHAT_BASE_URL: z.string().optional(),
+  LABEL_CHAT_API_KEY: z.string().optional(),
+  LABEL_CHAT_MODEL: z.string().default(""),
+  LABEL_MOCK_URL: z.string().optional(),
+  LABEL_CONCURRENCY: z.coerce.number().int().min(1).max(16).default(1),
+  LABEL_RPM: z.coerce.number().min(0).default(0),
+  LABEL_TPM: z.coerce.number().min(0).default(0),
+  LABEL_RATE_LIMITS: z.string().optional(),
+  LABEL_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(4),
+  LABEL_REPAIR_ATTEMPTS: z.coerce.number().int().min(0).max(5).default(2),
+  LABEL_IMAGE_TOKEN_ESTIMATE: z.coerce.number().int().min(0).default(1000),
+  IMAGE_CACHE: z.enum(["none", "local", "s3"]).default("local"),
+  // Defaults to image-cache/ next to SQLITE_PATH, so it lives on the same persistent disk as the database.
+  IMAGE_CACHE_DIR: z.string().optional(),
+  IMAGE_CACHE_MAX_BYTES: z.coerce.number().int().min(1).default(15_000_000),
+  IMAGE_CACHE_S3_ENDPOINT: z.string().optional(),
+  IMAGE_CACHE_S3_BUCKET: z.string().optional(),
+  IMAGE_CACHE_S3_REGION: z.string().default("us-east-1"),
+  IMAGE_CACHE_S3_ACCESS_KEY_ID: z.string().optional(),
+  IMAGE_CACHE_S3_SECRET_ACCESS_KEY: z.string().optional(),
+  LABEL_IMAGE_SOURCE: z.enum(["url", "data"]).default("data"),
   WORKER_PUBLIC_BASE_URL: z.string().default("http://localhost:4000"),
+  METRICS_REFRESH_INTERVAL_MINUTES: z.coerce.number().min(0).default(0),
+  METRICS_REFRESH_LIMIT: z.coerce.number().int().min(1).default(500),
+  METRICS_REFRESH_STALE_HOURS: z.coerce.number().min(0).default(24),
+  WORKER_ID: z.string().optional(),
+  JOB_CONCURRENCY_CRAWL: z.coerce.number().int().min(1).default(1),
+  JOB_CONCURRENCY_LABEL: z.coerce.number().int().min(1).default(1),
+  JOB_CONCURRENCY_EVAL: z.coerce.number().int().min(1).default(1),
+  JOB_LEASE_SECONDS: z.coerce.number().int().min(5).default(60),
 });
 
 export type Env = z.infer<typeof EnvSchema>;
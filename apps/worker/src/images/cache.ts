@@ -0,0 +1,117 @@
+import type { Kysely } from "kysely";
+import type { Database } from "../db/types";
+import { env } from "../env";
+import { nowIso } from "../lib/ids";
+import { sniffImage, type ImageMeta } from "./meta";
+import { imageStore, sha256Hex, type ImageStore } from "./store";
+
+export interface DownloadedImage extends ImageMeta {
+  hash: string;
+  bytes: Buffer;
+}
+
+export async function downloadImage(url: string): Promise<DownloadedImage> {
+  const res = await fetch(url, {
+    headers: { "user-agent": env.PLAYWRIGHT_USER_AGENT, referer: "https://makerworld.com/" },
+    signal: AbortSignal.timeout(30_000),
+  });
+  if (!res.ok) throw new Error(`IMAGE_DOWNLOAD_FAILED: ${res.status}`);
+  const declared = Number(res.headers.get("content-length") ?? 0);
+  if (declared > env.IMAGE_CACHE_MAX_BYTES) throw new Error("IMAGE_TOO_LARGE");
+  const bytes = Buffer.from(await res.arrayBuffer());
+  if (bytes.length > env.IMAGE_CACHE_MAX_BYTES) throw new Error("IMAGE_TOO_LARGE");
+  // Trust the bytes rather than the content-type header: CDNs often answer with octet-stream or an HTML error page.
+  const meta = sniffImage(bytes);
+  if (!meta) throw new Error("IMAGE_UNSUPPORTED_FORMAT");
+  return { ...meta, hash: sha256Hex(bytes), bytes };
+}
+
+// Downloads the model's images that are not cached yet. Best effort: it never fails the caller (the model itself is
+// already saved), and an image that could not be cached keeps its remote URL and is retried next time.
+export async function cacheModelImages(db: Kysely<Database>, modelId: string) {
+  return cachePendingImages(db, modelId).catch(() => 0);
+}
+
+async function cachePendingImages(db: Kysely<Database>, modelId: string) {
+  const store = imageStore();
+  if (!store) return 0;
+  const pending = await db
+    .selectFrom("model_images")
+    .select(["id", "url"])
+    .where("model_id", "=", modelId)
+    .where("hash", "is", null)
+    .orderBy("idx", "asc")
+    .execute();
+
+  let cached = 0;
+  for (const row of pending) {
+    try {
+      const image = await downloadImage(row.url);
+      if (!(await store.has(image.hash))) await store.put(image.hash, image.bytes, image.mime);
+      await db
+        .updateTable("model_images")
+        .set({
+          hash: image.hash,
+          mime: image.mime,
+          width: image.width,
+          height: image.height,
+          byte_size: image.bytes.length,
+          cached_at: nowIso(),
+        })
+        .where("id", "=", row.id)
+        .execute();
+      cached++;
+    } catch {}
+  }
+  return cached;
+}
+
+// Relative to the worker: the web app resolves it against its own worker URL (e.g. the /wapi proxy).
+export function cachedImagePath(hash: string) {
+  return `/api/images/${hash}`;
+}
+
+// For when the file behind a recorded hash is gone (e.g. a cache directory that did not survive a redeploy):
+// forget it so the next crawl or label job downloads the image again.
+export async function forgetCachedImage(db: Kysely<Database>, hash: string) {
+  await db
+    .updateTable("model_images")
+    .set({ hash: null, mime: null, width: null, height: null, byte_size: null, cached_at: null })
+    .where("hash", "=", hash)
+    .execute();
+}
+
+// A miss (the store says the file is gone) forgets the record; a store error (outage, timeout) keeps it and only
+// reads as unavailable for now. Either way the caller falls back to the remote URL.
+export async function readCachedImage(db: Kysely<Database>, store: ImageStore, hash: string) {
+  let bytes: Buffer | null;
+  try {
+    bytes = await store.get(hash);
+  } catch {
+    return null;
+  }
+  if (!bytes) await forgetCachedImage(db, hash);
+  return bytes;
+}
+
+// With LABEL_IMAGE_SOURCE=data, cached images are inlined as data URLs so the provider never fetches the (possibly expired) CDN URL.
+export async function labelImageSources(db: Kysely<Database>, modelId: string, urls: string[]) {
+  const store = imageStore();
+  if (!store || env.LABEL_IMAGE_SOURCE !== "data" || urls.length === 0) return urls;
+  const rows = await db
+    .selectFrom("model_images")
+    .select(["url", "hash", "mime"])
+    .where("model_id", "=", modelId)
+    .where("hash", "is not", null)
+    .execute();
+  const byUrl = new Map(rows.map((r) => [r.url, r]));
+
+  return Promise.all(
+    urls.map(async (url) => {
+      const row = byUrl.get(url);
+      if (!row?.hash || !row.mime) return url;
+      const bytes = await readCachedImage(db, store, row.hash);
+      return bytes ? `data:${row.mime};base64,${bytes.toString("base64")}` : url;
+    }),
+  );
+}
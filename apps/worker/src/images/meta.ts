@@ -0,0 +1,71 @@
+export interface ImageMeta {
+  mime: string;
+  width: number | null;
+  height: number | null;
+}
+
+const JPEG_SOF = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+function jpegSize(buf: Buffer) {
+  let offset = 2;
+  while (offset + 9 < buf.length) {
+    if (buf[offset] !== 0xff) return null;
+    const marker = buf[offset + 1];
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    if (JPEG_SOF.has(marker)) return { height: buf.readUInt16BE(offset + 5), width: buf.readUInt16BE(offset + 7) };
+    offset += 2 + buf.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function webpSize(buf: Buffer) {
+  const chunk = buf.toString("ascii", 12, 16);
+  if (chunk === "VP8 " && buf.length >= 30) {
+    return { width: buf.readUInt16LE(26) & 0x3fff, height: buf.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === "VP8L" && buf.length >= 25) {
+    const b = buf.subarray(21, 25);
+    return { width: 1 + (((b[1] & 0x3f) << 8) | b[0]), height: 1 + (((b[3] & 0x0f) << 10) | (b[2] << 2) | ((b[1] & 0xc0) >> 6)) };
+  }
+  if (chunk === "VP8X" && buf.length >= 30) {
+    return { width: 1 + buf.readUIntLE(24, 3), height: 1 + buf.readUIntLE(27, 3) };
+  }
+  return null;
+}
+
+// AVIF keeps the size in an `ispe` box; the first one is the primary image in practice.
+function avifSize(buf: Buffer) {
+  const at = buf.indexOf("ispe", 0, "ascii");
+  if (at < 0 || at + 16 > buf.length) return null;
+  return { width: buf.readUInt32BE(at + 8), height: buf.readUInt32BE(at + 12) };
+}
+
+// Reads the format and pixel size from the file header; null when the bytes are not a known image format.
+export function sniffImage(buf: Buffer): ImageMeta | null {
+  if (buf.length >= 24 && buf.readUInt32BE(0) === 0x89504e47) {
+    return { mime: "image/png", width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) };
+  }
+  if (buf.length >= 4 && buf[0] === 0xff && buf[1] === 0xd8) {
+    const size = jpegSize(buf);
+    return { mime: "image/jpeg", width: size?.width ?? null, height: size?.height ?? null };
+  }
+  if (buf.length >= 10 && buf.toString("ascii", 0, 4) === "GIF8") {
+    return { mime: "image/gif", width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) };
+  }
+  if (buf.length >= 16 && buf.toString("ascii", 0, 4) === "RIFF" && buf.toString("ascii", 8, 12) === "WEBP") {
+    const size = webpSize(buf);
+    return { mime: "image/webp", width: size?.width ?? null, height: size?.height ?? null };
+  }
+  if (buf.length >= 12 && buf.toString("ascii", 4, 8) === "ftyp" && /^avi[fs]$/.test(buf.toString("ascii", 8, 12))) {
+    const size = avifSize(buf);
+    return { mime: "image/avif", width: size?.width ?? null, height: size?.height ?? null };
+  }
+  return null;
+}
@@ -0,0 +1,141 @@
+import { createHash, createHmac } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { env } from "../env";
+
+// Content-addressed: the key is the sha256 of the bytes, so an image is stored once however many models use it.
+export interface ImageStore {
+  kind: "local" | "s3";
+  has(hash: string): Promise<boolean>;
+  get(hash: string): Promise<Buffer | null>;
+  put(hash: string, bytes: Buffer, mime: string): Promise<void>;
+}
+
+export function sha256Hex(data: Buffer | string) {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+export function localImageStore(dir: string): ImageStore {
+  const root = path.resolve(dir);
+  const file = (hash: string) => path.join(root, hash.slice(0, 2), hash);
+  return {
+    kind: "local",
+    async has(hash) {
+      return fs.access(file(hash)).then(
+        () => true,
+        () => false,
+      );
+    },
+    async get(hash) {
+      return fs.readFile(file(hash)).catch((err: NodeJS.ErrnoException) => {
+        if (err.code === "ENOENT") return null;
+        throw err;
+      });
+    },
+    async put(hash, bytes) {
+      const target = file(hash);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      // Write then rename so a reader never sees a half-written file.
+      const tmp = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, bytes);
+      await fs.rename(tmp, target);
+    },
+  };
+}
+
+export interface S3Config {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const hmac = (key: Buffer | string, data: string) => createHmac("sha256", key).update(data).digest();
+
+// AWS Signature V4 with path-style URLs, which MinIO and most S3-compatible services accept.
+function signedHeaders(config: S3Config, method: string, url: URL, payloadHash: string, now = new Date()) {
+  const amzDate = now.toISOString().replace(/[-:]|\.\d{3}/g, "");
+  const day = amzDate.slice(0, 8);
+  const headers: Record<string, string> = {
+    host: url.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+  };
+  const names = Object.keys(headers).sort();
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    "",
+    ...names.map((n) => `${n}:${headers[n]}`),
+    "",
+    names.join(";"),
+    payloadHash,
+  ].join("\n");
+  const scope = `${day}/${config.region}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, day), config.region), "s3"), "aws4_request");
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+  return {
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+    authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${names.join(";")}, Signature=${signature}`,
+  };
+}
+
+export function s3ImageStore(config: S3Config): ImageStore {
+  const objectUrl = (hash: string) => new URL(`${config.endpoint.replace(/\/+$/g, "")}/${config.bucket}/${hash.slice(0, 2)}/${hash}`);
+  const emptyHash = sha256Hex("");
+  const send = (method: string, hash: string, body?: Buffer, mime?: string) => {
+    const url = objectUrl(hash);
+    // The object key is the content hash, so it doubles as the payload hash for uploads.
+    const headers = signedHeaders(config, method, url, body ? hash : emptyHash);
+    return fetch(url, {
+      method,
+      headers: { ...headers, ...(mime ? { "content-type": mime } : {}) },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  };
+  return {
+    kind: "s3",
+    async has(hash) {
+      return (await send("HEAD", hash)).ok;
+    },
+    async get(hash) {
+      const res = await send("GET", hash);
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`IMAGE_STORE_ERROR: ${res.status} ${await res.text()}`);
+      return Buffer.from(await res.arrayBuffer());
+    },
+    async put(hash, bytes, mime) {
+      const res = await send("PUT", hash, bytes, mime);
+      if (!res.ok) throw new Error(`IMAGE_STORE_ERROR: ${res.status} ${await res.text()}`);
+    },
+  };
+}
+
+let store: ImageStore | null | undefined;
+
+// null when IMAGE_CACHE=none: images are then only referenced by their remote URL.
+export function imageStore(): ImageStore | null {
+  if (store !== undefined) return store;
+  if (env.IMAGE_CACHE === "s3") {
+    const { IMAGE_CACHE_S3_ENDPOINT, IMAGE_CACHE_S3_BUCKET, IMAGE_CACHE_S3_ACCESS_KEY_ID, IMAGE_CACHE_S3_SECRET_ACCESS_KEY } = env;
+    if (!IMAGE_CACHE_S3_ENDPOINT || !IMAGE_CACHE_S3_BUCKET || !IMAGE_CACHE_S3_ACCESS_KEY_ID || !IMAGE_CACHE_S3_SECRET_ACCESS_KEY) {
+      throw new Error("IMAGE_CACHE_S3_NOT_CONFIGURED");
+    }
+    store = s3ImageStore({
+      endpoint: IMAGE_CACHE_S3_ENDPOINT,
+      bucket: IMAGE_CACHE_S3_BUCKET,
+      region: env.IMAGE_CACHE_S3_REGION,
+      accessKeyId: IMAGE_CACHE_S3_ACCESS_KEY_ID,
+      secretAccessKey: IMAGE_CACHE_S3_SECRET_ACCESS_KEY,
+    });
+  } else {
+    store =
+      env.IMAGE_CACHE === "local"
+        ? localImageStore(env.IMAGE_CACHE_DIR?.trim() || path.join(path.dirname(env.SQLITE_PATH), "image-cache"))
+        : null;
+  }
+  return store;
+}
@@ -1,14 +1,274 @@
+import os from "node:os";
 import express from "express";
 import cors from "cors";
 import { z } from "zod";
+import { sql } from "kysely";
 import { createDb } from "./db/db";
+import type { ScheduleJobType } from "./db/types";
 import { env } from "./env";
 import { randomId, nowIso } from "./lib/ids";
-import { runCrawlJob, type CrawlJobConfig } from "./jobs/crawl";
+import { latestCookieHeader, runCrawlJob, type CrawlJobConfig } from "./jobs/crawl";
 import { createContext, scrapeModelPage, scrapeModelPageInContext } from "./crawler/makerworld";
 import { runLabelJob, type LabelJobConfig } from "./jobs/label";
+import { runEvalJob, type EvalRunConfig } from "./jobs/evaluate";
+import { LABEL_PROVIDER_NAMES, listLabelProviders, resolveLabelProvider } from "./label/providers";
+import { resetFailedFrontier } from "./jobs/frontier";
+import { loadModelTags, saveScrapedModel } from "./db/models";
+import { DEFAULT_PROJECT_ID, deleteProject, projectError } from "./db/projects";
+import { createRubricVersion, loadRubric, rubricFromRow } from "./db/rubrics";
+import { selectReferenceImageIds } from "./db/references";
+import { addReview, finalLabel } from "./db/reviews";
+import { decodeReviewCursor, loadReviewQueue, REVIEW_QUEUE_STRATEGIES } from "./db/reviewQueue";
+import { labelJobDiff } from "./db/labelRuns";
+import { addGoldModels, evalRunReport, listGoldModels } from "./db/evaluations";
+import { listLabelPrices, saveLabelPrice } from "./db/prices";
+import { defaultReferenceCounts, FEATURE_KEYS } from "./label/rubric";
+import { CONSENSUS_METHODS } from "./label/consensus";
+import { projectedRemainingCost } from "./label/cost";
+import { computeGrowth } from "./lib/metrics";
+import { imageStore } from "./images/store";
+import { readCachedImage } from "./images/cache";
+import { buildSourcePlan, DiscoverySourceSchema } from "./crawler/sources";
+import { enqueueJob, startRunner } from "./jobs/runner";
+import { summarizeJob } from "./jobs/history";
+import { publishJobEvent, recentJobEvents, subscribeJobEvents } from "./lib/events";
+import { computeNextRun, runScheduleNow, startScheduler, type ScheduleLaunchers } from "./jobs/scheduler";
 
 const db = createDb();
+// Surfaces a misconfigured image cache (e.g. IMAGE_CACHE=s3 without credentials) at startup instead of during jobs.
+imageStore();
+
+// z.coerce.boolean() would read "false" and "0" as true.
+const queryFlag = z.enum(["true", "false", "1", "0"]).transform((v) => v === "true" || v === "1");
+
+const projectQuerySchema = z.object({
+  projectId: z.string().min(1).default(DEFAULT_PROJECT_ID),
+});
+
+const crawlJobInputSchema = z.object({
+  startUrl: z.string().default("https://makerworld.com/zh/3d-models"),
+  source: DiscoverySourceSchema.optional(),
+  limitModels: z.number().int().min(1).max(50000).default(200),
+  maxScrolls: z.number().int().min(1).max(5000).default(60),
+  concurrency: z.number().int().min(1).max(5).default(1),
+  delayMs: z.number().int().min(0).max(5000).default(1200),
+  maxAttempts: z.number().int().min(1).max(10).default(3),
+  retryBaseDelayMs: z.number().int().min(0).max(600000).default(5000),
+  cookieHeader: z.string().optional(),
+  projectId: z.string().min(1).default(DEFAULT_PROJECT_ID),
+});
+
+const refreshJobInputSchema = z.object({
+  limitModels: z.number().int().min(1).max(50000).default(500),
+  staleHours: z.number().min(0).max(24 * 365).default(24),
+  concurrency: z.number().int().min(1).max(5).default(1),
+  delayMs: z.number().int().min(0).max(5000).default(1200),
+  maxAttempts: z.number().int().min(1).max(10).default(3),
+  cookieHeader: z.string().optional(),
+  projectId: z.string().min(1).optional(),
+});
+
+const labelJobInputSchema = z.object({
+  limit: z.number().int().min(1).max(50000).optional(),
+  projectId: z.string().min(1).default(DEFAULT_PROJECT_ID),
+  provider: z.enum(LABEL_PROVIDER_NAMES).optional(),
+  rubricVersion: z.number().int().min(1).optional(),
+  samples: z.number().int().min(1).max(9).optional(),
+  sampleProviders: z.array(z.enum(LABEL_PROVIDER_NAMES)).max(9).optional(),
+  consensus: z.enum(CONSENSUS_METHODS).optional(),
+  concurrency: z.number().int().min(1).max(16).optional(),
+  budget: z.number().positive().optional(),
+  mode: z.enum(["unlabeled", "relabel"]).optional(),
+  filter: z
+    .object({
+      grades: z.array(z.enum(["S", "A", "B", "C", "D"])).optional(),
+      labeledAfter: z.coerce.date().transform((d) => d.toISOString()).optional(),
+      labeledBefore: z.coerce.date().transform((d) => d.toISOString()).optional(),
+      providers: z.array(z.enum(LABEL_PROVIDER_NAMES)).optional(),
+    })
+    .optional(),
+});
+
+const rubricLine = z.string().trim().min(1).max(2000);
+const referenceCount = z.number().int().min(0).max(5);
+
+const rubricInputSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  notes: z.string().max(2000).nullable().optional(),
+  grades: z.object({ S: rubricLine, A: rubricLine, B: rubricLine, C: rubricLine, D: rubricLine }),
+  constraints: z.array(rubricLine).max(50),
+  features: z
+    .array(z.object({ key: z.enum(FEATURE_KEYS), label: z.string().trim().min(1).max(200), definition: rubricLine }))
+    .max(FEATURE_KEYS.length)
+    .refine((features) => new Set(features.map((f) => f.key)).size === features.length, "duplicate feature key"),
+  tieBreaks: z.array(rubricLine).max(20),
+  referenceCounts: z
+    .object({
+      S: referenceCount,
+      A: referenceCount,
+      B: referenceCount,
+      C: referenceCount,
+      D: referenceCount,
+    })
+    .default(defaultReferenceCounts),
+});
+
+function labelConfigFromInput(input: z.infer<typeof labelJobInputSchema>): LabelJobConfig {
+  return {
+    limit: input.limit ?? null,
+    projectId: input.projectId,
+    provider: input.provider,
+    rubricVersion: input.rubricVersion,
+    samples: input.samples,
+    sampleProviders: input.sampleProviders?.length ? input.sampleProviders : undefined,
+    consensus: input.consensus,
+    concurrency: input.concurrency,
+    budget: input.budget,
+    mode: input.mode,
+    filter: input.mode === "relabel" ? input.filter : undefined,
+  };
+}
+
+function crawlConfigFromInput(input: z.infer<typeof crawlJobInputSchema>): CrawlJobConfig {
+  const source = input.source ?? { type: "url" as const, url: input.startUrl };
+  return {
+    startUrl: buildSourcePlan(source).startUrl,
+    source,
+    limitModels: input.limitModels,
+    maxScrolls: input.maxScrolls,
+    concurrency: input.concurrency,
+    delayMs: input.delayMs,
+    maxAttempts: input.maxAttempts,
+    retryBaseDelayMs: input.retryBaseDelayMs,
+    cookieHeader: input.cookieHeader,
+    projectId: input.projectId,
+  };
+}
+
+async function startCrawlJob(config: CrawlJobConfig) {
+  if (config.projectId) {
+    const error = await projectError(db, config.projectId);
+    if (error) throw new Error(error);
+  }
+  const id = randomId("crawl");
+  await db
+    .insertInto("crawl_jobs")
+    .values({
+      id,
+      status: "queued",
+      created_at: nowIso(),
+      started_at: null,
+      finished_at: null,
+      config_json: JSON.stringify(config),
+      discovered_count: 0,
+      processed_count: 0,
+      failed_count: 0,
+      last_error: null,
+      discovery_done: 0,
+      scroll_count: 0,
+      project_id: config.projectId ?? null,
+    })
+    .execute();
+
+  await enqueueJob(db, "crawl", id, { crawlJobId: id });
+  return id;
+}
+
+async function startRefreshJob(input: {
+  limitModels: number;
+  staleHours: number;
+  concurrency?: number;
+  delayMs?: number;
+  maxAttempts?: number;
+  cookieHeader?: string;
+  projectId?: string;
+}) {
+  return startCrawlJob({
+    mode: "refresh",
+    staleHours: input.staleHours,
+    startUrl: "",
+    limitModels: input.limitModels,
+    maxScrolls: 0,
+    concurrency: input.concurrency ?? 1,
+    delayMs: input.delayMs ?? 1200,
+    maxAttempts: input.maxAttempts ?? 3,
+    cookieHeader: input.cookieHeader,
+    projectId: input.projectId,
+  });
+}
+
+async function labelJobConfigError(config: LabelJobConfig) {
+  if (config.projectId) {
+    const error = await projectError(db, config.projectId);
+    if (error) return error;
+  }
+  try {
+    resolveLabelProvider(config.provider);
+    for (const name of config.sampleProviders ?? []) resolveLabelProvider(name);
+    await loadRubric(db, config.rubricVersion);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+async function startLabelJob(config: LabelJobConfig) {
+  if (config.projectId) {
+    const error = await projectError(db, config.projectId);
+    if (error) throw new Error(error);
+  }
+  resolveLabelProvider(config.provider);
+  for (const name of config.sampleProviders ?? []) resolveLabelProvider(name);
+  // Pin the rubric and reference images at creation so the job, its clones and its labels all refer to one selection.
+  const rubric = await loadRubric(db, config.rubricVersion);
+  const id = randomId("label");
+  await db
+    .insertInto("label_jobs")
+    .values({
+      id,
+      status: "queued",
+      created_at: nowIso(),
+      started_at: null,
+      finished_at: null,
+      config_json: JSON.stringify({
+        ...config,
+        rubricVersion: rubric.version,
+        referenceImageIds: config.referenceImageIds ?? (await selectReferenceImageIds(db, rubric.referenceCounts)),
+      }),
+      total_count: 0,
+      processed_count: 0,
+      failed_count: 0,
+      last_error: null,
+      project_id: config.projectId ?? null,
+      call_count: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+      image_tokens: 0,
+      latency_ms: 0,
+      unpriced_count: 0,
+      cost: 0,
+      budget: config.budget ?? null,
+    })
+    .execute();
+
+  await enqueueJob(db, "label", id, { labelJobId: id });
+  return id;
+}
+
+const scheduleLaunchers: ScheduleLaunchers = {
+  crawl: async (config) => {
+    const input = crawlJobInputSchema.parse(config);
+    return startCrawlJob({ ...crawlConfigFromInput(input), cookieHeader: input.cookieHeader ?? (await latestCookieHeader(db)) });
+  },
+  refresh: async (config) => {
+    const input = refreshJobInputSchema.parse(config);
+    return startRefreshJob({ ...input, cookieHeader: input.cookieHeader ?? (await latestCookieHeader(db)) });
+  },
+  label: async (config) => {
+    const input = labelJobInputSchema.parse(config);
+    return startLabelJob(labelConfigFromInput(input));
+  },
+};
 
 const app = express();
 app.use(cors());
@@ -24,6 +284,10 @@ app.get("/api/env-status", async (_req, res) => {
     hasOpenAIKey: Boolean(env.OPENAI_API_KEY && env.OPENAI_API_KEY.trim()),
     arkBaseUrl: env.ARK_BASE_URL,
     arkModel: env.ARK_MODEL,
+    labelProvider: env.LABEL_PROVIDER ?? null,
+    labelProviders: listLabelProviders(),
+    imageCache: env.IMAGE_CACHE,
+    labelImageSource: env.LABEL_IMAGE_SOURCE,
   });
 });
 
@@ -31,66 +295,277 @@ app.post("/api/db/migrate", async (_req, res) => {
   res.status(400).json({ error: "use npm run db:migrate" });
 });
 
-app.post("/api/crawl-jobs", async (req, res) => {
+app.get("/api/projects", async (req, res) => {
+  const schema = z.object({ includeArchived: queryFlag.optional() });
+  const input = schema.parse(req.query);
+  let q = db.selectFrom("projects").selectAll().orderBy("created_at", "asc");
+  if (!input.includeArchived) q = q.where("archived", "=", 0);
+  const projects = await q.execute();
+
+  const modelCounts = await db
+    .selectFrom("project_models")
+    .select(["project_id"])
+    .select((eb) => eb.fn.countAll().as("count"))
+    .groupBy("project_id")
+    .execute();
+  const labeledCounts = await db
+    .selectFrom("project_models")
+    .innerJoin("model_labels", "model_labels.model_id", "project_models.model_id")
+    .select(["project_models.project_id as project_id"])
+    .select((eb) => eb.fn.countAll().as("count"))
+    .groupBy("project_models.project_id")
+    .execute();
+  const modelsBy = new Map(modelCounts.map((r) => [r.project_id, Number((r as any).count)]));
+  const labeledBy = new Map(labeledCounts.map((r) => [r.project_id, Number((r as any).count)]));
+
+  res.json({
+    rows: projects.map((p) => ({
+      ...p,
+      modelCount: modelsBy.get(p.id) ?? 0,
+      labeledCount: labeledBy.get(p.id) ?? 0,
+    })),
+  });
+});
+
+app.post("/api/projects", async (req, res) => {
   const schema = z.object({
-    startUrl: z.string().default("https://makerworld.com/zh/3d-models"),
-    limitModels: z.number().int().min(1).max(50000).default(200),
-    maxScrolls: z.number().int().min(1).max(5000).default(60),
-    concurrency: z.number().int().min(1).max(5).default(1),
-    delayMs: z.number().int().min(0).max(5000).default(1200),
-    cookieHeader: z.string().optional(),
-    clearHistory: z.boolean().default(true),
+    name: z.string().trim().min(1).max(200),
+    description: z.string().max(2000).optional(),
   });
+  const input = schema.parse(req.body ?? {});
+  const id = randomId("proj");
+  const now = nowIso();
+  await db
+    .insertInto("projects")
+    .values({ id, name: input.name, description: input.description ?? null, archived: 0, created_at: now, updated_at: now })
+    .execute();
+  res.json({ id });
+});
 
+app.patch("/api/projects/:id", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const schema = z.object({
+    name: z.string().trim().min(1).max(200).optional(),
+    description: z.string().max(2000).nullable().optional(),
+    archived: z.boolean().optional(),
+  });
   const input = schema.parse(req.body ?? {});
+  if (input.archived && id === DEFAULT_PROJECT_ID) {
+    return res.status(400).json({ error: "DEFAULT_PROJECT_PROTECTED" });
+  }
+  const result = await db
+    .updateTable("projects")
+    .set({
+      ...(input.name !== undefined ? { name: input.name } : {}),
+      ...(input.description !== undefined ? { description: input.description } : {}),
+      ...(input.archived !== undefined ? { archived: input.archived ? 1 : 0 } : {}),
+      updated_at: nowIso(),
+    })
+    .where("id", "=", id)
+    .executeTakeFirst();
+  if (Number(result.numUpdatedRows) === 0) return res.status(404).json({ error: "not found" });
+  res.json({ ok: true });
+});
 
-  if (input.clearHistory) {
-    const now = nowIso();
-    await db
-      .updateTable("crawl_jobs")
-      .set({ status: "failed", finished_at: now, last_error: "CLEARED_BY_NEW_CRAWL" })
-      .where("finished_at", "is", null)
-      .execute();
+app.delete("/api/projects/:id", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  if (id === DEFAULT_PROJECT_ID) return res.status(400).json({ error: "DEFAULT_PROJECT_PROTECTED" });
+  const project = await db.selectFrom("projects").select(["id"]).where("id", "=", id).executeTakeFirst();
+  if (!project) return res.status(404).json({ error: "not found" });
+
+  const result = await deleteProject(db, id);
+
+  const schedules = await db.selectFrom("schedules").select(["id", "config_json", "label_config_json"]).execute();
+  for (const sch of schedules) {
+    const refs = [sch.config_json, sch.label_config_json].some((j) => j && JSON.parse(j).projectId === id);
+    if (!refs) continue;
     await db
-      .updateTable("label_jobs")
-      .set({ status: "failed", finished_at: now, last_error: "CLEARED_BY_NEW_CRAWL" })
-      .where("finished_at", "is", null)
+      .updateTable("schedules")
+      .set({ enabled: 0, next_run_at: null, last_error: "PROJECT_DELETED", updated_at: nowIso() })
+      .where("id", "=", sch.id)
       .execute();
-    await db.deleteFrom("model_labels").execute();
-    await db.deleteFrom("model_images").execute();
-    await db.deleteFrom("models").execute();
   }
 
-  const id = randomId("crawl");
-  const config: CrawlJobConfig = {
-    startUrl: input.startUrl,
-    limitModels: input.limitModels,
-    maxScrolls: input.maxScrolls,
-    concurrency: input.concurrency,
-    delayMs: input.delayMs,
-    cookieHeader: input.cookieHeader,
-  };
+  res.json({ ok: true, ...result });
+});
+
+app.get("/api/rubrics", async (_req, res) => {
+  const rows = await db
+    .selectFrom("rubrics")
+    .select(["version", "name", "notes", "created_at"])
+    .orderBy("version", "desc")
+    .execute();
+  const labelCounts = await db
+    .selectFrom("model_labels")
+    .select(["rubric_version"])
+    .select((eb) => eb.fn.countAll().as("count"))
+    .groupBy("rubric_version")
+    .execute();
+  const countBy = new Map(labelCounts.map((r) => [r.rubric_version, Number((r as any).count)]));
+  res.json({ rows: rows.map((r) => ({ ...r, labelCount: countBy.get(r.version) ?? 0 })) });
+});
 
+app.get("/api/rubrics/:version", async (req, res) => {
+  const raw = z.string().parse(req.params.version);
+  const version = raw === "latest" ? undefined : z.coerce.number().int().min(1).parse(raw);
+  const row = await db
+    .selectFrom("rubrics")
+    .selectAll()
+    .$if(version !== undefined, (q) => q.where("version", "=", version!))
+    .orderBy("version", "desc")
+    .limit(1)
+    .executeTakeFirst();
+  if (!row) return res.status(404).json({ error: "not found" });
+  res.json(rubricFromRow(row));
+});
+
+app.post("/api/rubrics", async (req, res) => {
+  const input = rubricInputSchema.parse(req.body ?? {});
+  const version = await createRubricVersion(db, input);
+  res.json({ version });
+});
+
+const REFERENCE_MIME_TYPES = ["image/png", "image/jpeg", "image/webp"] as const;
+
+app.get("/api/references", async (req, res) => {
+  const schema = z.object({ rubricVersion: z.coerce.number().int().min(1).optional() });
+  const input = schema.parse(req.query);
+  const rows = await db
+    .selectFrom("reference_images")
+    .select(["id", "grade", "filename", "mime", "note", "active", "sort_order", "created_at"])
+    .select(sql<number>`length(data_base64)`.as("base64_length"))
+    .where("deleted_at", "is", null)
+    .orderBy("grade")
+    .orderBy("sort_order", "asc")
+    .orderBy("created_at", "asc")
+    .execute();
+  const rubric = await loadRubric(db, input.rubricVersion);
+  const selected = new Set(await selectReferenceImageIds(db, rubric.referenceCounts));
+  res.json({
+    rubricVersion: rubric.version,
+    referenceCounts: rubric.referenceCounts,
+    rows: rows.map(({ base64_length, ...r }) => ({
+      ...r,
+      size: Math.floor((Number(base64_length) * 3) / 4),
+      selected: selected.has(r.id),
+    })),
+  });
+});
+
+app.get("/api/references/:id/image", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const row = await db
+    .selectFrom("reference_images")
+    .select(["mime", "data_base64"])
+    .where("id", "=", id)
+    .executeTakeFirst();
+  if (!row) return res.status(404).json({ error: "not found" });
+  res.setHeader("content-type", row.mime);
+  res.setHeader("cache-control", "public, max-age=86400, immutable");
+  res.send(Buffer.from(row.data_base64, "base64"));
+});
+
+// Cached model images are addressed by the sha256 of their bytes, so the response never changes.
+app.get("/api/images/:hash", async (req, res) => {
+  const hash = z.string().regex(/^[a-f0-9]{64}$/).safeParse(req.params.hash);
+  if (!hash.success) return res.status(400).json({ error: "invalid hash" });
+  const store = imageStore();
+  if (!store) return res.status(404).json({ error: "image cache disabled" });
+  const row = await db.selectFrom("model_images").select(["mime", "url"]).where("hash", "=", hash.data).limit(1).executeTakeFirst();
+  if (!row?.mime) return res.status(404).json({ error: "not found" });
+  const bytes = await readCachedImage(db, store, hash.data);
+  // Missing or unreachable: send the browser to the original URL.
+  if (!bytes) return res.redirect(302, row.url);
+  res.setHeader("content-type", row.mime);
+  res.setHeader("cache-control", "public, max-age=31536000, immutable");
+  res.send(bytes);
+});
+
+// The image is the raw request body; metadata comes in the query string.
+app.post("/api/references", express.raw({ type: [...REFERENCE_MIME_TYPES], limit: "10mb" }), async (req, res) => {
+  const schema = z.object({
+    grade: z.enum(["S", "A", "B", "C", "D"]),
+    filename: z.string().trim().min(1).max(200).default("upload"),
+    note: z.string().max(500).optional(),
+  });
+  const input = schema.parse(req.query);
+  const mime = (req.headers["content-type"] ?? "").split(";")[0].trim();
+  if (!(REFERENCE_MIME_TYPES as readonly string[]).includes(mime) || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return res.status(400).json({ error: "REFERENCE_IMAGE_INVALID" });
+  }
+  const last = await db
+    .selectFrom("reference_images")
+    .select((eb) => eb.fn.max("sort_order").as("max"))
+    .where("grade", "=", input.grade)
+    .where("deleted_at", "is", null)
+    .executeTakeFirst();
+  const id = randomId("ref");
   await db
-    .insertInto("crawl_jobs")
+    .insertInto("reference_images")
     .values({
       id,
-      status: "queued",
+      grade: input.grade,
+      filename: input.filename,
+      mime,
+      data_base64: req.body.toString("base64"),
+      note: input.note?.trim() ? input.note.trim() : null,
+      active: 1,
+      sort_order: last?.max === null || last?.max === undefined ? 0 : Number(last.max) + 1,
       created_at: nowIso(),
-      started_at: null,
-      finished_at: null,
-      config_json: JSON.stringify(config),
-      discovered_count: 0,
-      processed_count: 0,
-      failed_count: 0,
-      last_error: null,
+      deleted_at: null,
     })
     .execute();
+  res.json({ id });
+});
 
-  setTimeout(() => {
-    runCrawlJob(db, id).catch(() => {});
-  }, 50);
+app.patch("/api/references/:id", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const schema = z.object({
+    note: z.string().max(500).nullable().optional(),
+    active: z.boolean().optional(),
+    sortOrder: z.number().int().min(0).max(10000).optional(),
+  });
+  const input = schema.parse(req.body ?? {});
+  const result = await db
+    .updateTable("reference_images")
+    .set({
+      ...(input.note !== undefined ? { note: input.note?.trim() ? input.note.trim() : null } : {}),
+      ...(input.active !== undefined ? { active: input.active ? 1 : 0 } : {}),
+      ...(input.sortOrder !== undefined ? { sort_order: input.sortOrder } : {}),
+    })
+    .where("id", "=", id)
+    .where("deleted_at", "is", null)
+    .executeTakeFirst();
+  if (Number(result.numUpdatedRows) === 0) return res.status(404).json({ error: "not found" });
+  res.json({ ok: true });
+});
 
+// Soft delete: jobs that already recorded this image keep sending it.
+app.delete("/api/references/:id", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const result = await db
+    .updateTable("reference_images")
+    .set({ deleted_at: nowIso() })
+    .where("id", "=", id)
+    .where("deleted_at", "is", null)
+    .executeTakeFirst();
+  if (Number(result.numUpdatedRows) === 0) return res.status(404).json({ error: "not found" });
+  res.json({ ok: true });
+});
+
+app.post("/api/crawl-jobs", async (req, res) => {
+  const input = crawlJobInputSchema.parse(req.body ?? {});
+  const error = await projectError(db, input.projectId);
+  if (error) return res.status(400).json({ error });
+  const id = await startCrawlJob(crawlConfigFromInput(input));
+  res.json({ id });
+});
+
+app.post("/api/refresh-jobs", async (req, res) => {
+  const input = refreshJobInputSchema.parse(req.body ?? {});
+  const error = input.projectId ? await projectError(db, input.projectId) : null;
+  if (error) return res.status(400).json({ error });
+  const id = await startRefreshJob({ ...input, cookieHeader: input.cookieHeader ?? (await latestCookieHeader(db)) });
   res.json({ id });
 });
 
@@ -98,26 +573,11 @@ app.post("/api/import-models", async (req, res) => {
   const schema = z.object({
     urls: z.array(z.string().min(1)).min(1).max(50),
     cookieHeader: z.string().optional(),
-    clearHistory: z.boolean().default(true),
+    projectId: z.string().min(1).default(DEFAULT_PROJECT_ID),
   });
   const input = schema.parse(req.body ?? {});
-
-  if (input.clearHistory) {
-    const now = nowIso();
-    await db
-      .updateTable("crawl_jobs")
-      .set({ status: "failed", finished_at: now, last_error: "CLEARED_BY_IMPORT" })
-      .where("finished_at", "is", null)
-      .execute();
-    await db
-      .updateTable("label_jobs")
-      .set({ status: "failed", finished_at: now, last_error: "CLEARED_BY_IMPORT" })
-      .where("finished_at", "is", null)
-      .execute();
-    await db.deleteFrom("model_labels").execute();
-    await db.deleteFrom("model_images").execute();
-    await db.deleteFrom("models").execute();
-  }
+  const error = await projectError(db, input.projectId);
+  if (error) return res.status(400).json({ error });
 
   const { browser, context } = await createContext({ cookieHeader: input.cookieHeader });
   try {
@@ -126,48 +586,7 @@ app.post("/api/import-models", async (req, res) => {
       const scraped = await scrapeModelPageInContext(context, { url });
       ids.push(scraped.id);
 
-      const cover = scraped.imageUrls[0] ?? null;
-      const now = nowIso();
-      await db
-        .insertInto("models")
-        .values({
-          id: scraped.id,
-          url: scraped.url,
-          title: scraped.title,
-          author_name: scraped.authorName,
-          download_count: scraped.downloadCount,
-          cover_image_url: cover,
-          description: scraped.description,
-          created_at: now,
-          updated_at: now,
-        })
-        .onConflict((oc) =>
-          oc.column("id").doUpdateSet({
-            url: scraped.url,
-            title: scraped.title,
-            author_name: scraped.authorName,
-            download_count: scraped.downloadCount,
-            cover_image_url: cover,
-            description: scraped.description,
-            updated_at: now,
-          }),
-        )
-        .execute();
-
-      await db.deleteFrom("model_images").where("model_id", "=", scraped.id).execute();
-      if (scraped.imageUrls.length > 0) {
-        await db
-          .insertInto("model_images")
-          .values(
-            scraped.imageUrls.map((u, idx) => ({
-              id: `${scraped.id}_${idx}`,
-              model_id: scraped.id,
-              idx,
-              url: u,
-            })),
-          )
-          .execute();
-      }
+      await saveScrapedModel(db, scraped, input.projectId);
     }
     res.json({ ids });
   } finally {
@@ -176,6 +595,37 @@ app.post("/api/import-models", async (req, res) => {
   }
 });
 
+const jobListSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(20),
+  status: z
+    .string()
+    .optional()
+    .transform((v) => (v ? v.split(",").map((x) => x.trim()).filter(Boolean) : []))
+    .pipe(z.array(z.enum(["queued", "running", "paused", "completed", "failed", "cancelled"]))),
+  projectId: z.string().min(1).optional(),
+});
+
+app.get("/api/crawl-jobs", async (req, res) => {
+  const input = jobListSchema.parse(req.query);
+  let q = db.selectFrom("crawl_jobs");
+  if (input.status.length > 0) q = q.where("status", "in", input.status);
+  if (input.projectId) q = q.where("project_id", "=", input.projectId);
+  const total = await q.select((eb) => eb.fn.countAll().as("count")).executeTakeFirstOrThrow();
+  const rows = await q
+    .selectAll()
+    .orderBy("created_at", "desc")
+    .limit(input.pageSize)
+    .offset((input.page - 1) * input.pageSize)
+    .execute();
+  res.json({
+    page: input.page,
+    pageSize: input.pageSize,
+    total: Number((total as any).count),
+    rows: rows.map((r) => summarizeJob(r, r.processed_count)),
+  });
+});
+
 app.get("/api/crawl-jobs/:id", async (req, res) => {
   const id = z.string().parse(req.params.id);
   const job = await db.selectFrom("crawl_jobs").selectAll().where("id", "=", id).executeTakeFirst();
@@ -183,45 +633,190 @@ app.get("/api/crawl-jobs/:id", async (req, res) => {
   res.json(job);
 });
 
-app.get("/api/crawl-jobs-latest", async (_req, res) => {
-  const job = await db.selectFrom("crawl_jobs").selectAll().orderBy("created_at", "desc").limit(1).executeTakeFirst();
+app.get("/api/crawl-jobs-latest", async (req, res) => {
+  const { projectId } = projectQuerySchema.parse(req.query);
+  const job = await db
+    .selectFrom("crawl_jobs")
+    .selectAll()
+    .where("project_id", "=", projectId)
+    .orderBy("created_at", "desc")
+    .limit(1)
+    .executeTakeFirst();
   if (!job) return res.status(404).json({ error: "not found" });
   res.json(job);
 });
 
 app.post("/api/crawl-jobs/:id/pause", async (req, res) => {
   const id = z.string().parse(req.params.id);
-  await db.updateTable("crawl_jobs").set({ status: "paused" }).where("id", "=", id).execute();
+  await db
+    .updateTable("crawl_jobs")
+    .set({ status: "paused" })
+    .where("id", "=", id)
+    .where("finished_at", "is", null)
+    .execute();
   res.json({ ok: true });
 });
 
 app.post("/api/crawl-jobs/:id/resume", async (req, res) => {
   const id = z.string().parse(req.params.id);
-  await db.updateTable("crawl_jobs").set({ status: "running" }).where("id", "=", id).execute();
+  await db
+    .updateTable("crawl_jobs")
+    .set({ status: "running" })
+    .where("id", "=", id)
+    .where("finished_at", "is", null)
+    .execute();
   res.json({ ok: true });
 });
 
+app.post("/api/crawl-jobs/:id/cancel", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const job = await db.selectFrom("crawl_jobs").select(["id"]).where("id", "=", id).executeTakeFirst();
+  if (!job) return res.status(404).json({ error: "not found" });
+  const result = await db
+    .updateTable("crawl_jobs")
+    .set({ status: "cancelled", finished_at: nowIso() })
+    .where("id", "=", id)
+    .where("finished_at", "is", null)
+    .executeTakeFirst();
+  if (Number(result.numUpdatedRows) > 0) publishJobEvent(id, { type: "status", status: "cancelled" });
+  res.json({ ok: true, cancelled: Number(result.numUpdatedRows) > 0 });
+});
+
+app.post("/api/crawl-jobs/:id/clone", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const job = await db.selectFrom("crawl_jobs").select(["config_json"]).where("id", "=", id).executeTakeFirst();
+  if (!job) return res.status(404).json({ error: "not found" });
+  const config = JSON.parse(job.config_json) as CrawlJobConfig;
+  const error = config.projectId ? await projectError(db, config.projectId) : null;
+  if (error) return res.status(400).json({ error });
+  const newId = await startCrawlJob(config);
+  res.json({ id: newId });
+});
+
+app.delete("/api/crawl-jobs/:id", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const job = await db.selectFrom("crawl_jobs").select(["id"]).where("id", "=", id).executeTakeFirst();
+  if (!job) return res.status(404).json({ error: "not found" });
+  await db.deleteFrom("crawl_failures").where("job_id", "=", id).execute();
+  await db.deleteFrom("crawl_frontier").where("job_id", "=", id).execute();
+  await db.deleteFrom("jobs").where("id", "=", id).execute();
+  await db.deleteFrom("crawl_jobs").where("id", "=", id).execute();
+  res.json({ ok: true });
+});
+
+app.get("/api/crawl-jobs/:id/failures", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const schema = z.object({
+    limit: z.coerce.number().int().min(1).max(1000).default(200),
+  });
+  const input = schema.parse(req.query);
+  const job = await db.selectFrom("crawl_jobs").select(["id"]).where("id", "=", id).executeTakeFirst();
+  if (!job) return res.status(404).json({ error: "not found" });
+
+  const deadLetters = await db
+    .selectFrom("crawl_frontier")
+    .select(["model_id", "url", "attempt_count", "error_class", "last_error", "updated_at"])
+    .where("job_id", "=", id)
+    .where("state", "=", "failed")
+    .orderBy("updated_at", "desc")
+    .limit(input.limit)
+    .execute();
+
+  const attempts = await db
+    .selectFrom("crawl_failures")
+    .select(["model_id", "url", "attempt", "error_class", "message", "created_at"])
+    .where("job_id", "=", id)
+    .orderBy("created_at", "desc")
+    .limit(input.limit)
+    .execute();
+
+  const byClass = await db
+    .selectFrom("crawl_failures")
+    .select(["error_class"])
+    .select((eb) => eb.fn.countAll().as("count"))
+    .where("job_id", "=", id)
+    .groupBy("error_class")
+    .execute();
+
+  res.json({
+    deadLetters,
+    attempts,
+    byClass: Object.fromEntries(byClass.map((r) => [r.error_class, Number((r as any).count)])),
+  });
+});
+
+app.post("/api/crawl-jobs/:id/retry-failed", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const job = await db.selectFrom("crawl_jobs").selectAll().where("id", "=", id).executeTakeFirst();
+  if (!job) return res.status(404).json({ error: "not found" });
+  // A cancelled job stays cancelled; start a new crawl instead.
+  if (job.status === "cancelled") return res.status(400).json({ error: "JOB_CANCELLED" });
+
+  const count = await resetFailedFrontier(db, id);
+  if (count === 0) return res.json({ count });
+
+  const active = job.finished_at === null && (job.status === "running" || job.status === "paused");
+  await db
+    .updateTable("crawl_jobs")
+    .set({
+      failed_count: sql`CASE WHEN failed_count > ${count} THEN failed_count - ${count} ELSE 0 END`,
+      // discovery_done is left as is: a job that stopped mid-discovery picks discovery up again when it runs.
+      ...(active ? {} : { status: "queued" as const, finished_at: null, last_error: null }),
+    })
+    .where("id", "=", id)
+    .execute();
+
+  if (!active) {
+    await enqueueJob(db, "crawl", id, { crawlJobId: id });
+  }
+
+  res.json({ count });
+});
+
 app.get("/api/models", async (req, res) => {
   const schema = z.object({
     page: z.coerce.number().int().min(1).default(1),
     pageSize: z.coerce.number().int().min(1).max(200).default(50),
-    withCover: z.coerce.boolean().optional(),
+    withCover: queryFlag.optional(),
+    projectId: z.string().min(1).default(DEFAULT_PROJECT_ID),
   });
   const input = schema.parse(req.query);
   const offset = (input.page - 1) * input.pageSize;
   let q = db
     .selectFrom("models")
+    .innerJoin("project_models", "project_models.model_id", "models.id")
+    .where("project_models.project_id", "=", input.projectId)
     .leftJoin("model_labels", "model_labels.model_id", "models.id")
+    .leftJoin("model_reviews", (join) =>
+      join.onRef("model_reviews.model_id", "=", "models.id").on("model_reviews.is_current", "=", 1),
+    )
     .select([
       "models.id as id",
       "models.url as url",
       "models.title as title",
       "models.author_name as author_name",
+      "models.author_handle as author_handle",
       "models.download_count as download_count",
+      "models.like_count as like_count",
+      "models.collect_count as collect_count",
+      "models.boost_count as boost_count",
+      "models.print_count as print_count",
+      "models.comment_count as comment_count",
+      "models.print_profile_count as print_profile_count",
+      "models.plate_count as plate_count",
+      "models.published_at as published_at",
+      "models.source_updated_at as source_updated_at",
+      "models.category as category",
+      "models.license as license",
       "models.cover_image_url as cover_image_url",
       "models.updated_at as updated_at",
       "model_labels.grade as grade",
       "model_labels.extracted_json as extracted_json",
+      "model_labels.rubric_version as rubric_version",
+      "model_labels.sample_count as sample_count",
+      "model_labels.agreement as agreement",
+      "model_reviews.grade as human_grade",
+      "model_reviews.reviewer as reviewer",
     ])
     .orderBy("models.updated_at", "desc");
 
@@ -230,6 +825,7 @@ app.get("/api/models", async (req, res) => {
   }
 
   const rawRows = await q.limit(input.pageSize).offset(offset).execute();
+  const tagsById = await loadModelTags(db, rawRows.map((r) => r.id));
   const rows = rawRows.map((r: any) => {
     let summary: string | null = null;
     try {
@@ -240,15 +836,15 @@ app.get("/api/models", async (req, res) => {
       summary = null;
     }
     const { extracted_json: _ignored, ...rest } = r;
-    return { ...rest, summary };
+    return { ...rest, final_grade: r.human_grade ?? r.grade, tags: tagsById.get(r.id) ?? [], summary };
   });
 
-  const countQuery = input.withCover
-    ? db
-        .selectFrom("models")
-        .where("cover_image_url", "is not", null)
-        .select((eb) => eb.fn.countAll().as("count"))
-    : db.selectFrom("models").select((eb) => eb.fn.countAll().as("count"));
+  let countQuery = db
+    .selectFrom("models")
+    .innerJoin("project_models", "project_models.model_id", "models.id")
+    .where("project_models.project_id", "=", input.projectId)
+    .select((eb) => eb.fn.countAll().as("count"));
+  if (input.withCover) countQuery = countQuery.where("models.cover_image_url", "is not", null);
 
   const [{ count }] = await countQuery.execute();
   res.json({ rows, total: Number(count) });
@@ -260,95 +856,798 @@ app.get("/api/models/:id", async (req, res) => {
   if (!model) return res.status(404).json({ error: "not found" });
   const images = await db.selectFrom("model_images").selectAll().where("model_id", "=", id).orderBy("idx").execute();
   const label = await db.selectFrom("model_labels").selectAll().where("model_id", "=", id).executeTakeFirst();
-  res.json({ model, images, label });
+  const review = await db
+    .selectFrom("model_reviews")
+    .selectAll()
+    .where("model_id", "=", id)
+    .where("is_current", "=", 1)
+    .executeTakeFirst();
+  const tags = (await loadModelTags(db, [id])).get(id) ?? [];
+  const final = finalLabel(label ? { grade: label.grade, extracted: JSON.parse(label.extracted_json) } : null, review ?? null);
+  const samples = await db
+    .selectFrom("label_runs")
+    .select(["provider", "model", "sample_index", "grade", "reason", "extracted_json", "created_at"])
+    .where("model_id", "=", id)
+    .where("is_current", "=", 1)
+    .orderBy("sample_index", "asc")
+    .execute();
+  const consensus = label
+    ? {
+        sampleCount: label.sample_count,
+        agreement: label.agreement,
+        samples: samples.map((s) => ({
+          provider: s.provider,
+          model: s.model,
+          index: s.sample_index,
+          grade: s.grade,
+          reason: s.reason,
+          confidence: (JSON.parse(s.extracted_json) as { confidence?: number }).confidence ?? null,
+          createdAt: s.created_at,
+        })),
+      }
+    : null;
+  res.json({ model: { ...model, tags }, images, label, review: review ?? null, final, consensus });
 });
 
-app.post("/api/label-jobs", async (req, res) => {
+app.get("/api/models/:id/label-runs", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const rows = await db
+    .selectFrom("label_runs")
+    .selectAll()
+    .where("model_id", "=", id)
+    .orderBy("created_at", "desc")
+    .orderBy("sample_index", "asc")
+    .execute();
+  res.json({
+    rows: rows.map(({ extracted_json, ...r }) => ({ ...r, extracted: JSON.parse(extracted_json) })),
+  });
+});
+
+const reviewInputSchema = z.object({
+  reviewer: z.string().trim().min(1).max(100),
+  action: z.enum(["confirm", "override"]),
+  grade: z.enum(["S", "A", "B", "C", "D"]).optional(),
+  features: z
+    .object({
+      story: z.boolean(),
+      selling_points: z.boolean(),
+      interaction: z.boolean(),
+      scene: z.boolean(),
+      params: z.boolean(),
+      instructions: z.boolean(),
+      structure_clarity: z.enum(["low", "medium", "high"]),
+      multicolor: z.boolean(),
+      advanced_structure: z.boolean(),
+      use_case: z.boolean(),
+    })
+    .partial()
+    .optional(),
+  comment: z.string().max(2000).nullable().optional(),
+});
+
+// Labeled models in the project without a human review yet. `after` is an id cursor for the sequential order;
+// the other strategies re-rank on every call, so clients pass the ids they already hold as `exclude`.
+app.get("/api/review-queue", async (req, res) => {
   const schema = z.object({
-    limit: z.number().int().min(1).max(50000).optional(),
+    projectId: z.string().min(1).default(DEFAULT_PROJECT_ID),
+    strategy: z.enum(REVIEW_QUEUE_STRATEGIES).default("sequential"),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    after: z.string().optional(),
+    cursor: z.string().optional(),
+    maxAgreement: z.coerce.number().min(0).max(1).optional(),
+    exclude: z
+      .string()
+      .optional()
+      .transform((v) => (v ? v.split(",").filter(Boolean) : [])),
   });
-  const input = schema.parse(req.body ?? {});
-  const id = randomId("label");
-  const config: LabelJobConfig = {
-    limit: input.limit ?? null,
-  };
+  const { cursor, ...input } = schema.parse(req.query);
+  const decoded = cursor ? decodeReviewCursor(cursor) : undefined;
+  if (decoded === null) return res.status(400).json({ error: "INVALID_CURSOR" });
+  res.json(await loadReviewQueue(db, { ...input, cursor: decoded }));
+});
+
+app.get("/api/models/:id/reviews", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const rows = await db
+    .selectFrom("model_reviews")
+    .selectAll()
+    .where("model_id", "=", id)
+    .orderBy("created_at", "desc")
+    .execute();
+  res.json({ rows: rows.map(({ features_json, ...r }) => ({ ...r, features: features_json ? JSON.parse(features_json) : null })) });
+});
+
+app.post("/api/models/:id/reviews", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const input = reviewInputSchema.parse(req.body ?? {});
+  const model = await db.selectFrom("models").select(["id"]).where("id", "=", id).executeTakeFirst();
+  if (!model) return res.status(404).json({ error: "not found" });
+  try {
+    const reviewId = await addReview(db, id, input);
+    res.json({ id: reviewId });
+  } catch (err) {
+    res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+  }
+});
+
+app.get("/api/models/:id/metrics", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const model = await db.selectFrom("models").select(["id"]).where("id", "=", id).executeTakeFirst();
+  if (!model) return res.status(404).json({ error: "not found" });
+  const snapshots = await db
+    .selectFrom("model_metrics_snapshots")
+    .select(["captured_at", "download_count", "like_count", "collect_count", "boost_count", "print_count", "comment_count"])
+    .where("model_id", "=", id)
+    .orderBy("captured_at", "asc")
+    .execute();
+  res.json({ snapshots, growth: computeGrowth(snapshots) });
+});
+
+app.get("/api/metrics/growth", async (req, res) => {
+  const schema = z.object({
+    days: z.coerce.number().min(1).max(3650).default(30),
+    limit: z.coerce.number().int().min(1).max(5000).default(200),
+    projectId: z.string().min(1).default(DEFAULT_PROJECT_ID),
+  });
+  const input = schema.parse(req.query);
+  const since = new Date(Date.now() - input.days * 86_400_000).toISOString();
+
+  const snapshots = await db
+    .selectFrom("model_metrics_snapshots as s")
+    .innerJoin("project_models", "project_models.model_id", "s.model_id")
+    .where("project_models.project_id", "=", input.projectId)
+    .select(["s.model_id", "s.captured_at", "s.download_count", "s.like_count", "s.collect_count", "s.print_count"])
+    .where("s.captured_at", ">=", since)
+    .orderBy("s.model_id")
+    .orderBy("s.captured_at", "asc")
+    .execute();
+
+  const byModel = new Map<string, typeof snapshots>();
+  for (const s of snapshots) {
+    const list = byModel.get(s.model_id) ?? [];
+    list.push(s);
+    byModel.set(s.model_id, list);
+  }
+
+  const labels = await db.selectFrom("model_labels").select(["model_id", "grade"]).execute();
+  const gradeById = new Map(labels.map((l) => [l.model_id, l.grade]));
+
+  const growthRows = Array.from(byModel.entries())
+    .map(([modelId, list]) => ({ model_id: modelId, grade: gradeById.get(modelId) ?? null, growth: computeGrowth(list) }))
+    .filter((r) => r.growth && r.growth.downloadsPerDay !== null);
+
+  const byGrade: Record<string, { models: number; avgDownloadsPerDay: number }> = {};
+  for (const r of growthRows) {
+    const key = r.grade ?? "unlabeled";
+    const cur = byGrade[key] ?? { models: 0, avgDownloadsPerDay: 0 };
+    cur.avgDownloadsPerDay = (cur.avgDownloadsPerDay * cur.models + (r.growth!.downloadsPerDay ?? 0)) / (cur.models + 1);
+    cur.models += 1;
+    byGrade[key] = cur;
+  }
+
+  growthRows.sort((a, b) => (b.growth!.downloadsPerDay ?? 0) - (a.growth!.downloadsPerDay ?? 0));
+  res.json({ since, rows: growthRows.slice(0, input.limit), total: growthRows.length, byGrade });
+});
+
+app.post("/api/label-jobs", async (req, res) => {
+  const input = labelJobInputSchema.parse(req.body ?? {});
+  const config = labelConfigFromInput(input);
+  const error = await labelJobConfigError(config);
+  if (error) return res.status(400).json({ error });
+  const id = await startLabelJob(config);
+  res.json({ id });
+});
+
+app.get("/api/label-jobs", async (req, res) => {
+  const input = jobListSchema.parse(req.query);
+  let q = db.selectFrom("label_jobs");
+  if (input.status.length > 0) q = q.where("status", "in", input.status);
+  if (input.projectId) q = q.where("project_id", "=", input.projectId);
+  const total = await q.select((eb) => eb.fn.countAll().as("count")).executeTakeFirstOrThrow();
+  const rows = await q
+    .selectAll()
+    .orderBy("created_at", "desc")
+    .limit(input.pageSize)
+    .offset((input.page - 1) * input.pageSize)
+    .execute();
+  res.json({
+    page: input.page,
+    pageSize: input.pageSize,
+    total: Number((total as any).count),
+    rows: rows.map((r) => summarizeJob(r, r.processed_count)),
+  });
+});
+
+app.get("/api/label-jobs/:id", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const job = await db.selectFrom("label_jobs").selectAll().where("id", "=", id).executeTakeFirst();
+  if (!job) return res.status(404).json({ error: "not found" });
+  res.json({ ...job, projected_remaining_cost: projectedRemainingCost(job) });
+});
+
+app.get("/api/label-jobs/:id/diff", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const input = z.object({ against: z.string().min(1).optional() }).parse(req.query);
+  const jobs = await db
+    .selectFrom("label_jobs")
+    .select(["id"])
+    .where("id", "in", input.against ? [id, input.against] : [id])
+    .execute();
+  if (!jobs.some((j) => j.id === id)) return res.status(404).json({ error: "not found" });
+  if (input.against && !jobs.some((j) => j.id === input.against)) return res.status(400).json({ error: "against job not found" });
+  res.json(await labelJobDiff(db, id, input.against));
+});
+
+app.get("/api/label-jobs/:id/failures", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const input = z.object({ limit: z.coerce.number().int().min(1).max(1000).default(200) }).parse(req.query);
+  const job = await db.selectFrom("label_jobs").select(["id"]).where("id", "=", id).executeTakeFirst();
+  if (!job) return res.status(404).json({ error: "not found" });
+
+  const attempts = await db
+    .selectFrom("label_failures")
+    .select(["model_id", "sample_index", "attempt", "error_class", "message", "output_text", "created_at"])
+    .where("job_id", "=", id)
+    .orderBy("created_at", "desc")
+    .limit(input.limit)
+    .execute();
 
+  const byClass = await db
+    .selectFrom("label_failures")
+    .select(["error_class"])
+    .select((eb) => eb.fn.countAll().as("count"))
+    .where("job_id", "=", id)
+    .groupBy("error_class")
+    .execute();
+
+  // Runs that only succeeded after re-asking with the validation errors.
+  const repaired = await db
+    .selectFrom("label_runs")
+    .select((eb) => eb.fn.countAll().as("count"))
+    .where("job_id", "=", id)
+    .where("attempts", ">", 1)
+    .executeTakeFirstOrThrow();
+
+  res.json({
+    attempts,
+    byClass: Object.fromEntries(byClass.map((r) => [r.error_class, Number((r as any).count)])),
+    repaired: Number((repaired as any).count),
+  });
+});
+
+app.post("/api/label-jobs/:id/pause", async (req, res) => {
+  const id = z.string().parse(req.params.id);
   await db
-    .insertInto("label_jobs")
+    .updateTable("label_jobs")
+    .set({ status: "paused" })
+    .where("id", "=", id)
+    .where("finished_at", "is", null)
+    .execute();
+  res.json({ ok: true });
+});
+
+app.post("/api/label-jobs/:id/resume", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  await db
+    .updateTable("label_jobs")
+    .set({ status: "running" })
+    .where("id", "=", id)
+    .where("finished_at", "is", null)
+    .execute();
+  res.json({ ok: true });
+});
+
+app.post("/api/label-jobs/:id/budget", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const input = z.object({ budget: z.number().positive().nullable() }).parse(req.body ?? {});
+  const job = await db.selectFrom("label_jobs").select(["id", "last_error"]).where("id", "=", id).executeTakeFirst();
+  if (!job) return res.status(404).json({ error: "not found" });
+  await db
+    .updateTable("label_jobs")
+    .set({ budget: input.budget, ...(job.last_error === "BUDGET_EXCEEDED" ? { last_error: null } : {}) })
+    .where("id", "=", id)
+    .execute();
+  res.json({ ok: true });
+});
+
+app.post("/api/label-jobs/:id/cancel", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const job = await db.selectFrom("label_jobs").select(["id"]).where("id", "=", id).executeTakeFirst();
+  if (!job) return res.status(404).json({ error: "not found" });
+  const result = await db
+    .updateTable("label_jobs")
+    .set({ status: "cancelled", finished_at: nowIso() })
+    .where("id", "=", id)
+    .where("finished_at", "is", null)
+    .executeTakeFirst();
+  if (Number(result.numUpdatedRows) > 0) publishJobEvent(id, { type: "status", status: "cancelled" });
+  res.json({ ok: true, cancelled: Number(result.numUpdatedRows) > 0 });
+});
+
+app.post("/api/label-jobs/:id/clone", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const job = await db.selectFrom("label_jobs").select(["config_json"]).where("id", "=", id).executeTakeFirst();
+  if (!job) return res.status(404).json({ error: "not found" });
+  const config = JSON.parse(job.config_json) as LabelJobConfig;
+  const error = await labelJobConfigError(config);
+  if (error) return res.status(400).json({ error });
+  const newId = await startLabelJob(config);
+  res.json({ id: newId });
+});
+
+app.delete("/api/label-jobs/:id", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const job = await db.selectFrom("label_jobs").select(["id"]).where("id", "=", id).executeTakeFirst();
+  if (!job) return res.status(404).json({ error: "not found" });
+  await db.deleteFrom("label_failures").where("job_id", "=", id).execute();
+  await db.deleteFrom("jobs").where("id", "=", id).execute();
+  await db.deleteFrom("label_jobs").where("id", "=", id).execute();
+  res.json({ ok: true });
+});
+
+const labelPriceSchema = z.object({
+  model: z.string().trim().min(1).max(200),
+  inputPerMillion: z.number().min(0),
+  outputPerMillion: z.number().min(0),
+  perImage: z.number().min(0).default(0),
+});
+
+app.get("/api/label-prices", async (_req, res) => {
+  res.json({ rows: await listLabelPrices(db) });
+});
+
+app.post("/api/label-prices", async (req, res) => {
+  const input = labelPriceSchema.parse(req.body ?? {});
+  const row = await saveLabelPrice(db, {
+    model: input.model,
+    input_per_million: input.inputPerMillion,
+    output_per_million: input.outputPerMillion,
+    per_image: input.perImage,
+  });
+  res.json(row);
+});
+
+app.delete("/api/label-prices", async (req, res) => {
+  const input = z.object({ model: z.string().min(1) }).parse(req.query);
+  await db.deleteFrom("label_prices").where("model", "=", input.model).execute();
+  res.json({ ok: true });
+});
+
+app.get("/api/gold", async (req, res) => {
+  const input = z.object({ projectId: z.string().min(1).default(DEFAULT_PROJECT_ID) }).parse(req.query);
+  res.json({ rows: await listGoldModels(db, input.projectId) });
+});
+
+app.post("/api/gold", async (req, res) => {
+  const input = z
+    .object({
+      projectId: z.string().min(1).default(DEFAULT_PROJECT_ID),
+      modelIds: z.array(z.string().min(1)).max(1000).optional(),
+      allReviewed: z.boolean().optional(),
+    })
+    .parse(req.body ?? {});
+  const error = await projectError(db, input.projectId);
+  if (error) return res.status(400).json({ error });
+  res.json(await addGoldModels(db, input.projectId, input.allReviewed ? "reviewed" : (input.modelIds ?? [])));
+});
+
+app.delete("/api/gold/:modelId", async (req, res) => {
+  const modelId = z.string().parse(req.params.modelId);
+  const input = z.object({ projectId: z.string().min(1).default(DEFAULT_PROJECT_ID) }).parse(req.query);
+  await db
+    .deleteFrom("gold_models")
+    .where("project_id", "=", input.projectId)
+    .where("model_id", "=", modelId)
+    .execute();
+  res.json({ ok: true });
+});
+
+app.post("/api/eval-runs", async (req, res) => {
+  const input = z
+    .object({
+      projectId: z.string().min(1).default(DEFAULT_PROJECT_ID),
+      name: z.string().trim().max(200).optional(),
+      provider: z.enum(LABEL_PROVIDER_NAMES).optional(),
+      rubricVersion: z.number().int().min(1).optional(),
+    })
+    .parse(req.body ?? {});
+  const error = await projectError(db, input.projectId);
+  if (error) return res.status(400).json({ error });
+  let provider: ReturnType<typeof resolveLabelProvider>;
+  let rubric: Awaited<ReturnType<typeof loadRubric>>;
+  try {
+    provider = resolveLabelProvider(input.provider);
+    rubric = await loadRubric(db, input.rubricVersion);
+  } catch (err) {
+    return res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+  }
+  const gold = (await listGoldModels(db, input.projectId)).filter((g) => g.verified);
+  if (gold.length === 0) return res.status(400).json({ error: "GOLD_SET_EMPTY" });
+
+  const config: EvalRunConfig = {
+    provider: provider.name,
+    rubricVersion: rubric.version,
+    referenceImageIds: await selectReferenceImageIds(db, rubric.referenceCounts),
+  };
+  const id = randomId("eval");
+  await db
+    .insertInto("eval_runs")
     .values({
       id,
+      project_id: input.projectId,
+      name: input.name ? input.name : null,
       status: "queued",
-      created_at: nowIso(),
-      started_at: null,
-      finished_at: null,
       config_json: JSON.stringify(config),
-      total_count: 0,
+      provider: provider.name,
+      model: provider.model(),
+      rubric_version: rubric.version,
+      total_count: gold.length,
       processed_count: 0,
       failed_count: 0,
       last_error: null,
+      created_at: nowIso(),
+      started_at: null,
+      finished_at: null,
     })
     .execute();
+  await enqueueJob(db, "eval", id, { evalRunId: id });
+  res.json({ id });
+});
 
-  setTimeout(() => {
-    runLabelJob(db, id).catch(() => {});
-  }, 50);
+app.get("/api/eval-runs", async (req, res) => {
+  const input = z
+    .object({
+      projectId: z.string().min(1).default(DEFAULT_PROJECT_ID),
+      limit: z.coerce.number().int().min(1).max(100).default(20),
+    })
+    .parse(req.query);
+  const runs = await db
+    .selectFrom("eval_runs")
+    .selectAll()
+    .where("project_id", "=", input.projectId)
+    .orderBy("created_at", "desc")
+    .limit(input.limit)
+    .execute();
+  const rows = [];
+  for (const run of runs) rows.push({ ...run, report: await evalRunReport(db, run.id) });
+  res.json({ rows });
+});
 
-  res.json({ id });
+app.get("/api/eval-runs/:id", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const run = await db.selectFrom("eval_runs").selectAll().where("id", "=", id).executeTakeFirst();
+  if (!run) return res.status(404).json({ error: "not found" });
+  const results = await db
+    .selectFrom("eval_results")
+    .innerJoin("models", "models.id", "eval_results.model_id")
+    .select([
+      "eval_results.model_id as model_id",
+      "models.title as title",
+      "models.url as url",
+      "eval_results.expected_grade as expected_grade",
+      "eval_results.predicted_grade as predicted_grade",
+      "eval_results.latency_ms as latency_ms",
+      "eval_results.error as error",
+    ])
+    .where("eval_results.eval_run_id", "=", id)
+    .orderBy("eval_results.model_id", "asc")
+    .execute();
+  res.json({ ...run, report: await evalRunReport(db, id), results });
 });
 
-app.get("/api/label-jobs/:id", async (req, res) => {
+app.post("/api/eval-runs/:id/cancel", async (req, res) => {
   const id = z.string().parse(req.params.id);
-  const job = await db.selectFrom("label_jobs").selectAll().where("id", "=", id).executeTakeFirst();
-  if (!job) return res.status(404).json({ error: "not found" });
-  res.json(job);
+  const result = await db
+    .updateTable("eval_runs")
+    .set({ status: "cancelled", finished_at: nowIso() })
+    .where("id", "=", id)
+    .where("finished_at", "is", null)
+    .executeTakeFirst();
+  res.json({ ok: true, cancelled: Number(result.numUpdatedRows) > 0 });
 });
 
-app.post("/api/label-jobs/:id/pause", async (req, res) => {
+async function loadJobSnapshot(id: string) {
+  const crawl = await db.selectFrom("crawl_jobs").selectAll().where("id", "=", id).executeTakeFirst();
+  if (crawl) return { kind: "crawl" as const, job: crawl };
+  const label = await db.selectFrom("label_jobs").selectAll().where("id", "=", id).executeTakeFirst();
+  if (label) return { kind: "label" as const, job: { ...label, projected_remaining_cost: projectedRemainingCost(label) } };
+  return null;
+}
+
+app.get("/api/jobs/:id/events", async (req, res) => {
   const id = z.string().parse(req.params.id);
-  await db.updateTable("label_jobs").set({ status: "paused" }).where("id", "=", id).execute();
-  res.json({ ok: true });
+  const snapshot = await loadJobSnapshot(id);
+  if (!snapshot) return res.status(404).json({ error: "not found" });
+
+  res.status(200).set({
+    "content-type": "text/event-stream; charset=utf-8",
+    "cache-control": "no-cache, no-transform",
+    connection: "keep-alive",
+    "x-accel-buffering": "no",
+  });
+  res.flushHeaders();
+
+  const send = (event: string, data: unknown, eventId?: number) => {
+    res.write(`${eventId === undefined ? "" : `id: ${eventId}\n`}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  let closed = false;
+  let snapshotTimer: NodeJS.Timeout | null = null;
+  const sendSnapshot = async () => {
+    snapshotTimer = null;
+    const current = await loadJobSnapshot(id).catch(() => null);
+    if (closed) return;
+    send("job", current ? { kind: current.kind, ...current.job } : null);
+  };
+  const scheduleSnapshot = () => {
+    if (!snapshotTimer) snapshotTimer = setTimeout(() => sendSnapshot(), 300);
+  };
+
+  send("job", { kind: snapshot.kind, ...snapshot.job });
+  const lastSeq = Number(req.get("last-event-id") ?? 0);
+  for (const e of recentJobEvents(id)) {
+    if (e.seq > lastSeq) send(e.type, e, e.seq);
+  }
+
+  const unsubscribe = subscribeJobEvents(id, (e) => {
+    send(e.type, e, e.seq);
+    scheduleSnapshot();
+  });
+  const heartbeat = setInterval(() => {
+    res.write(": ping\n\n");
+    scheduleSnapshot();
+  }, 15000);
+
+  req.on("close", () => {
+    closed = true;
+    unsubscribe();
+    clearInterval(heartbeat);
+    if (snapshotTimer) clearTimeout(snapshotTimer);
+  });
 });
 
-app.post("/api/label-jobs/:id/resume", async (req, res) => {
+const schedulePatchSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  cron: z.string().trim().min(1).optional(),
+  jobType: z.enum(["crawl", "refresh", "label"]).optional(),
+  config: z.record(z.string(), z.unknown()).optional(),
+  thenLabel: z.boolean().optional(),
+  labelConfig: z.record(z.string(), z.unknown()).optional(),
+  missedPolicy: z.enum(["run_once", "skip"]).optional(),
+  enabled: z.boolean().optional(),
+});
+
+const scheduleInputSchema = schedulePatchSchema.extend({
+  name: z.string().trim().min(1).max(200),
+  cron: z.string().trim().min(1),
+  jobType: z.enum(["crawl", "refresh", "label"]),
+  config: z.record(z.string(), z.unknown()).default({}),
+  thenLabel: z.boolean().default(false),
+  missedPolicy: z.enum(["run_once", "skip"]).default("run_once"),
+  enabled: z.boolean().default(true),
+});
+
+function validateScheduleConfig(jobType: ScheduleJobType, config: unknown, labelConfig: unknown) {
+  const schema =
+    jobType === "crawl" ? crawlJobInputSchema : jobType === "refresh" ? refreshJobInputSchema : labelJobInputSchema;
+  const parsed = schema.safeParse(config);
+  if (!parsed.success) return `INVALID_CONFIG: ${parsed.error.message}`;
+  if (labelConfig !== undefined) {
+    const label = labelJobInputSchema.safeParse(labelConfig);
+    if (!label.success) return `INVALID_LABEL_CONFIG: ${label.error.message}`;
+  }
+  return null;
+}
+
+function nextRunOrError(cron: string) {
+  try {
+    return { nextRunAt: computeNextRun(cron), error: null };
+  } catch (err) {
+    return { nextRunAt: null, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+app.get("/api/schedules", async (_req, res) => {
+  const rows = await db.selectFrom("schedules").selectAll().orderBy("created_at", "desc").execute();
+  res.json({ rows });
+});
+
+app.post("/api/schedules", async (req, res) => {
+  const parsed = scheduleInputSchema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.message });
+  const input = parsed.data;
+
+  const { nextRunAt, error } = nextRunOrError(input.cron);
+  if (error) return res.status(400).json({ error });
+  const configError = validateScheduleConfig(input.jobType, input.config, input.labelConfig);
+  if (configError) return res.status(400).json({ error: configError });
+
+  const id = randomId("sched");
+  const now = nowIso();
+  await db
+    .insertInto("schedules")
+    .values({
+      id,
+      name: input.name,
+      cron: input.cron,
+      job_type: input.jobType,
+      config_json: JSON.stringify(input.config),
+      then_label: input.thenLabel && input.jobType !== "label" ? 1 : 0,
+      label_config_json: input.labelConfig ? JSON.stringify(input.labelConfig) : null,
+      missed_policy: input.missedPolicy,
+      enabled: input.enabled ? 1 : 0,
+      next_run_at: input.enabled ? nextRunAt : null,
+      last_run_at: null,
+      last_job_id: null,
+      chained_job_id: null,
+      last_error: null,
+      created_at: now,
+      updated_at: now,
+    })
+    .execute();
+
+  res.json({ id, nextRunAt });
+});
+
+app.get("/api/schedules/:id", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const row = await db.selectFrom("schedules").selectAll().where("id", "=", id).executeTakeFirst();
+  if (!row) return res.status(404).json({ error: "not found" });
+  res.json(row);
+});
+
+app.patch("/api/schedules/:id", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const row = await db.selectFrom("schedules").selectAll().where("id", "=", id).executeTakeFirst();
+  if (!row) return res.status(404).json({ error: "not found" });
+
+  const parsed = schedulePatchSchema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.message });
+  const input = parsed.data;
+
+  const cron = input.cron ?? row.cron;
+  const jobType = input.jobType ?? row.job_type;
+  const config = input.config ?? JSON.parse(row.config_json);
+  const labelConfig = input.labelConfig ?? (row.label_config_json ? JSON.parse(row.label_config_json) : undefined);
+  const enabled = input.enabled ?? row.enabled === 1;
+  const thenLabel = input.thenLabel ?? row.then_label === 1;
+
+  const { nextRunAt, error } = nextRunOrError(cron);
+  if (error) return res.status(400).json({ error });
+  const configError = validateScheduleConfig(jobType, config, labelConfig);
+  if (configError) return res.status(400).json({ error: configError });
+
+  await db
+    .updateTable("schedules")
+    .set({
+      name: input.name ?? row.name,
+      cron,
+      job_type: jobType,
+      config_json: JSON.stringify(config),
+      then_label: thenLabel && jobType !== "label" ? 1 : 0,
+      label_config_json: labelConfig ? JSON.stringify(labelConfig) : null,
+      missed_policy: input.missedPolicy ?? row.missed_policy,
+      enabled: enabled ? 1 : 0,
+      next_run_at: enabled ? nextRunAt : null,
+      updated_at: nowIso(),
+    })
+    .where("id", "=", id)
+    .execute();
+
+  res.json({ ok: true, nextRunAt: enabled ? nextRunAt : null });
+});
+
+app.delete("/api/schedules/:id", async (req, res) => {
   const id = z.string().parse(req.params.id);
-  await db.updateTable("label_jobs").set({ status: "running" }).where("id", "=", id).execute();
+  await db.deleteFrom("schedules").where("id", "=", id).execute();
   res.json({ ok: true });
 });
 
-app.get("/api/stats", async (_req, res) => {
-  const total = await db.selectFrom("models").select((eb) => eb.fn.countAll().as("count")).executeTakeFirstOrThrow();
+app.post("/api/schedules/:id/run", async (req, res) => {
+  const id = z.string().parse(req.params.id);
+  const row = await db.selectFrom("schedules").selectAll().where("id", "=", id).executeTakeFirst();
+  if (!row) return res.status(404).json({ error: "not found" });
+  try {
+    const jobId = await runScheduleNow(db, scheduleLaunchers, row);
+    res.json({ jobId });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(message === "SCHEDULE_BUSY" ? 409 : 500).json({ error: message });
+  }
+});
+
+app.get("/api/stats", async (req, res) => {
+  const { projectId } = projectQuerySchema.parse(req.query);
+  const total = await db
+    .selectFrom("project_models")
+    .where("project_id", "=", projectId)
+    .select((eb) => eb.fn.countAll().as("count"))
+    .executeTakeFirstOrThrow();
   const byGrade = await db
     .selectFrom("model_labels")
-    .select(["grade"])
+    .innerJoin("project_models", "project_models.model_id", "model_labels.model_id")
+    .where("project_models.project_id", "=", projectId)
+    .select(["model_labels.grade as grade"])
+    .select((eb) => eb.fn.countAll().as("count"))
+    .groupBy("model_labels.grade")
+    .execute();
+
+  const reviewPairs = await db
+    .selectFrom("model_reviews")
+    .innerJoin("project_models", "project_models.model_id", "model_reviews.model_id")
+    .leftJoin("model_labels", "model_labels.model_id", "model_reviews.model_id")
+    .where("project_models.project_id", "=", projectId)
+    .where("model_reviews.is_current", "=", 1)
+    .select(["model_labels.grade as ai_grade", "model_reviews.grade as human_grade"])
     .select((eb) => eb.fn.countAll().as("count"))
-    .groupBy("grade")
+    .groupBy(["model_labels.grade", "model_reviews.grade"])
     .execute();
 
-  const labeled = await db.selectFrom("model_labels").select((eb) => eb.fn.countAll().as("count")).executeTakeFirstOrThrow();
+  const labeled = byGrade.reduce((n, r) => n + Number((r as any).count), 0);
+  const byFinalGrade: Record<string, number> = Object.fromEntries(byGrade.map((r) => [r.grade, Number((r as any).count)]));
+  const aiVsHuman: Record<string, Record<string, number>> = {};
+  let reviewed = 0;
+  let agreed = 0;
+  for (const r of reviewPairs) {
+    const count = Number((r as any).count);
+    reviewed += count;
+    if (r.ai_grade === r.human_grade) agreed += count;
+    if (r.ai_grade) byFinalGrade[r.ai_grade] -= count;
+    byFinalGrade[r.human_grade] = (byFinalGrade[r.human_grade] ?? 0) + count;
+    const ai = r.ai_grade ?? "-";
+    aiVsHuman[ai] = { ...aiVsHuman[ai], [r.human_grade]: count };
+  }
   res.json({
     total: Number(total.count),
-    labeled: Number(labeled.count),
+    labeled,
     byGrade: Object.fromEntries(byGrade.map((r) => [r.grade, Number((r as any).count)])),
+    reviewed,
+    agreement: reviewed > 0 ? agreed / reviewed : null,
+    byFinalGrade,
+    aiVsHuman,
   });
 });
 
-app.get("/api/export.csv", async (_req, res) => {
+app.get("/api/export.csv", async (req, res) => {
+  const { projectId } = projectQuerySchema.parse(req.query);
   const rows = await db
     .selectFrom("models")
+    .innerJoin("project_models", "project_models.model_id", "models.id")
+    .where("project_models.project_id", "=", projectId)
     .leftJoin("model_labels", "model_labels.model_id", "models.id")
+    .leftJoin("model_reviews", (join) =>
+      join.onRef("model_reviews.model_id", "=", "models.id").on("model_reviews.is_current", "=", 1),
+    )
     .select([
       "models.id as id",
       "models.url as url",
       "models.author_name as author_name",
       "models.download_count as download_count",
+      "models.like_count as like_count",
+      "models.collect_count as collect_count",
+      "models.boost_count as boost_count",
+      "models.print_count as print_count",
+      "models.comment_count as comment_count",
+      "models.published_at as published_at",
+      "models.source_updated_at as source_updated_at",
+      "models.category as category",
+      "models.license as license",
+      "models.print_profile_count as print_profile_count",
+      "models.plate_count as plate_count",
       "models.title as title",
       "models.cover_image_url as cover_image_url",
       "model_labels.grade as grade",
       "model_labels.extracted_json as extracted_json",
       "model_labels.reason as reason",
+      "model_labels.rubric_version as rubric_version",
+      "model_reviews.grade as human_grade",
+      "model_reviews.reviewer as reviewer",
+      "model_reviews.created_at as reviewed_at",
+      "model_reviews.comment as review_comment",
     ])
     .orderBy("models.updated_at", "desc")
     .execute();
+  const tagsById = await loadModelTags(db, rows.map((r) => r.id));
 
   const escape = (v: any) => {
     const s = v === null || v === undefined ? "" : String(v);
@@ -357,9 +1656,38 @@ app.get("/api/export.csv", async (_req, res) => {
   };
 
   res.setHeader("content-type", "text/csv; charset=utf-8");
-  res.setHeader("content-disposition", 'attachment; filename="makerworld_export.csv"');
+  res.setHeader("content-disposition", `attachment; filename="makerworld_export_${encodeURIComponent(projectId)}.csv"`);
 
-  const header = ["ID", "文件链接", "作者名", "下载量", "标题", "模型图", "等级", "图片摘要", "理由"].join(",") + "\n";
+  const header =
+    [
+      "ID",
+      "文件链接",
+      "作者名",
+      "下载量",
+      "点赞",
+      "收藏",
+      "Boost",
+      "打印数",
+      "评论数",
+      "发布时间",
+      "更新时间",
+      "分类",
+      "标签",
+      "许可证",
+      "打印配置数",
+      "盘数",
+      "标题",
+      "模型图",
+      "等级",
+      "图片摘要",
+      "理由",
+      "标准版本",
+      "人工等级",
+      "最终等级",
+      "审核人",
+      "审核时间",
+      "审核备注",
+    ].join(",") + "\n";
   res.write("\uFEFF" + header);
   for (const r of rows) {
     let summary = "";
@@ -374,11 +1702,29 @@ app.get("/api/export.csv", async (_req, res) => {
       escape((r as any).url),
       escape((r as any).author_name),
       escape((r as any).download_count),
+      escape((r as any).like_count),
+      escape((r as any).collect_count),
+      escape((r as any).boost_count),
+      escape((r as any).print_count),
+      escape((r as any).comment_count),
+      escape((r as any).published_at),
+      escape((r as any).source_updated_at),
+      escape((r as any).category),
+      escape((tagsById.get((r as any).id) ?? []).join("|")),
+      escape((r as any).license),
+      escape((r as any).print_profile_count),
+      escape((r as any).plate_count),
       escape((r as any).title),
       escape((r as any).cover_image_url),
       escape((r as any).grade),
       escape(summary),
       escape((r as any).reason),
+      escape((r as any).rubric_version),
+      escape((r as any).human_grade),
+      escape((r as any).human_grade ?? (r as any).grade),
+      escape((r as any).reviewer),
+      escape((r as any).reviewed_at),
+      escape((r as any).review_comment),
     ].join(",") + "\n";
     res.write(line);
   }
@@ -404,33 +1750,36 @@ const port = env.PORT;
 app.listen(port, async () => {
   process.stdout.write(`worker listening on ${port}\n`);
 
-  const resume = async () => {
-    const crawl = await db
-      .selectFrom("crawl_jobs")
-      .select(["id", "status", "finished_at"])
-      .where("finished_at", "is", null)
-      .where("status", "in", ["queued", "running"])
-      .orderBy("created_at", "desc")
-      .limit(1)
-      .executeTakeFirst();
-    if (crawl) {
-      await db.updateTable("crawl_jobs").set({ status: "queued" }).where("id", "=", crawl.id).execute();
-      setTimeout(() => runCrawlJob(db, crawl.id).catch(() => {}), 200);
-    }
+  await startRunner(
+    db,
+    {
+      crawl: ({ crawlJobId }, signal) => runCrawlJob(db, crawlJobId, signal),
+      label: ({ labelJobId }, signal) => runLabelJob(db, labelJobId, signal),
+      eval: ({ evalRunId }, signal) => runEvalJob(db, evalRunId, signal),
+    },
+    {
+      workerId: env.WORKER_ID || os.hostname(),
+      concurrency: { crawl: env.JOB_CONCURRENCY_CRAWL, label: env.JOB_CONCURRENCY_LABEL, eval: env.JOB_CONCURRENCY_EVAL },
+      leaseMs: env.JOB_LEASE_SECONDS * 1000,
+    },
+  );
+  startScheduler(db, scheduleLaunchers);
 
-    const label = await db
-      .selectFrom("label_jobs")
-      .select(["id", "status", "finished_at"])
-      .where("finished_at", "is", null)
-      .where("status", "in", ["queued", "running"])
-      .orderBy("created_at", "desc")
-      .limit(1)
-      .executeTakeFirst();
-    if (label) {
-      await db.updateTable("label_jobs").set({ status: "queued" }).where("id", "=", label.id).execute();
-      setTimeout(() => runLabelJob(db, label.id).catch(() => {}), 200);
-    }
-  };
-
-  resume().catch(() => {});
+  if (env.METRICS_REFRESH_INTERVAL_MINUTES > 0) {
+    const refresh = async () => {
+      const running = await db
+        .selectFrom("crawl_jobs")
+        .select(["id"])
+        .where("finished_at", "is", null)
+        .where("config_json", "like", '%"mode":"refresh"%')
+        .executeTakeFirst();
+      if (running) return;
+      await startRefreshJob({
+        limitModels: env.METRICS_REFRESH_LIMIT,
+        staleHours: env.METRICS_REFRESH_STALE_HOURS,
+        cookieHeader: await latestCookieHeader(db),
+      });
+    };
+    setInterval(() => refresh().catch(() => {}), env.METRICS_REFRESH_INTERVAL_MINUTES * 60_000);
+  }
 });
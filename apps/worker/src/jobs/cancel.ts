@@ -0,0 +1,41 @@
+import type { Kysely } from "kysely";
+import type { Database } from "../db/types";
+
+// `signal` is the runner's lease: when it aborts another worker owns the job now, and this run stops as if cancelled
+// (without touching the job's status, which belongs to the new owner).
+export function watchCancellation(
+  db: Kysely<Database>,
+  table: "crawl_jobs" | "label_jobs" | "eval_runs",
+  jobId: string,
+  onCancel: () => void,
+  signal?: AbortSignal,
+  intervalMs = 1000,
+) {
+  let cancelled = false;
+  const cancel = () => {
+    if (cancelled) return;
+    cancelled = true;
+    clearInterval(timer);
+    onCancel();
+  };
+  const timer = setInterval(async () => {
+    let current: { status: string } | undefined;
+    try {
+      current = await db.selectFrom(table).select(["status"]).where("id", "=", jobId).executeTakeFirst();
+    } catch {
+      return;
+    }
+    if (current && current.status !== "cancelled") return;
+    cancel();
+  }, intervalMs);
+  if (signal?.aborted) cancel();
+  else signal?.addEventListener("abort", cancel, { once: true });
+
+  return {
+    isCancelled: () => cancelled,
+    stop: () => {
+      clearInterval(timer);
+      signal?.removeEventListener("abort", cancel);
+    },
+  };
+}
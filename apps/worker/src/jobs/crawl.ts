@@ -1,16 +1,51 @@
 import type { Kysely } from "kysely";
 import { createContext, extractModelIdAndUrl, scrapeModelPageInContext } from "../crawler/makerworld";
 import type { Database, CrawlJobStatus } from "../db/types";
+import { classifyCrawlError, isTransientCrawlError, retryDelayMs } from "../crawler/errors";
+import { buildSourcePlan, type DiscoverySource } from "../crawler/sources";
+import { watchCancellation } from "./cancel";
 import { nowIso } from "../lib/ids";
+import { publishJobEvent } from "../lib/events";
+import { saveScrapedModel } from "../db/models";
+import { cacheModelImages } from "../images/cache";
+import { addModelsToProject } from "../db/projects";
 import { sql } from "kysely";
+import {
+  claimFrontier,
+  completeFrontier,
+  countPendingFrontier,
+  enqueueFrontier,
+  failFrontier,
+  listFrontierModelIds,
+  recordCrawlFailure,
+  releaseFrontier,
+  releaseInFlight,
+  retryFrontier,
+} from "./frontier";
 
 export interface CrawlJobConfig {
+  mode?: "discover" | "refresh";
+  staleHours?: number;
   startUrl: string;
+  source?: DiscoverySource;
   limitModels: number;
   maxScrolls: number;
   concurrency: number;
   delayMs: number;
+  maxAttempts?: number;
+  retryBaseDelayMs?: number;
   cookieHeader?: string;
+  projectId?: string;
+}
+
+export async function latestCookieHeader(db: Kysely<Database>) {
+  const latestCrawl = await db.selectFrom("crawl_jobs").select(["config_json"]).orderBy("created_at", "desc").limit(1).executeTakeFirst();
+  try {
+    const parsed = latestCrawl ? (JSON.parse(latestCrawl.config_json) as any) : null;
+    return typeof parsed?.cookieHeader === "string" ? (parsed.cookieHeader as string) : undefined;
+  } catch {
+    return undefined;
+  }
 }
 
 function sleep(ms: number) {
@@ -23,11 +58,15 @@ function withJitter(baseMs: number) {
   return base + (jitter > 0 ? Math.floor(Math.random() * (jitter + 1)) : 0);
 }
 
-export async function runCrawlJob(db: Kysely<Database>, jobId: string) {
+export async function runCrawlJob(db: Kysely<Database>, jobId: string, signal?: AbortSignal) {
   const job = await db.selectFrom("crawl_jobs").selectAll().where("id", "=", jobId).executeTakeFirst();
   if (!job) throw new Error("job not found");
+  if (job.finished_at) return;
 
   const config = JSON.parse(job.config_json) as CrawlJobConfig;
+  const maxAttempts = Math.max(1, Number(config.maxAttempts) || 3);
+  const retryBaseDelayMs = Math.max(0, Number(config.retryBaseDelayMs ?? 5000));
+  const plan = buildSourcePlan(config.source ?? { type: "url", url: config.startUrl });
 
   const updateStatus = async (status: CrawlJobStatus, patch?: Partial<Database["crawl_jobs"]>) => {
     await db
@@ -35,24 +74,34 @@ export async function runCrawlJob(db: Kysely<Database>, jobId: string) {
       .set({ status, ...patch })
       .where("id", "=", jobId)
       .execute();
+    publishJobEvent(jobId, { type: "status", status, lastError: patch?.last_error });
   };
 
-  await updateStatus("running", { started_at: nowIso(), last_error: null });
+  await updateStatus(job.status === "paused" ? "paused" : "running", {
+    started_at: job.started_at ?? nowIso(),
+    last_error: null,
+  });
 
   try {
+    await releaseInFlight(db, jobId);
+
     const { browser, context } = await createContext({ cookieHeader: config.cookieHeader });
+    let stopped = false;
+    const cancellation = watchCancellation(db, "crawl_jobs", jobId, () => {
+      stopped = true;
+      context.close().catch(() => {});
+    }, signal);
     try {
-      const discoveredIds = new Set<string>();
-      const queue: { id: string; url: string }[] = [];
-      let queueIndex = 0;
-      let discoveryDone = false;
-      let wake: (() => void) | null = null;
+      const discoveredIds = new Set<string>(await listFrontierModelIds(db, jobId));
+      let discoveryDone = Boolean(job.discovery_done);
+      let wake = null as (() => void) | null;
 
       type Discovered = { id: string; url: string; cover_image_url?: string | null; title?: string | null; author_name?: string | null };
 
-      const push = (items: Discovered[]) => {
+      const push = async (items: Discovered[]) => {
         if (items.length === 0) return;
-        queue.push(...items.map((it) => ({ id: it.id, url: it.url })));
+        await enqueueFrontier(db, jobId, items);
+        publishJobEvent(jobId, { type: "discovered", count: items.length });
         if (wake) {
           const fn = wake;
           wake = null;
@@ -88,24 +137,26 @@ export async function runCrawlJob(db: Kysely<Database>, jobId: string) {
             }),
           )
           .execute();
+        if (config.projectId) {
+          await addModelsToProject(db, config.projectId, items.map((it) => it.id));
+        }
       };
 
       const getNext = async () => {
         while (true) {
-          if (queueIndex < queue.length) {
-            const v = queue[queueIndex];
-            queueIndex += 1;
-            return v;
-          }
-          if (discoveryDone) return null;
+          const next = await claimFrontier(db, jobId);
+          if (next) return next;
+          if (discoveryDone && (await countPendingFrontier(db, jobId)) === 0) return null;
           await new Promise<void>((r) => {
             wake = r;
+            setTimeout(r, 1000);
           });
         }
       };
 
       const waitIfPausedOrCancelled = async () => {
         while (true) {
+          if (stopped) throw new Error("JOB_CANCELLED");
           const current = await db.selectFrom("crawl_jobs").select(["status"]).where("id", "=", jobId).executeTakeFirst();
           if (!current) throw new Error("JOB_CANCELLED");
           if (current.status === "paused") {
@@ -117,56 +168,55 @@ export async function runCrawlJob(db: Kysely<Database>, jobId: string) {
         }
       };
 
+
       const worker = async () => {
         while (true) {
+          if (stopped) return;
           await waitIfPausedOrCancelled();
           const discovered = await getNext();
           if (!discovered) return;
 
           try {
             const scraped = await scrapeModelPageInContext(context, { url: discovered.url });
-            const cover = scraped.imageUrls[0] ?? null;
-
-            await db
-              .updateTable("models")
-              .set({
-                url: scraped.url,
-                title: scraped.title,
-                author_name: scraped.authorName,
-                download_count: scraped.downloadCount,
-                cover_image_url: cover,
-                description: scraped.description,
-                updated_at: nowIso(),
-              })
-              .where("id", "=", scraped.id)
-              .execute();
-
-            await db.deleteFrom("model_images").where("model_id", "=", scraped.id).execute();
-            if (scraped.imageUrls.length > 0) {
-              await db
-                .insertInto("model_images")
-                .values(
-                  scraped.imageUrls.map((u, idx) => ({
-                    id: `${scraped.id}_${idx}`,
-                    model_id: scraped.id,
-                    idx,
-                    url: u,
-                  })),
-                )
-                .execute();
-            }
+            await saveScrapedModel(db, scraped, config.projectId);
+            await cacheModelImages(db, scraped.id);
 
+            await completeFrontier(db, discovered.id);
             await db
               .updateTable("crawl_jobs")
               .set({ processed_count: sql`processed_count + 1` })
               .where("id", "=", jobId)
               .execute();
+            publishJobEvent(jobId, { type: "model_done", modelId: discovered.model_id, url: discovered.url, title: scraped.title });
           } catch (err) {
+            if (cancellation.isCancelled()) {
+              await releaseFrontier(db, discovered.id, "JOB_CANCELLED").catch(() => {});
+              return;
+            }
             const message = err instanceof Error ? err.message : String(err);
-            if (message === "CLOUDFLARE_BLOCKED") {
+            const errorClass = classifyCrawlError(err);
+            await recordCrawlFailure(db, { row: discovered, errorClass, message });
+            const retrying = isTransientCrawlError(errorClass) && discovered.attempt_count < maxAttempts;
+            publishJobEvent(jobId, {
+              type: "model_failed",
+              modelId: discovered.model_id,
+              url: discovered.url,
+              error: message,
+              errorClass,
+              retrying,
+            });
+            if (errorClass === "CLOUDFLARE_BLOCKED") {
+              await releaseFrontier(db, discovered.id, message);
               await updateStatus("failed", { finished_at: nowIso(), last_error: message });
+              stopped = true;
               return;
             }
+            if (retrying) {
+              await retryFrontier(db, discovered.id, errorClass, message, retryDelayMs(retryBaseDelayMs, discovered.attempt_count));
+              await db.updateTable("crawl_jobs").set({ last_error: message }).where("id", "=", jobId).execute();
+              continue;
+            }
+            await failFrontier(db, discovered.id, errorClass, message);
             await db
               .updateTable("crawl_jobs")
               .set({ failed_count: sql`failed_count + 1`, last_error: message })
@@ -181,203 +231,280 @@ export async function runCrawlJob(db: Kysely<Database>, jobId: string) {
       };
 
       const concurrency = Math.max(1, Math.min(5, Number(config.concurrency) || 1));
-      const workerPromise = Promise.all(Array.from({ length: concurrency }, () => worker()));
-
-      const listPage = await context.newPage();
-
-      const addFromText = (text: string) => {
-        const newItems: Discovered[] = [];
-        const re = /https?:\/\/makerworld\.com\/(zh|en)\/models\/\d+/g;
-        let m: RegExpExecArray | null;
-        while ((m = re.exec(text))) {
-          const found = extractModelIdAndUrl(m[0]);
-          if (!found) continue;
-          if (discoveredIds.has(found.id)) continue;
-          if (discoveredIds.size >= config.limitModels) break;
-          discoveredIds.add(found.id);
-          newItems.push(found);
-        }
-
-        if (newItems.length < 20) {
-          const re2 =
-            /"id"\s*:\s*"?(?<id>\d{4,})"?[\s\S]{0,600}?"(?<k>cover|coverImage|coverImageUrl|thumbnail|thumbnailUrl|image|imageUrl|designImage|designImageUrl)"\s*:\s*"(?<img>https?:\/\/[^"]+)"/g;
-          let m2: RegExpExecArray | null;
-          let cnt = 0;
-          while ((m2 = re2.exec(text))) {
-            const id = (m2.groups?.id ?? "").trim();
-            const img = (m2.groups?.img ?? "").trim();
-            if (!id || !img) continue;
-            if (!/makerworld/i.test(img)) continue;
-            if (discoveredIds.has(id)) continue;
+      // Handled right away: a worker can fail (or see the job cancelled) while discovery is still running,
+      // long before workerPromise is awaited, and an unhandled rejection would take the whole process down.
+      let workerError: unknown = null;
+      const workerPromise = Promise.all(Array.from({ length: concurrency }, () => worker())).catch((err: unknown) => {
+        workerError = err;
+        stopped = true;
+      });
+
+      const discover = async () => {
+        const listPage = await context.newPage();
+
+        const addFromText = (text: string) => {
+          const newItems: Discovered[] = [];
+          const re = /https?:\/\/makerworld\.com\/(zh|en)\/models\/\d+/g;
+          let m: RegExpExecArray | null;
+          while ((m = re.exec(text))) {
+            const found = extractModelIdAndUrl(m[0]);
+            if (!found) continue;
+            if (discoveredIds.has(found.id)) continue;
             if (discoveredIds.size >= config.limitModels) break;
-            const url = `https://makerworld.com/zh/models/${id}`;
-            discoveredIds.add(id);
-            newItems.push({ id, url, cover_image_url: img });
-            cnt += 1;
-            if (cnt >= 200) break;
+            discoveredIds.add(found.id);
+            newItems.push(found);
           }
-        }
 
-        return newItems;
-      };
+          if (newItems.length < 20) {
+            const re2 =
+              /"id"\s*:\s*"?(?<id>\d{4,})"?[\s\S]{0,600}?"(?<k>cover|coverImage|coverImageUrl|thumbnail|thumbnailUrl|image|imageUrl|designImage|designImageUrl)"\s*:\s*"(?<img>https?:\/\/[^"]+)"/g;
+            let m2: RegExpExecArray | null;
+            let cnt = 0;
+            while ((m2 = re2.exec(text))) {
+              const id = (m2.groups?.id ?? "").trim();
+              const img = (m2.groups?.img ?? "").trim();
+              if (!id || !img) continue;
+              if (!/makerworld/i.test(img)) continue;
+              if (discoveredIds.has(id)) continue;
+              if (discoveredIds.size >= config.limitModels) break;
+              const url = `https://makerworld.com/zh/models/${id}`;
+              discoveredIds.add(id);
+              newItems.push({ id, url, cover_image_url: img });
+              cnt += 1;
+              if (cnt >= 200) break;
+            }
+          }
 
-      const onResponse = async (resp: any) => {
-        if (discoveredIds.size >= config.limitModels) return;
-        try {
-          const url = resp.url?.() ?? "";
-          if (!/api|graphql|models/i.test(url)) return;
-          const headers = await resp.headers?.();
-          const ct = (headers?.["content-type"] ?? "").toLowerCase();
-          if (!ct.includes("application/json") && !ct.includes("text/plain")) return;
-          const text = await resp.text();
-          if (text.length > 2_000_000) return;
-          const items = addFromText(text);
-          if (items.length > 0) {
-            push(items);
-            await persistDiscovered(items);
-            await db
-              .updateTable("crawl_jobs")
-              .set({ discovered_count: sql`discovered_count + ${items.length}` })
-              .where("id", "=", jobId)
-              .execute();
+          return newItems;
+        };
+
+        const onResponse = async (resp: any) => {
+          if (discoveredIds.size >= config.limitModels) return;
+          try {
+            const url = resp.url?.() ?? "";
+            if (!/api|graphql|models/i.test(url)) return;
+            const headers = await resp.headers?.();
+            const ct = (headers?.["content-type"] ?? "").toLowerCase();
+            if (!ct.includes("application/json") && !ct.includes("text/plain")) return;
+            const text = await resp.text();
+            if (text.length > 2_000_000) return;
+            const items = addFromText(text);
+            if (items.length > 0) {
+              await persistDiscovered(items);
+              await push(items);
+              await db
+                .updateTable("crawl_jobs")
+                .set({ discovered_count: sql`discovered_count + ${items.length}` })
+                .where("id", "=", jobId)
+                .execute();
+            }
+          } catch {}
+        };
+
+        listPage.on("response", onResponse);
+
+        const openListPage = async (url: string) => {
+          await listPage.goto(url, { waitUntil: "domcontentloaded", timeout: 60000 });
+          await listPage.waitForTimeout(1500);
+          const listSample = (await listPage.locator("body").innerText().catch(() => ""))?.slice(0, 1200) ?? "";
+          if (listSample.includes("Cloudflare") || listSample.includes("验证您是真人")) {
+            throw new Error("CLOUDFLARE_BLOCKED");
           }
-        } catch {}
-      };
+        };
+
+        const collectFromDom = async () => {
+          const domItems = (await listPage.evaluate(
+            `(() => {
+              const byId = new Map();
+              const anchors = Array.from(document.querySelectorAll('a[href]'));
+
+              const pushUrl = (arr, u) => {
+                if (!u) return;
+                const url = String(u).trim();
+                if (!url) return;
+                if (url.startsWith('data:')) return;
+                if (url.includes('avatar')) return;
+                arr.push(url);
+              };
 
-      listPage.on("response", onResponse);
-      await listPage.goto(config.startUrl, { waitUntil: "domcontentloaded", timeout: 60000 });
-      await listPage.waitForTimeout(1500);
-      const listSample = (await listPage.locator("body").innerText().catch(() => ""))?.slice(0, 1200) ?? "";
-      if (listSample.includes("Cloudflare") || listSample.includes("验证您是真人")) {
-        await updateStatus("failed", { finished_at: nowIso(), last_error: "CLOUDFLARE_BLOCKED" });
-        return;
-      }
+              const pickCover = (anchor) => {
+                const findContainer = () => {
+                  let el = anchor;
+                  for (let i = 0; i < 8 && el; i++) {
+                    const hasImg = el.querySelector && (el.querySelector('img') || el.querySelector('source'));
+                    const bgInline = (el.style && el.style.backgroundImage) ? el.style.backgroundImage : '';
+                    const bgComputed = (getComputedStyle(el).backgroundImage || '');
+                    if (hasImg || bgInline.includes('url(') || (bgComputed && bgComputed !== 'none')) return el;
+                    el = el.parentElement;
+                  }
+                  return anchor.closest('article') || anchor.closest('li') || anchor.closest('div');
+                };
+
+                const container = findContainer();
+                if (!container) return null;
+                const candidates = [];
+
+                for (const img of Array.from(container.querySelectorAll('img'))) {
+                  pushUrl(candidates, img.currentSrc || '');
+                  pushUrl(candidates, img.src || '');
+                  const srcset = img.getAttribute('srcset') || (img.dataset && img.dataset.srcset) || '';
+                  if (srcset) {
+                    const first = (srcset.split(',')[0] || '').trim().split(' ')[0] || '';
+                    pushUrl(candidates, first);
+                  }
+                  pushUrl(candidates, (img.dataset && (img.dataset.src || img.dataset.original)) || '');
+                }
 
-      for (let i = 0; i < config.maxScrolls; i++) {
-        await waitIfPausedOrCancelled();
-
-        const domItems = (await listPage.evaluate(
-          `(() => {
-            const byId = new Map();
-            const anchors = Array.from(document.querySelectorAll('a[href]'));
-
-            const pushUrl = (arr, u) => {
-              if (!u) return;
-              const url = String(u).trim();
-              if (!url) return;
-              if (url.startsWith('data:')) return;
-              if (url.includes('avatar')) return;
-              arr.push(url);
-            };
-
-            const pickCover = (anchor) => {
-              const findContainer = () => {
-                let el = anchor;
-                for (let i = 0; i < 8 && el; i++) {
-                  const hasImg = el.querySelector && (el.querySelector('img') || el.querySelector('source'));
-                  const bgInline = (el.style && el.style.backgroundImage) ? el.style.backgroundImage : '';
-                  const bgComputed = (getComputedStyle(el).backgroundImage || '');
-                  if (hasImg || bgInline.includes('url(') || (bgComputed && bgComputed !== 'none')) return el;
-                  el = el.parentElement;
+                for (const src of Array.from(container.querySelectorAll('source'))) {
+                  const srcset = src.srcset || src.getAttribute('srcset') || '';
+                  if (srcset) {
+                    const first = (srcset.split(',')[0] || '').trim().split(' ')[0] || '';
+                    pushUrl(candidates, first);
+                  }
                 }
-                return anchor.closest('article') || anchor.closest('li') || anchor.closest('div');
-              };
 
-              const container = findContainer();
-              if (!container) return null;
-              const candidates = [];
-
-              for (const img of Array.from(container.querySelectorAll('img'))) {
-                pushUrl(candidates, img.currentSrc || '');
-                pushUrl(candidates, img.src || '');
-                const srcset = img.getAttribute('srcset') || (img.dataset && img.dataset.srcset) || '';
-                if (srcset) {
-                  const first = (srcset.split(',')[0] || '').trim().split(' ')[0] || '';
-                  pushUrl(candidates, first);
+                for (const el of Array.from(container.querySelectorAll('[style*=\"background\"]'))) {
+                  const style = el.getAttribute('style') || '';
+                  const m = style.match(/url\\((['\"]?)(.*?)\\1\\)/);
+                  if (m && m[2]) pushUrl(candidates, m[2]);
                 }
-                pushUrl(candidates, (img.dataset && (img.dataset.src || img.dataset.original)) || '');
-              }
 
-              for (const src of Array.from(container.querySelectorAll('source'))) {
-                const srcset = src.srcset || src.getAttribute('srcset') || '';
-                if (srcset) {
-                  const first = (srcset.split(',')[0] || '').trim().split(' ')[0] || '';
-                  pushUrl(candidates, first);
+                const bgNodes = [container].concat(Array.from(container.querySelectorAll('*')).slice(0, 60));
+                for (const node of bgNodes) {
+                  const bg = (getComputedStyle(node).backgroundImage || '');
+                  if (!bg || bg === 'none') continue;
+                  const m = bg.match(/url\\((['\"]?)(.*?)\\1\\)/);
+                  if (m && m[2]) pushUrl(candidates, m[2]);
                 }
-              }
 
-              for (const el of Array.from(container.querySelectorAll('[style*=\"background\"]'))) {
-                const style = el.getAttribute('style') || '';
-                const m = style.match(/url\\((['\"]?)(.*?)\\1\\)/);
-                if (m && m[2]) pushUrl(candidates, m[2]);
-              }
+                const prefer = candidates.find((c) => /makerworld|design|model|image/i.test(c));
+                return prefer || candidates[0] || null;
+              };
 
-              const bgNodes = [container].concat(Array.from(container.querySelectorAll('*')).slice(0, 60));
-              for (const node of bgNodes) {
-                const bg = (getComputedStyle(node).backgroundImage || '');
-                if (!bg || bg === 'none') continue;
-                const m = bg.match(/url\\((['\"]?)(.*?)\\1\\)/);
-                if (m && m[2]) pushUrl(candidates, m[2]);
+              for (const a of anchors) {
+                const href = a.href || '';
+                const m = href.match(/https?:\\/\\/makerworld\\.com\\/(zh|en)\\/models\\/(\\d+)/);
+                if (!m) continue;
+                const id = m[2];
+                const url = 'https://makerworld.com/' + m[1] + '/models/' + id;
+                const cover = pickCover(a);
+                const title = (
+                  (a.closest('article') && (a.closest('article').querySelector('h3')?.textContent || a.closest('article').querySelector('h2')?.textContent)) ||
+                  a.textContent ||
+                  ''
+                ).trim();
+
+                const prev = byId.get(id);
+                if (!prev) byId.set(id, { id, url, cover_image_url: cover, title: title || null });
+                else {
+                  if (!prev.cover_image_url && cover) prev.cover_image_url = cover;
+                  if ((!prev.title || prev.title.length < 4) && title) prev.title = title;
+                }
               }
 
-              const prefer = candidates.find((c) => /makerworld|design|model|image/i.test(c));
-              return prefer || candidates[0] || null;
-            };
-
-            for (const a of anchors) {
-              const href = a.href || '';
-              const m = href.match(/https?:\\/\\/makerworld\\.com\\/(zh|en)\\/models\\/(\\d+)/);
-              if (!m) continue;
-              const id = m[2];
-              const url = 'https://makerworld.com/' + m[1] + '/models/' + id;
-              const cover = pickCover(a);
-              const title = (
-                (a.closest('article') && (a.closest('article').querySelector('h3')?.textContent || a.closest('article').querySelector('h2')?.textContent)) ||
-                a.textContent ||
-                ''
-              ).trim();
-
-              const prev = byId.get(id);
-              if (!prev) byId.set(id, { id, url, cover_image_url: cover, title: title || null });
-              else {
-                if (!prev.cover_image_url && cover) prev.cover_image_url = cover;
-                if ((!prev.title || prev.title.length < 4) && title) prev.title = title;
-              }
+              return Array.from(byId.values());
+            })()`,
+          )) as Discovered[];
+
+          const newItems: Discovered[] = [];
+          const enrichItems: Discovered[] = [];
+          for (const it of domItems) {
+            if (discoveredIds.has(it.id)) {
+              if (it.cover_image_url || it.title || it.author_name) enrichItems.push(it);
+              continue;
             }
+            if (discoveredIds.size >= config.limitModels) break;
+            discoveredIds.add(it.id);
+            newItems.push(it);
+          }
 
-            return Array.from(byId.values());
-          })()`,
-        )) as Discovered[];
+          if (enrichItems.length > 0) {
+            await persistDiscovered(enrichItems);
+          }
 
-        const newItems: Discovered[] = [];
-        const enrichItems: Discovered[] = [];
-        for (const it of domItems) {
-          if (discoveredIds.has(it.id)) {
-            if (it.cover_image_url || it.title || it.author_name) enrichItems.push(it);
-            continue;
+          if (newItems.length > 0) {
+            await persistDiscovered(newItems);
+            await push(newItems);
+            await db
+              .updateTable("crawl_jobs")
+              .set({ discovered_count: sql`discovered_count + ${newItems.length}` })
+              .where("id", "=", jobId)
+              .execute();
           }
-          if (discoveredIds.size >= config.limitModels) break;
-          discoveredIds.add(it.id);
-          newItems.push(it);
-        }
+        };
+
+        const saveProgress = async (count: number) => {
+          await db.updateTable("crawl_jobs").set({ scroll_count: count }).where("id", "=", jobId).execute();
+        };
+
+        if (plan.pagination === "page") {
+          let emptyPages = 0;
+          for (let i = job.scroll_count; i < config.maxScrolls; i++) {
+            await waitIfPausedOrCancelled();
+            const before = discoveredIds.size;
+            await openListPage(plan.pageUrl(i + 1));
+            await listPage.mouse.wheel(0, 2600);
+            await listPage.waitForTimeout(withJitter(900));
+            await collectFromDom();
+            await saveProgress(i + 1);
+            if (discoveredIds.size >= config.limitModels) break;
+            emptyPages = discoveredIds.size === before ? emptyPages + 1 : 0;
+            if (emptyPages >= 2) break;
+          }
+        } else {
+          await openListPage(plan.startUrl);
 
-        if (enrichItems.length > 0) {
-          await persistDiscovered(enrichItems);
+          for (let i = 0; i < Math.min(job.scroll_count, config.maxScrolls); i++) {
+            await listPage.mouse.wheel(0, 2600);
+            await listPage.waitForTimeout(300);
+          }
+
+          for (let i = job.scroll_count; i < config.maxScrolls; i++) {
+            await waitIfPausedOrCancelled();
+            await collectFromDom();
+            if (discoveredIds.size >= config.limitModels) break;
+            await listPage.mouse.wheel(0, 2600);
+            await listPage.waitForTimeout(withJitter(900));
+            await saveProgress(i + 1);
+          }
         }
 
-        if (newItems.length > 0) {
-          push(newItems);
-          await persistDiscovered(newItems);
-          await db
-            .updateTable("crawl_jobs")
-            .set({ discovered_count: sql`discovered_count + ${newItems.length}` })
-            .where("id", "=", jobId)
-            .execute();
+        listPage.off("response", onResponse);
+        await listPage.close();
+      };
+
+      const seedRefresh = async () => {
+        const cutoff = new Date(Date.now() - Math.max(0, config.staleHours ?? 24) * 3_600_000).toISOString();
+        let q = db
+          .selectFrom("models")
+          .select(["models.id as id", "models.url as url"])
+          .where("models.updated_at", "<", cutoff);
+        if (config.projectId) {
+          q = q
+            .innerJoin("project_models", "project_models.model_id", "models.id")
+            .where("project_models.project_id", "=", config.projectId);
         }
+        const rows = await q.orderBy("models.updated_at", "asc").limit(config.limitModels).execute();
+        const items = rows.filter((r) => !discoveredIds.has(r.id));
+        for (const it of items) discoveredIds.add(it.id);
+        await push(items);
+        await db
+          .updateTable("crawl_jobs")
+          .set({ discovered_count: sql`discovered_count + ${items.length}` })
+          .where("id", "=", jobId)
+          .execute();
+      };
 
-        if (discoveredIds.size >= config.limitModels) break;
-        await listPage.mouse.wheel(0, 2600);
-        await listPage.waitForTimeout(withJitter(900));
+      let discoveryError: unknown = null;
+      if (!discoveryDone) {
+        try {
+          if (config.mode === "refresh") await seedRefresh();
+          else await discover();
+          await db.updateTable("crawl_jobs").set({ discovery_done: 1 }).where("id", "=", jobId).execute();
+        } catch (err) {
+          discoveryError = err;
+          stopped = true;
+        }
       }
 
       discoveryDone = true;
@@ -387,20 +514,27 @@ export async function runCrawlJob(db: Kysely<Database>, jobId: string) {
         fn();
       }
 
-      listPage.off("response", onResponse);
-      await listPage.close();
-
       await workerPromise;
+      if (workerError) throw workerError;
+      if (discoveryError) throw discoveryError;
+
+      if (cancellation.isCancelled()) return;
+      const current = await db.selectFrom("crawl_jobs").select(["status"]).where("id", "=", jobId).executeTakeFirst();
+      if (current?.status !== "running") return;
 
       await updateStatus("completed", { finished_at: nowIso() });
     } finally {
-      await context.close();
+      cancellation.stop();
+      await context.close().catch(() => {});
       await browser.close();
     }
 
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
-    if (message === "JOB_CANCELLED") return;
+    // A lost lease means another worker runs the job now; its status is no longer ours to write.
+    if (message === "JOB_CANCELLED" || signal?.aborted) return;
+    const current = await db.selectFrom("crawl_jobs").select(["status"]).where("id", "=", jobId).executeTakeFirst();
+    if (!current || current.status === "cancelled") return;
     await updateStatus("failed", { finished_at: nowIso(), last_error: message });
   }
 }
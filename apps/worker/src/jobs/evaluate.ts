@@ -0,0 +1,122 @@
+import type { Kysely } from "kysely";
+import { sql } from "kysely";
+import type { Database, LabelJobStatus } from "../db/types";
+import { nowIso } from "../lib/ids";
+import { loadRubric } from "../db/rubrics";
+import { loadReferenceImages } from "../db/references";
+import { snapshotGoldSet } from "../db/evaluations";
+import { loadPriceTable } from "../db/prices";
+import { labelModel } from "../label/providers";
+import { cacheModelImages, labelImageSources } from "../images/cache";
+import { labelCallCost } from "../label/cost";
+import type { LabelProviderName } from "../label/types";
+import { watchCancellation } from "./cancel";
+
+export interface EvalRunConfig {
+  provider?: LabelProviderName;
+  rubricVersion: number;
+  referenceImageIds: string[];
+}
+
+// Labels the gold set with the run's provider/rubric; results stay in eval_results and never touch model_labels.
+export async function runEvalJob(db: Kysely<Database>, evalRunId: string, signal?: AbortSignal) {
+  const run = await db.selectFrom("eval_runs").selectAll().where("id", "=", evalRunId).executeTakeFirst();
+  if (!run || run.finished_at) return;
+
+  const config = JSON.parse(run.config_json) as EvalRunConfig;
+
+  const updateStatus = async (status: LabelJobStatus, patch?: Partial<Database["eval_runs"]>) => {
+    await db
+      .updateTable("eval_runs")
+      .set({ status, ...patch })
+      .where("id", "=", evalRunId)
+      .execute();
+  };
+
+  await updateStatus("running", { started_at: run.started_at ?? nowIso(), last_error: null });
+
+  const cancellation = watchCancellation(db, "eval_runs", evalRunId, () => {}, signal);
+  try {
+    const existing = await db
+      .selectFrom("eval_results")
+      .select(["id"])
+      .where("eval_run_id", "=", evalRunId)
+      .limit(1)
+      .executeTakeFirst();
+    if (!existing) {
+      const total = await snapshotGoldSet(db, evalRunId, run.project_id);
+      await db.updateTable("eval_runs").set({ total_count: total }).where("id", "=", evalRunId).execute();
+    }
+
+    const rubric = await loadRubric(db, config.rubricVersion);
+    const references = await loadReferenceImages(db, config.referenceImageIds);
+    const prices = await loadPriceTable(db);
+    const pending = await db
+      .selectFrom("eval_results")
+      .innerJoin("models", "models.id", "eval_results.model_id")
+      .select(["eval_results.id as id", "eval_results.model_id as model_id", "models.url as url", "models.cover_image_url as cover"])
+      .where("eval_results.eval_run_id", "=", evalRunId)
+      .where("eval_results.finished_at", "is", null)
+      .execute();
+
+    for (const row of pending) {
+      if (cancellation.isCancelled()) return;
+      const images = await db
+        .selectFrom("model_images")
+        .select(["url"])
+        .where("model_id", "=", row.model_id)
+        .orderBy("idx", "asc")
+        .limit(12)
+        .execute();
+      let imageUrls = images.map((x) => x.url).filter(Boolean);
+      if (imageUrls.length === 0 && row.cover) imageUrls = [row.cover];
+
+      try {
+        if (imageUrls.length === 0) throw new Error("EVAL_NO_IMAGES");
+        await cacheModelImages(db, row.model_id);
+        const imageSources = await labelImageSources(db, row.model_id, imageUrls);
+        const sample = await labelModel({ imageUrls: imageSources, url: row.url }, { provider: config.provider, rubric, references });
+        await db
+          .updateTable("eval_results")
+          .set({
+            predicted_grade: sample.result.grade,
+            predicted_json: JSON.stringify(sample.result.extracted),
+            latency_ms: sample.latencyMs,
+            input_tokens: sample.usage.inputTokens,
+            output_tokens: sample.usage.outputTokens,
+            image_tokens: sample.usage.imageTokens,
+            image_count: sample.imageCount,
+            cost: labelCallCost(prices.get(sample.model), sample.usage, sample.imageCount),
+            finished_at: nowIso(),
+          })
+          .where("id", "=", row.id)
+          .execute();
+        await db.updateTable("eval_runs").set({ processed_count: sql`processed_count + 1` }).where("id", "=", evalRunId).execute();
+      } catch (err) {
+        if (cancellation.isCancelled()) return;
+        const message = err instanceof Error ? err.message : String(err);
+        await db.updateTable("eval_results").set({ error: message, finished_at: nowIso() }).where("id", "=", row.id).execute();
+        await db
+          .updateTable("eval_runs")
+          .set({ failed_count: sql`failed_count + 1`, last_error: message })
+          .where("id", "=", evalRunId)
+          .execute();
+      }
+    }
+
+    if (cancellation.isCancelled()) return;
+    // Conditional: cancellation is only polled, so a cancel that landed after the last sample must not be overwritten.
+    await db
+      .updateTable("eval_runs")
+      .set({ status: "completed", finished_at: nowIso() })
+      .where("id", "=", evalRunId)
+      .where("status", "=", "running")
+      .execute();
+  } catch (err) {
+    if (signal?.aborted) return;
+    const message = err instanceof Error ? err.message : String(err);
+    await updateStatus("failed", { finished_at: nowIso(), last_error: message });
+  } finally {
+    cancellation.stop();
+  }
+}
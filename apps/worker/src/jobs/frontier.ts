@@ -0,0 +1,157 @@
+import type { Kysely } from "kysely";
+import { sql } from "kysely";
+import type { Database, CrawlErrorClass, CrawlFrontierRow } from "../db/types";
+import { nowIso, randomId } from "../lib/ids";
+
+export function frontierId(jobId: string, modelId: string) {
+  return `${jobId}_${modelId}`;
+}
+
+export async function enqueueFrontier(db: Kysely<Database>, jobId: string, items: { id: string; url: string }[]) {
+  if (items.length === 0) return;
+  const now = nowIso();
+  for (let i = 0; i < items.length; i += 500) {
+    await db
+      .insertInto("crawl_frontier")
+      .values(
+        items.slice(i, i + 500).map((it) => ({
+          id: frontierId(jobId, it.id),
+          job_id: jobId,
+          model_id: it.id,
+          url: it.url,
+          state: "pending" as const,
+          attempt_count: 0,
+          last_error: null,
+          error_class: null,
+          next_attempt_at: null,
+          created_at: now,
+          updated_at: now,
+        })),
+      )
+      .onConflict((oc) => oc.column("id").doNothing())
+      .execute();
+  }
+}
+
+export async function listFrontierModelIds(db: Kysely<Database>, jobId: string) {
+  const rows = await db.selectFrom("crawl_frontier").select(["model_id"]).where("job_id", "=", jobId).execute();
+  return rows.map((r) => r.model_id);
+}
+
+export async function claimFrontier(db: Kysely<Database>, jobId: string): Promise<CrawlFrontierRow | null> {
+  while (true) {
+    const next = await db
+      .selectFrom("crawl_frontier")
+      .selectAll()
+      .where("job_id", "=", jobId)
+      .where("state", "=", "pending")
+      .where((eb) => eb.or([eb("next_attempt_at", "is", null), eb("next_attempt_at", "<=", nowIso())]))
+      .orderBy("created_at", "asc")
+      .orderBy("id", "asc")
+      .limit(1)
+      .executeTakeFirst();
+    if (!next) return null;
+
+    const result = await db
+      .updateTable("crawl_frontier")
+      .set({ state: "in_flight", attempt_count: sql`attempt_count + 1`, updated_at: nowIso() })
+      .where("id", "=", next.id)
+      .where("state", "=", "pending")
+      .executeTakeFirst();
+    if (Number(result.numUpdatedRows) > 0) {
+      return { ...next, state: "in_flight", attempt_count: next.attempt_count + 1 };
+    }
+  }
+}
+
+export async function countPendingFrontier(db: Kysely<Database>, jobId: string) {
+  const row = await db
+    .selectFrom("crawl_frontier")
+    .select((eb) => eb.fn.countAll().as("count"))
+    .where("job_id", "=", jobId)
+    .where("state", "=", "pending")
+    .executeTakeFirstOrThrow();
+  return Number(row.count);
+}
+
+export async function completeFrontier(db: Kysely<Database>, id: string) {
+  await db
+    .updateTable("crawl_frontier")
+    .set({ state: "done", last_error: null, error_class: null, next_attempt_at: null, updated_at: nowIso() })
+    .where("id", "=", id)
+    .execute();
+}
+
+export async function failFrontier(db: Kysely<Database>, id: string, errorClass: CrawlErrorClass, message: string) {
+  await db
+    .updateTable("crawl_frontier")
+    .set({ state: "failed", last_error: message, error_class: errorClass, next_attempt_at: null, updated_at: nowIso() })
+    .where("id", "=", id)
+    .execute();
+}
+
+export async function retryFrontier(
+  db: Kysely<Database>,
+  id: string,
+  errorClass: CrawlErrorClass,
+  message: string,
+  delayMs: number,
+) {
+  await db
+    .updateTable("crawl_frontier")
+    .set({
+      state: "pending",
+      last_error: message,
+      error_class: errorClass,
+      next_attempt_at: new Date(Date.now() + delayMs).toISOString(),
+      updated_at: nowIso(),
+    })
+    .where("id", "=", id)
+    .execute();
+}
+
+export async function recordCrawlFailure(
+  db: Kysely<Database>,
+  entry: { row: CrawlFrontierRow; errorClass: CrawlErrorClass; message: string },
+) {
+  await db
+    .insertInto("crawl_failures")
+    .values({
+      id: randomId("cfail"),
+      job_id: entry.row.job_id,
+      model_id: entry.row.model_id,
+      url: entry.row.url,
+      attempt: entry.row.attempt_count,
+      error_class: entry.errorClass,
+      message: entry.message,
+      created_at: nowIso(),
+    })
+    .execute();
+}
+
+export async function resetFailedFrontier(db: Kysely<Database>, jobId: string) {
+  const result = await db
+    .updateTable("crawl_frontier")
+    .set({ state: "pending", attempt_count: 0, next_attempt_at: null, updated_at: nowIso() })
+    .where("job_id", "=", jobId)
+    .where("state", "=", "failed")
+    .executeTakeFirst();
+  return Number(result.numUpdatedRows);
+}
+
+export async function releaseFrontier(db: Kysely<Database>, id: string, message?: string) {
+  await db
+    .updateTable("crawl_frontier")
+    .set({ state: "pending", last_error: message ?? null, updated_at: nowIso() })
+    .where("id", "=", id)
+    .execute();
+}
+
+export async function releaseInFlight(db: Kysely<Database>, jobId: string) {
+  await db
+    .updateTable("crawl_frontier")
+    .set({ state: "pending", updated_at: nowIso() })
+    .where("job_id", "=", jobId)
+    .where("state", "=", "in_flight")
+    .execute();
+}
@@ -0,0 +1,32 @@
+interface JobTimes {
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  config_json: string;
+}
+
+function maskSecret(value: string) {
+  if (value.length <= 8) return "***";
+  return `${value.slice(0, 4)}***${value.slice(-4)}`;
+}
+
+export function publicJobConfig(configJson: string) {
+  const config = JSON.parse(configJson) as Record<string, unknown>;
+  if (typeof config.cookieHeader === "string" && config.cookieHeader) {
+    config.cookieHeader = maskSecret(config.cookieHeader);
+  }
+  return config;
+}
+
+export function summarizeJob<T extends JobTimes>(row: T, processed: number, now = Date.now()) {
+  const { config_json, ...rest } = row;
+  const start = row.started_at ? Date.parse(row.started_at) : null;
+  const end = row.finished_at ? Date.parse(row.finished_at) : now;
+  const durationMs = start === null ? null : Math.max(0, end - start);
+  return {
+    ...rest,
+    config: publicJobConfig(config_json),
+    durationMs,
+    throughputPerMin: durationMs ? (processed / durationMs) * 60_000 : null,
+  };
+}
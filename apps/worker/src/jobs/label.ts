@@ -1,17 +1,58 @@
 import type { Kysely } from "kysely";
 import { sql } from "kysely";
-import type { Database, LabelJobStatus } from "../db/types";
-import { nowIso } from "../lib/ids";
-import { labelWithOpenAI } from "../label/openai";
+import type { Database, Grade, LabelErrorClass, LabelJobStatus } from "../db/types";
+import { env } from "../env";
+import { nowIso, randomId } from "../lib/ids";
+import { publishJobEvent } from "../lib/events";
+import { saveScrapedModel } from "../db/models";
+import { randomAuditKey, reviewSignals } from "../db/reviewQueue";
+import { cacheModelImages, labelImageSources } from "../images/cache";
+import { loadRubric } from "../db/rubrics";
+import { loadReferenceImages, selectReferenceImageIds } from "../db/references";
+import { loadPriceTable } from "../db/prices";
+import { labelModel } from "../label/providers";
+import { consensusLabel, type ConsensusMethod } from "../label/consensus";
+import { labelCallCost } from "../label/cost";
+import { classifyLabelError, LabelOutputError } from "../label/errors";
+import type { LabelProviderName, LabelResult } from "../label/types";
 import { createContext, scrapeModelPageInContext } from "../crawler/makerworld";
+import { latestCookieHeader } from "./crawl";
+import { watchCancellation } from "./cancel";
+
+export type LabelJobMode = "unlabeled" | "relabel";
+
+// Which already-labeled models a relabel job picks up; all conditions apply to the current label.
+export interface RelabelFilter {
+  grades?: Grade[];
+  labeledAfter?: string;
+  labeledBefore?: string;
+  providers?: LabelProviderName[];
+}
 
 export interface LabelJobConfig {
   limit: number | null;
+  mode?: LabelJobMode;
+  filter?: RelabelFilter;
+  projectId?: string;
+  provider?: LabelProviderName;
+  rubricVersion?: number;
+  referenceImageIds?: string[];
+  samples?: number;
+  sampleProviders?: LabelProviderName[];
+  consensus?: ConsensusMethod;
+  concurrency?: number;
+  budget?: number;
+}
+
+// Sample i goes to sampleProviders[i] (cycling), so a job can mix backends; otherwise every sample uses `provider`.
+export function sampleProvider(config: LabelJobConfig, index: number) {
+  const list = config.sampleProviders ?? [];
+  return list.length > 0 ? list[index % list.length] : config.provider;
 }
 
-export async function runLabelJob(db: Kysely<Database>, jobId: string) {
+export async function runLabelJob(db: Kysely<Database>, jobId: string, signal?: AbortSignal) {
   const job = await db.selectFrom("label_jobs").selectAll().where("id", "=", jobId).executeTakeFirst();
-  if (!job) return;
+  if (!job || job.finished_at) return;
 
   const config = JSON.parse(job.config_json) as LabelJobConfig;
 
@@ -21,24 +62,37 @@ export async function runLabelJob(db: Kysely<Database>, jobId: string) {
       .set({ status, ...patch })
       .where("id", "=", jobId)
       .execute();
+    publishJobEvent(jobId, { type: "status", status, lastError: patch?.last_error });
   };
 
-  await updateStatus("running", { started_at: nowIso(), last_error: null });
+  await updateStatus(job.status === "paused" ? "paused" : "running", {
+    started_at: job.started_at ?? nowIso(),
+    last_error: null,
+  });
 
   try {
-    const latestCrawl = await db.selectFrom("crawl_jobs").select(["config_json"]).orderBy("created_at", "desc").limit(1).executeTakeFirst();
-    const cookieHeader = (() => {
-      try {
-        const parsed = latestCrawl ? (JSON.parse(latestCrawl.config_json) as any) : null;
-        return typeof parsed?.cookieHeader === "string" ? parsed.cookieHeader : undefined;
-      } catch {
-        return undefined;
-      }
-    })();
+    const rubric = await loadRubric(db, config.rubricVersion);
+    const sampleCount = Math.max(1, config.samples ?? 1);
+    const references = await loadReferenceImages(
+      db,
+      config.referenceImageIds ?? (await selectReferenceImageIds(db, rubric.referenceCounts)),
+    );
+    const prices = await loadPriceTable(db);
 
-    const { browser, context } = await createContext({ cookieHeader });
+    // The browser is only needed for models without enough stored images, so start it on first use.
+    // Workers share one launch: the promise is kept so concurrent callers don't each start a browser.
+    let browserContext = null as Awaited<ReturnType<typeof createContext>> | null;
+    let launching: Promise<Awaited<ReturnType<typeof createContext>>> | null = null;
+    const getContext = async () => {
+      launching ??= latestCookieHeader(db).then((cookieHeader) => createContext({ cookieHeader }));
+      browserContext = await launching;
+      return browserContext.context;
+    };
+    const cancellation = watchCancellation(db, "label_jobs", jobId, () => {
+      browserContext?.context.close().catch(() => {});
+    }, signal);
     try {
-      const baseQuery = db
+      let baseQuery = db
         .selectFrom("models")
         .leftJoin("model_labels", "model_labels.model_id", "models.id")
         .select([
@@ -49,8 +103,45 @@ export async function runLabelJob(db: Kysely<Database>, jobId: string) {
           "models.cover_image_url as cover_image_url",
           "model_labels.model_id as labeled_id",
         ])
-        .where("model_labels.model_id", "is", null)
         .orderBy("models.updated_at", "desc");
+      if (config.mode === "relabel") {
+        const filter = config.filter ?? {};
+        // Skipping models this job already relabeled keeps a resumed job from starting over.
+        baseQuery = baseQuery
+          .where("model_labels.model_id", "is not", null)
+          .where(({ not, exists, selectFrom }) =>
+            not(
+              exists(
+                selectFrom("label_runs")
+                  .select("label_runs.id")
+                  .whereRef("label_runs.model_id", "=", "models.id")
+                  .where("label_runs.job_id", "=", jobId),
+              ),
+            ),
+          );
+        if (filter.grades?.length) baseQuery = baseQuery.where("model_labels.grade", "in", filter.grades);
+        if (filter.labeledAfter) baseQuery = baseQuery.where("model_labels.updated_at", ">=", filter.labeledAfter);
+        if (filter.labeledBefore) baseQuery = baseQuery.where("model_labels.updated_at", "<", filter.labeledBefore);
+        if (filter.providers?.length) {
+          const providers = filter.providers;
+          baseQuery = baseQuery.where(({ exists, selectFrom }) =>
+            exists(
+              selectFrom("label_runs")
+                .select("label_runs.id")
+                .whereRef("label_runs.model_id", "=", "models.id")
+                .where("label_runs.is_current", "=", 1)
+                .where("label_runs.provider", "in", providers),
+            ),
+          );
+        }
+      } else {
+        baseQuery = baseQuery.where("model_labels.model_id", "is", null);
+      }
+      if (config.projectId) {
+        baseQuery = baseQuery
+          .innerJoin("project_models", "project_models.model_id", "models.id")
+          .where("project_models.project_id", "=", config.projectId);
+      }
 
       const candidates = config.limit ? await baseQuery.limit(config.limit).execute() : await baseQuery.execute();
 
@@ -58,8 +149,26 @@ export async function runLabelJob(db: Kysely<Database>, jobId: string) {
 
       const waitIfPausedOrCancelled = async () => {
         while (true) {
-          const current = await db.selectFrom("label_jobs").select(["status"]).where("id", "=", jobId).executeTakeFirst();
+          if (cancellation.isCancelled()) throw new Error("JOB_CANCELLED");
+          const current = await db
+            .selectFrom("label_jobs")
+            .select(["status", "cost", "budget"])
+            .where("id", "=", jobId)
+            .executeTakeFirst();
           if (!current) throw new Error("JOB_CANCELLED");
+          // Calls already in flight still finish, so spend can end up slightly above the budget.
+          if (current.status === "running" && current.budget !== null && current.cost >= current.budget) {
+            const paused = await db
+              .updateTable("label_jobs")
+              .set({ status: "paused", last_error: "BUDGET_EXCEEDED" })
+              .where("id", "=", jobId)
+              .where("status", "=", "running")
+              .executeTakeFirst();
+            if (Number(paused.numUpdatedRows) > 0) {
+              publishJobEvent(jobId, { type: "status", status: "paused", lastError: "BUDGET_EXCEEDED" });
+            }
+            continue;
+          }
           if (current.status === "paused") {
             await new Promise((r) => setTimeout(r, 1000));
             continue;
@@ -69,8 +178,31 @@ export async function runLabelJob(db: Kysely<Database>, jobId: string) {
         }
       };
 
-      for (const row of candidates) {
-        await waitIfPausedOrCancelled();
+      const recordFailure = async (
+        modelId: string,
+        sampleIndex: number,
+        attempt: number,
+        errorClass: LabelErrorClass,
+        message: string,
+        outputText: string | null,
+      ) => {
+        await db
+          .insertInto("label_failures")
+          .values({
+            id: randomId("lfail"),
+            job_id: jobId,
+            model_id: modelId,
+            sample_index: sampleIndex,
+            attempt,
+            error_class: errorClass,
+            message,
+            output_text: outputText,
+            created_at: nowIso(),
+          })
+          .execute();
+      };
+
+      const labelOne = async (row: (typeof candidates)[number]) => {
 
         try {
           const existingImages = await db
@@ -86,75 +218,170 @@ export async function runLabelJob(db: Kysely<Database>, jobId: string) {
 
           const needScrape = imageUrls.length < 2;
           if (needScrape) {
-            const scraped = await scrapeModelPageInContext(context, { url: row.url });
+            const scraped = await scrapeModelPageInContext(await getContext(), { url: row.url });
             imageUrls = scraped.imageUrls;
-            const coverImageUrl = scraped.imageUrls[0] ?? null;
-
-            await db
-              .updateTable("models")
-              .set({
-                url: scraped.url,
-                title: scraped.title,
-                author_name: scraped.authorName,
-                download_count: scraped.downloadCount,
-                cover_image_url: coverImageUrl,
-                description: scraped.description,
-                updated_at: nowIso(),
-              })
-              .where("id", "=", row.id)
-              .execute();
+            await saveScrapedModel(db, scraped, config.projectId);
+          }
+          await cacheModelImages(db, row.id);
+          const imageSources = await labelImageSources(db, row.id, imageUrls);
 
-            await db.deleteFrom("model_images").where("model_id", "=", row.id).execute();
-            if (scraped.imageUrls.length > 0) {
+          const samples: LabelResult[] = [];
+          let sampleError: unknown = null;
+          for (let i = 0; i < sampleCount; i++) {
+            let invalidOutputs = 0;
+            try {
+              const sample = await labelModel(
+                { imageUrls: imageSources, url: row.url },
+                {
+                  provider: sampleProvider(config, i),
+                  rubric,
+                  references,
+                  onInvalidOutput: async (attempt, error) => {
+                    invalidOutputs = attempt;
+                    await recordFailure(row.id, i, attempt, error.errorClass, error.message, error.outputText);
+                  },
+                },
+              );
+              samples.push(sample.result);
+              const cost = labelCallCost(prices.get(sample.model), sample.usage, sample.imageCount);
+              await db
+                .insertInto("label_runs")
+                .values({
+                  id: randomId("run"),
+                  model_id: row.id,
+                  job_id: jobId,
+                  provider: sample.provider,
+                  model: sample.model,
+                  sample_index: i,
+                  grade: sample.result.grade,
+                  reason: sample.result.reason,
+                  extracted_json: JSON.stringify(sample.result.extracted),
+                  rubric_version: rubric.version,
+                  prompt_hash: sample.promptHash,
+                  raw_output: sample.rawOutput,
+                  latency_ms: sample.latencyMs,
+                  input_tokens: sample.usage.inputTokens,
+                  output_tokens: sample.usage.outputTokens,
+                  image_tokens: sample.usage.imageTokens,
+                  image_count: sample.imageCount,
+                  cost,
+                  attempts: sample.attempts,
+                  is_current: 0,
+                  created_at: nowIso(),
+                })
+                .execute();
               await db
-                .insertInto("model_images")
-                .values(
-                  scraped.imageUrls.map((u, idx) => ({
-                    id: `${row.id}_${idx}`,
-                    model_id: row.id,
-                    idx,
-                    url: u,
-                  })),
-                )
+                .updateTable("label_jobs")
+                .set({
+                  // Repair attempts are provider calls too.
+                  call_count: sql`call_count + ${sample.attempts}`,
+                  input_tokens: sql`input_tokens + ${sample.usage.inputTokens ?? 0}`,
+                  output_tokens: sql`output_tokens + ${sample.usage.outputTokens ?? 0}`,
+                  image_tokens: sql`image_tokens + ${sample.usage.imageTokens ?? 0}`,
+                  latency_ms: sql`latency_ms + ${sample.latencyMs}`,
+                  cost: sql`cost + ${cost ?? 0}`,
+                  unpriced_count: sql`unpriced_count + ${cost === null ? 1 : 0}`,
+                })
+                .where("id", "=", jobId)
                 .execute();
+            } catch (err) {
+              if (cancellation.isCancelled()) throw err;
+              sampleError = err;
+              if (invalidOutputs > 0) {
+                await db
+                  .updateTable("label_jobs")
+                  .set({ call_count: sql`call_count + ${invalidOutputs}` })
+                  .where("id", "=", jobId)
+                  .execute();
+              }
+              // Invalid outputs were already recorded as they happened.
+              if (!(err instanceof LabelOutputError)) {
+                const message = err instanceof Error ? err.message : String(err);
+                await recordFailure(row.id, i, invalidOutputs + 1, classifyLabelError(err), message, null);
+              }
             }
           }
+          if (samples.length === 0) throw sampleError;
 
-          const result = await labelWithOpenAI({
-            imageUrls,
-            url: row.url,
+          const { result, agreement } = consensusLabel(samples, config.consensus);
+          const runGrades = await db.selectFrom("label_runs").select(["grade"]).where("model_id", "=", row.id).execute();
+          const label = {
+            grade: result.grade,
+            reason: result.reason,
+            extracted_json: JSON.stringify(result.extracted),
+            updated_at: nowIso(),
+            rubric_version: rubric.version,
+            sample_count: samples.length,
+            agreement,
+            ...reviewSignals(result.grade, result.extracted, runGrades.map((r) => r.grade)),
+            audit_key: randomAuditKey(),
+          };
+          // model_labels holds the current label; the runs of this job become the current ones behind it.
+          await db.transaction().execute(async (trx) => {
+            await trx
+              .insertInto("model_labels")
+              .values({ model_id: row.id, ...label })
+              .onConflict((oc) => oc.column("model_id").doUpdateSet(label))
+              .execute();
+            await trx
+              .updateTable("label_runs")
+              .set({ is_current: 0 })
+              .where("model_id", "=", row.id)
+              .where("is_current", "=", 1)
+              .execute();
+            await trx
+              .updateTable("label_runs")
+              .set({ is_current: 1 })
+              .where("model_id", "=", row.id)
+              .where("job_id", "=", jobId)
+              .execute();
           });
 
-          await db
-            .insertInto("model_labels")
-            .values({
-              model_id: row.id,
-              grade: result.grade,
-              reason: result.reason,
-              extracted_json: JSON.stringify(result.extracted),
-              updated_at: nowIso(),
-            })
-            .execute();
-
           await db.updateTable("label_jobs").set({ processed_count: sql`processed_count + 1` }).where("id", "=", jobId).execute();
+          publishJobEvent(jobId, { type: "model_done", modelId: row.id, url: row.url, title: row.title, grade: result.grade });
         } catch (err) {
+          if (cancellation.isCancelled()) throw new Error("JOB_CANCELLED");
           const message = err instanceof Error ? err.message : String(err);
           await db
             .updateTable("label_jobs")
             .set({ failed_count: sql`failed_count + 1`, last_error: message })
             .where("id", "=", jobId)
             .execute();
+          publishJobEvent(jobId, { type: "model_failed", modelId: row.id, url: row.url, error: message });
         }
-      }
+      };
 
-      await updateStatus("completed", { finished_at: nowIso() });
+      // Models are handed out one at a time; the provider rate limiter decides how fast calls actually go out.
+      let nextIndex = 0;
+      const worker = async () => {
+        while (nextIndex < candidates.length) {
+          await waitIfPausedOrCancelled();
+          const row = candidates[nextIndex++];
+          if (row) await labelOne(row);
+        }
+      };
+      const concurrency = Math.min(candidates.length, config.concurrency ?? env.LABEL_CONCURRENCY);
+      await Promise.all(Array.from({ length: Math.max(1, concurrency) }, () => worker()));
+
+      if (cancellation.isCancelled()) return;
+      // Conditional: cancellation is only polled, so a cancel that landed after the last model must not be overwritten.
+      const completed = await db
+        .updateTable("label_jobs")
+        .set({ status: "completed", finished_at: nowIso() })
+        .where("id", "=", jobId)
+        .where("status", "in", ["running", "paused"])
+        .executeTakeFirst();
+      if (Number(completed.numUpdatedRows) > 0) publishJobEvent(jobId, { type: "status", status: "completed" });
     } finally {
-      await context.close();
-      await browser.close();
+      cancellation.stop();
+      if (browserContext) {
+        await browserContext.context.close().catch(() => {});
+        await browserContext.browser.close();
+      }
     }
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
-    if (message === "JOB_CANCELLED") return;
+    if (message === "JOB_CANCELLED" || signal?.aborted) return;
     await updateStatus("failed", { finished_at: nowIso(), last_error: message });
   }
 }
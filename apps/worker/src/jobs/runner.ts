@@ -0,0 +1,179 @@
+import type { Kysely } from "kysely";
+import { sql } from "kysely";
+import type { Database, JobRow, QueueJobType } from "../db/types";
+import { nowIso } from "../lib/ids";
+
+export interface JobPayloads {
+  crawl: { crawlJobId: string };
+  label: { labelJobId: string };
+  eval: { evalRunId: string };
+}
+
+// `signal` aborts when the worker loses the job's lease; handlers stop as if the job were cancelled.
+export type JobHandlers = { [K in QueueJobType]: (payload: JobPayloads[K], signal: AbortSignal) => Promise<void> };
+
+export interface RunnerOptions {
+  workerId: string;
+  concurrency: Record<QueueJobType, number>;
+  leaseMs: number;
+  pollMs?: number;
+}
+
+let kick: (() => void) | null = null;
+
+export async function enqueueJob<K extends QueueJobType>(
+  db: Kysely<Database>,
+  type: K,
+  id: string,
+  payload: JobPayloads[K],
+) {
+  const now = nowIso();
+  const payloadJson = JSON.stringify(payload);
+  await db
+    .insertInto("jobs")
+    .values({
+      id,
+      type,
+      payload_json: payloadJson,
+      state: "queued",
+      lease_owner: null,
+      lease_expires_at: null,
+      attempts: 0,
+      created_at: now,
+      updated_at: now,
+      finished_at: null,
+    })
+    .onConflict((oc) =>
+      oc.column("id").doUpdateSet({
+        payload_json: payloadJson,
+        state: "queued",
+        lease_owner: null,
+        lease_expires_at: null,
+        updated_at: now,
+        finished_at: null,
+      }),
+    )
+    .execute();
+  kick?.();
+}
+
+async function claimNext(db: Kysely<Database>, type: QueueJobType, workerId: string, leaseMs: number) {
+  const now = nowIso();
+  const candidates = await db
+    .selectFrom("jobs")
+    .selectAll()
+    .where("type", "=", type)
+    .where((eb) =>
+      eb.or([
+        eb("state", "=", "queued"),
+        eb.and([eb("state", "=", "running"), eb("lease_expires_at", "<", now)]),
+      ]),
+    )
+    .orderBy("created_at")
+    .limit(5)
+    .execute();
+
+  for (const c of candidates) {
+    const leaseUntil = new Date(Date.now() + leaseMs).toISOString();
+    const result = await db
+      .updateTable("jobs")
+      .set({
+        state: "running",
+        lease_owner: workerId,
+        lease_expires_at: leaseUntil,
+        attempts: sql`attempts + 1`,
+        updated_at: now,
+      })
+      .where("id", "=", c.id)
+      .where("state", "=", c.state)
+      .where("lease_owner", c.lease_owner === null ? "is" : "=", c.lease_owner)
+      .where("lease_expires_at", c.lease_expires_at === null ? "is" : "=", c.lease_expires_at)
+      .executeTakeFirst();
+    if (Number(result.numUpdatedRows) === 1) return c;
+  }
+  return null;
+}
+
+export async function releaseOwnLeases(db: Kysely<Database>, workerId: string) {
+  await db
+    .updateTable("jobs")
+    .set({ state: "queued", lease_owner: null, lease_expires_at: null, updated_at: nowIso() })
+    .where("state", "=", "running")
+    .where("lease_owner", "=", workerId)
+    .execute();
+}
+
+export async function startRunner(db: Kysely<Database>, handlers: JobHandlers, options: RunnerOptions) {
+  const { workerId, leaseMs } = options;
+  const active: Record<QueueJobType, number> = { crawl: 0, label: 0, eval: 0 };
+
+  const execute = async (job: JobRow) => {
+    const lease = new AbortController();
+    const heartbeat = setInterval(() => {
+      db.updateTable("jobs")
+        .set({ lease_expires_at: new Date(Date.now() + leaseMs).toISOString() })
+        .where("id", "=", job.id)
+        .where("lease_owner", "=", workerId)
+        .executeTakeFirst()
+        .then((result) => {
+          // The lease expired and another worker claimed the job (or it was deleted): stop running it here.
+          if (Number(result.numUpdatedRows) > 0) return;
+          clearInterval(heartbeat);
+          lease.abort();
+        })
+        .catch(() => {});
+    }, Math.max(1000, Math.floor(leaseMs / 3)));
+
+    try {
+      const handler = handlers[job.type] as (payload: unknown, signal: AbortSignal) => Promise<void>;
+      await handler(JSON.parse(job.payload_json), lease.signal);
+    } catch {
+    } finally {
+      clearInterval(heartbeat);
+      const now = nowIso();
+      await db
+        .updateTable("jobs")
+        .set({ state: "done", lease_owner: null, lease_expires_at: null, updated_at: now, finished_at: now })
+        .where("id", "=", job.id)
+        .where("lease_owner", "=", workerId)
+        .execute()
+        .catch(() => {});
+    }
+  };
+
+  let pumping = false;
+  let again = false;
+  const pump = async () => {
+    if (pumping) {
+      again = true;
+      return;
+    }
+    pumping = true;
+    try {
+      do {
+        again = false;
+        for (const type of Object.keys(active) as QueueJobType[]) {
+          while (active[type] < options.concurrency[type]) {
+            const job = await claimNext(db, type, workerId, leaseMs);
+            if (!job) break;
+            active[type] += 1;
+            execute(job).finally(() => {
+              active[type] -= 1;
+              kick?.();
+            });
+          }
+        }
+      } while (again);
+    } catch {
+    } finally {
+      pumping = false;
+    }
+  };
+
+  await releaseOwnLeases(db, workerId);
+  kick = () => {
+    pump();
+  };
+  pump();
+  return setInterval(pump, options.pollMs ?? 5000);
+}
@@ -0,0 +1,137 @@
+import type { Kysely } from "kysely";
+import type { Database, ScheduleJobType, ScheduleRow } from "../db/types";
+import { nowIso } from "../lib/ids";
+import { nextCronTime } from "../lib/cron";
+
+export type ScheduleLaunchers = Record<ScheduleJobType, (config: unknown) => Promise<string>>;
+
+const TICK_MS = 30_000;
+
+async function jobState(db: Kysely<Database>, type: ScheduleJobType, id: string) {
+  const table = type === "label" ? "label_jobs" : "crawl_jobs";
+  return db.selectFrom(table).select(["status", "finished_at"]).where("id", "=", id).executeTakeFirst();
+}
+
+async function isScheduleBusy(db: Kysely<Database>, schedule: ScheduleRow) {
+  if (schedule.last_job_id) {
+    const job = await jobState(db, schedule.job_type, schedule.last_job_id);
+    if (job && job.finished_at === null) return true;
+  }
+  if (schedule.chained_job_id) {
+    const job = await jobState(db, "label", schedule.chained_job_id);
+    if (job && job.finished_at === null) return true;
+  }
+  return false;
+}
+
+export function computeNextRun(cron: string, after = new Date()) {
+  return nextCronTime(cron, after).toISOString();
+}
+
+export async function runScheduleNow(db: Kysely<Database>, launchers: ScheduleLaunchers, schedule: ScheduleRow) {
+  if (await isScheduleBusy(db, schedule)) throw new Error("SCHEDULE_BUSY");
+  const jobId = await launchers[schedule.job_type](JSON.parse(schedule.config_json));
+  await db
+    .updateTable("schedules")
+    .set({ last_run_at: nowIso(), last_job_id: jobId, chained_job_id: null, last_error: null, updated_at: nowIso() })
+    .where("id", "=", schedule.id)
+    .execute();
+  return jobId;
+}
+
+async function launchChainedLabels(db: Kysely<Database>, launchers: ScheduleLaunchers) {
+  const pending = await db
+    .selectFrom("schedules")
+    .selectAll()
+    .where("then_label", "=", 1)
+    .where("job_type", "!=", "label")
+    .where("last_job_id", "is not", null)
+    .where("chained_job_id", "is", null)
+    .execute();
+
+  for (const schedule of pending) {
+    const job = await jobState(db, schedule.job_type, schedule.last_job_id!);
+    if (!job || job.status !== "completed") continue;
+    const { projectId } = JSON.parse(schedule.config_json) as { projectId?: string };
+    const labelConfig = {
+      ...(projectId ? { projectId } : {}),
+      ...(schedule.label_config_json ? JSON.parse(schedule.label_config_json) : {}),
+    };
+    const claimed = await db
+      .updateTable("schedules")
+      .set({ chained_job_id: "", updated_at: nowIso() })
+      .where("id", "=", schedule.id)
+      .where("chained_job_id", "is", null)
+      .executeTakeFirst();
+    if (Number(claimed.numUpdatedRows) === 0) continue;
+    try {
+      const labelJobId = await launchers.label(labelConfig);
+      await db.updateTable("schedules").set({ chained_job_id: labelJobId }).where("id", "=", schedule.id).execute();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      await db.updateTable("schedules").set({ last_error: message }).where("id", "=", schedule.id).execute();
+    }
+  }
+}
+
+async function runDueSchedules(db: Kysely<Database>, launchers: ScheduleLaunchers) {
+  const now = new Date();
+  const due = await db
+    .selectFrom("schedules")
+    .selectAll()
+    .where("enabled", "=", 1)
+    .where("next_run_at", "is not", null)
+    .where("next_run_at", "<=", now.toISOString())
+    .execute();
+
+  for (const schedule of due) {
+    let next: string | null;
+    try {
+      next = computeNextRun(schedule.cron, now);
+    } catch {
+      next = null;
+    }
+
+    const claimed = await db
+      .updateTable("schedules")
+      .set({ next_run_at: next, updated_at: nowIso() })
+      .where("id", "=", schedule.id)
+      .where("next_run_at", "=", schedule.next_run_at)
+      .executeTakeFirst();
+    if (Number(claimed.numUpdatedRows) === 0) continue;
+
+    const missed = now.getTime() - Date.parse(schedule.next_run_at!) > 2 * TICK_MS;
+    if (missed && schedule.missed_policy === "skip") {
+      await db.updateTable("schedules").set({ last_error: "SKIPPED_MISSED_RUN" }).where("id", "=", schedule.id).execute();
+      continue;
+    }
+
+    try {
+      await runScheduleNow(db, launchers, schedule);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      await db
+        .updateTable("schedules")
+        .set({ last_error: message === "SCHEDULE_BUSY" ? "SKIPPED_OVERLAP" : message })
+        .where("id", "=", schedule.id)
+        .execute();
+    }
+  }
+}
+
+export function startScheduler(db: Kysely<Database>, launchers: ScheduleLaunchers) {
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runDueSchedules(db, launchers);
+      await launchChainedLabels(db, launchers);
+    } catch {
+    } finally {
+      running = false;
+    }
+  };
+  tick();
+  return setInterval(tick, TICK_MS);
+}
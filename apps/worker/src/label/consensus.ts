@@ -0,0 +1,41 @@
+import type { LabelResult } from "./types";
+
+export const CONSENSUS_METHODS = ["majority", "mean"] as const;
+export type ConsensusMethod = (typeof CONSENSUS_METHODS)[number];
+
+const GRADE_ORDER: LabelResult["grade"][] = ["S", "A", "B", "C", "D"];
+
+function consensusGrade(samples: LabelResult[], method: ConsensusMethod) {
+  const ordinals = samples.map((s) => GRADE_ORDER.indexOf(s.grade));
+  if (method === "mean") {
+    // Halves round toward the lower grade, matching the rubric's "when in doubt, grade down" tie-break.
+    return GRADE_ORDER[Math.round(ordinals.reduce((sum, o) => sum + o, 0) / ordinals.length)];
+  }
+  const counts = new Map<number, number>();
+  for (const o of ordinals) counts.set(o, (counts.get(o) ?? 0) + 1);
+  let best = -1;
+  for (const [o, n] of counts) {
+    const bestCount = counts.get(best) ?? 0;
+    if (n > bestCount || (n === bestCount && o > best)) best = o;
+  }
+  return GRADE_ORDER[best];
+}
+
+// Collapses several samples into one label. Agreement is the share of samples that gave the consensus grade.
+export function consensusLabel(samples: LabelResult[], method: ConsensusMethod = "majority") {
+  if (samples.length === 0) throw new Error("CONSENSUS_NO_SAMPLES");
+  const grade = consensusGrade(samples, method);
+  const matching = samples.filter((s) => s.grade === grade);
+  const target = GRADE_ORDER.indexOf(grade);
+  // Reason and features come from the most confident agreeing sample, or the closest one when the mean lands between samples.
+  const representative = (matching.length > 0 ? matching : samples).reduce((best, s) => {
+    const distance = Math.abs(GRADE_ORDER.indexOf(s.grade) - target);
+    const bestDistance = Math.abs(GRADE_ORDER.indexOf(best.grade) - target);
+    if (distance !== bestDistance) return distance < bestDistance ? s : best;
+    return s.extracted.confidence > best.extracted.confidence ? s : best;
+  });
+  return {
+    result: { ...representative, grade } satisfies LabelResult,
+    agreement: matching.length / samples.length,
+  };
+}
@@ -0,0 +1,19 @@
+import type { LabelPriceRow } from "../db/types";
+import type { LabelUsage } from "./types";
+
+// Image tokens are already part of the input tokens; per_image is only for backends that bill images on top.
+// Returns null when the model has no price, so unknown spend is not mistaken for free calls.
+export function labelCallCost(price: LabelPriceRow | undefined, usage: LabelUsage, imageCount: number) {
+  if (!price) return null;
+  return (
+    ((usage.inputTokens ?? 0) * price.input_per_million + (usage.outputTokens ?? 0) * price.output_per_million) / 1_000_000 +
+    imageCount * price.per_image
+  );
+}
+
+// Average spend per finished model times the models still to go; null until a model has finished.
+export function projectedRemainingCost(job: { cost: number; total_count: number; processed_count: number; failed_count: number }) {
+  const done = job.processed_count + job.failed_count;
+  if (done === 0) return null;
+  return (job.cost / done) * Math.max(0, job.total_count - done);
+}
@@ -0,0 +1,28 @@
+import type { LabelErrorClass } from "../db/types";
+import { LabelHttpError } from "./providers/http";
+
+export type LabelOutputErrorClass = Extract<LabelErrorClass, "EMPTY_OUTPUT" | "INVALID_JSON" | "SCHEMA_VIOLATION">;
+
+const OUTPUT_ERROR_CODES: Record<LabelOutputErrorClass, string> = {
+  EMPTY_OUTPUT: "LABEL_EMPTY_OUTPUT",
+  INVALID_JSON: "LABEL_INVALID_JSON",
+  SCHEMA_VIOLATION: "LABEL_SCHEMA_VIOLATION",
+};
+
+// The call went through but its output is unusable; `issues` is what gets fed back when re-asking.
+export class LabelOutputError extends Error {
+  constructor(
+    readonly errorClass: LabelOutputErrorClass,
+    readonly issues: string[],
+    readonly outputText: string | null,
+  ) {
+    super(errorClass === "SCHEMA_VIOLATION" ? `${OUTPUT_ERROR_CODES[errorClass]}: ${issues.join("; ")}` : OUTPUT_ERROR_CODES[errorClass]);
+  }
+}
+
+export function classifyLabelError(err: unknown): LabelErrorClass {
+  if (err instanceof LabelOutputError) return err.errorClass;
+  if (err instanceof LabelHttpError) return "API_ERROR";
+  if (err instanceof TypeError && /fetch failed/i.test(err.message)) return "API_ERROR";
+  return "UNKNOWN";
+}
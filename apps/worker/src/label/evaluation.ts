@@ -0,0 +1,148 @@
+import type { Extracted, LabelResult } from "./types";
+
+type Grade = LabelResult["grade"];
+
+export const EVAL_GRADES: Grade[] = ["S", "A", "B", "C", "D"];
+
+const BOOLEAN_FIELDS = [
+  "story",
+  "selling_points",
+  "interaction",
+  "scene",
+  "params",
+  "instructions",
+  "multicolor",
+  "advanced_structure",
+  "use_case",
+] as const;
+const CLARITY_LEVELS: Extracted["structure_clarity"][] = ["low", "medium", "high"];
+
+export interface EvalSample {
+  expectedGrade: Grade;
+  expected: Partial<Extracted>;
+  predictedGrade: Grade | null;
+  predicted: Partial<Extracted> | null;
+  latencyMs: number | null;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  imageTokens: number | null;
+  cost: number | null;
+  error: string | null;
+}
+
+export interface FieldMetrics {
+  support: number;
+  accuracy: number | null;
+  precision: number | null;
+  recall: number | null;
+}
+
+const ratio = (n: number, d: number) => (d > 0 ? n / d : null);
+
+function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(sorted.length - 1, Math.floor((sorted.length - 1) * p))];
+}
+
+// Unweighted Cohen's kappa over the grade confusion matrix.
+function cohensKappa(confusion: Record<Grade, Record<Grade, number>>, n: number) {
+  if (n === 0) return null;
+  let observed = 0;
+  let expected = 0;
+  for (const g of EVAL_GRADES) {
+    observed += confusion[g][g];
+    const rowTotal = EVAL_GRADES.reduce((sum, p) => sum + confusion[g][p], 0);
+    const colTotal = EVAL_GRADES.reduce((sum, e) => sum + confusion[e][g], 0);
+    expected += (rowTotal * colTotal) / (n * n);
+  }
+  observed /= n;
+  return expected === 1 ? null : (observed - expected) / (1 - expected);
+}
+
+// Precision/recall treat `true` as the positive class; structure clarity is macro-averaged over its levels.
+function fieldMetrics(pairs: { expected: Partial<Extracted>; predicted: Partial<Extracted> }[]) {
+  const out: Record<string, FieldMetrics> = {};
+  for (const field of BOOLEAN_FIELDS) {
+    let tp = 0;
+    let fp = 0;
+    let fn = 0;
+    let correct = 0;
+    let support = 0;
+    for (const { expected, predicted } of pairs) {
+      const e = expected[field];
+      const p = predicted[field];
+      if (typeof e !== "boolean" || typeof p !== "boolean") continue;
+      support++;
+      if (e === p) correct++;
+      if (p && e) tp++;
+      if (p && !e) fp++;
+      if (!p && e) fn++;
+    }
+    out[field] = { support, accuracy: ratio(correct, support), precision: ratio(tp, tp + fp), recall: ratio(tp, tp + fn) };
+  }
+
+  const clarity = pairs.filter((x) => x.expected.structure_clarity && x.predicted.structure_clarity);
+  const perLevel = CLARITY_LEVELS.map((level) => {
+    const tp = clarity.filter((x) => x.predicted.structure_clarity === level && x.expected.structure_clarity === level).length;
+    const predicted = clarity.filter((x) => x.predicted.structure_clarity === level).length;
+    const actual = clarity.filter((x) => x.expected.structure_clarity === level).length;
+    return { precision: ratio(tp, predicted), recall: ratio(tp, actual) };
+  });
+  const mean = (values: (number | null)[]) => {
+    const present = values.filter((v): v is number => v !== null);
+    return present.length ? present.reduce((a, b) => a + b, 0) / present.length : null;
+  };
+  out.structure_clarity = {
+    support: clarity.length,
+    accuracy: ratio(clarity.filter((x) => x.expected.structure_clarity === x.predicted.structure_clarity).length, clarity.length),
+    precision: mean(perLevel.map((l) => l.precision)),
+    recall: mean(perLevel.map((l) => l.recall)),
+  };
+  return out;
+}
+
+export function evaluationReport(samples: EvalSample[]) {
+  const confusion = Object.fromEntries(
+    EVAL_GRADES.map((e) => [e, Object.fromEntries(EVAL_GRADES.map((p) => [p, 0]))]),
+  ) as Record<Grade, Record<Grade, number>>;
+  const done = samples.filter((s) => s.predictedGrade !== null);
+  let exact = 0;
+  let withinOne = 0;
+  for (const s of done) {
+    const p = s.predictedGrade!;
+    confusion[s.expectedGrade][p]++;
+    const distance = Math.abs(EVAL_GRADES.indexOf(s.expectedGrade) - EVAL_GRADES.indexOf(p));
+    if (distance === 0) exact++;
+    if (distance <= 1) withinOne++;
+  }
+
+  const latencies = done
+    .map((s) => s.latencyMs)
+    .filter((v): v is number => v !== null)
+    .sort((a, b) => a - b);
+  const sum = (values: (number | null)[]) => values.reduce<number>((acc, v) => acc + (v ?? 0), 0);
+
+  return {
+    total: samples.length,
+    evaluated: done.length,
+    failed: samples.filter((s) => s.error !== null).length,
+    exactAccuracy: ratio(exact, done.length),
+    withinOneAccuracy: ratio(withinOne, done.length),
+    kappa: cohensKappa(confusion, done.length),
+    confusion,
+    fields: fieldMetrics(done.map((s) => ({ expected: s.expected, predicted: s.predicted ?? {} }))),
+    latency: {
+      avgMs: latencies.length ? Math.round(sum(latencies) / latencies.length) : null,
+      p50Ms: percentile(latencies, 0.5),
+      p95Ms: percentile(latencies, 0.95),
+    },
+    usage: {
+      inputTokens: sum(done.map((s) => s.inputTokens)),
+      outputTokens: sum(done.map((s) => s.outputTokens)),
+      imageTokens: sum(done.map((s) => s.imageTokens)),
+      // Cost stays null when none of the calls had a price configured for their model.
+      cost: done.some((s) => s.cost !== null) ? sum(done.map((s) => s.cost)) : null,
+      unpricedCount: done.filter((s) => s.cost === null).length,
+    },
+  };
+}
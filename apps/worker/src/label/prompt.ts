@@ -0,0 +1,204 @@
+import { z } from "zod";
+import type { Rubric } from "./rubric";
+import { LabelOutputError } from "./errors";
+import type { LabelInput, LabelPrompt, LabelResult, LabelUsage, ReferenceImage } from "./types";
+
+const GRADES = ["S", "A", "B", "C", "D"] as const;
+
+function clamp01(n: number) {
+  if (Number.isNaN(n)) return 0;
+  return Math.max(0, Math.min(1, n));
+}
+
+export function referenceCaption(r: ReferenceImage) {
+  return r.note ? `参考${r.grade}（${r.note}）：` : `参考${r.grade}：`;
+}
+
+export function buildSystemPrompt(rubric: Rubric, references: ReferenceImage[]) {
+  const referenceGrades = Array.from(new Set(references.map((r) => r.grade))).join("/");
+  return [
+    "你是一个3D打印模型内容分级标注助手。",
+    "你的任务：只根据【图片】抽取要素，并按S/A/B/C/D标准给出等级与理由。",
+    "严格规则：没有明确证据就填false；不要因为图片看起来很精美就臆测图片里看不到的信息。",
+    ...rubric.features.map((f) => `${f.label}：${f.definition}`),
+    "分级标准：",
+    ...GRADES.map((g) => `${g}：${rubric.grades[g]}`),
+    ...rubric.constraints.map((c) => `约束：${c}`),
+    ...(references.length > 0
+      ? [
+          `你会额外收到${references.length}张参考样例图，分别对应${referenceGrades}。请用它们校准“信息密度与结构质量”，但仍以当前样本图片为准。`,
+        ]
+      : []),
+    ...rubric.tieBreaks.map((t) => `分级决策：${t}`),
+    "输出必须是一个JSON对象，不要输出任何多余文本。",
+  ].join("\n");
+}
+
+const extractedSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    story: { type: "boolean" },
+    selling_points: { type: "boolean" },
+    interaction: { type: "boolean" },
+    scene: { type: "boolean" },
+    params: { type: "boolean" },
+    instructions: { type: "boolean" },
+    structure_clarity: { type: "string", enum: ["low", "medium", "high"] },
+    multicolor: { type: "boolean" },
+    advanced_structure: { type: "boolean" },
+    use_case: { type: "boolean" },
+    summary: { type: "string" },
+    confidence: { type: "number" },
+  },
+  required: [
+    "story",
+    "selling_points",
+    "interaction",
+    "scene",
+    "params",
+    "instructions",
+    "structure_clarity",
+    "multicolor",
+    "advanced_structure",
+    "use_case",
+    "summary",
+    "confidence",
+  ],
+};
+
+export const labelResultSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    grade: { type: "string", enum: ["S", "A", "B", "C", "D"] },
+    reason: { type: "string" },
+    extracted: extractedSchema,
+  },
+  required: ["grade", "reason", "extracted"],
+};
+
+// For backends without structured output: the schema goes into the prompt text instead.
+export function schemaInstruction() {
+  return [
+    "请输出一个JSON对象，严格满足以下JSON Schema，禁止输出任何额外文本/Markdown/代码块：",
+    JSON.stringify(labelResultSchema),
+  ].join("\n\n");
+}
+
+export function buildLabelPrompt(input: LabelInput, rubric: Rubric, references: ReferenceImage[]): LabelPrompt {
+  return {
+    url: input.url,
+    system: buildSystemPrompt(rubric, references),
+    imageUrls: Array.from(new Set(input.imageUrls.filter(Boolean))).slice(0, 10),
+    references,
+  };
+}
+
+function parseJsonObject(raw: string) {
+  const trimmed = raw.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {}
+  let start = -1;
+  let depth = 0;
+  for (let i = 0; i < trimmed.length; i++) {
+    const ch = trimmed[i];
+    if (ch === "{") {
+      if (depth === 0) start = i;
+      depth += 1;
+    } else if (ch === "}") {
+      depth -= 1;
+      if (depth === 0 && start >= 0) {
+        try {
+          return JSON.parse(trimmed.slice(start, i + 1));
+        } catch {
+          break;
+        }
+      }
+    }
+  }
+  throw new LabelOutputError("INVALID_JSON", ["输出不是合法的JSON对象"], raw);
+}
+
+// Pulls the model's text out of either a Responses API or a chat-completions payload.
+export function extractOutputText(data: any): string | undefined {
+  if (typeof data?.output_text === "string") return data.output_text;
+  const parts: string[] = [];
+  const out = data?.output;
+  if (Array.isArray(out)) {
+    for (const item of out) {
+      const content = item?.content;
+      if (!Array.isArray(content)) continue;
+      for (const c of content) {
+        const t = typeof c?.text === "string" ? c.text : typeof c?.content === "string" ? c.content : null;
+        if (t) parts.push(t);
+      }
+    }
+  }
+  if (parts.length > 0) return parts.join("\n");
+  const choices = data?.choices;
+  if (Array.isArray(choices) && choices[0]?.message?.content) return String(choices[0].message.content);
+  return undefined;
+}
+
+// Responses API reports input/output_tokens, chat/completions prompt/completion_tokens.
+// Image tokens only show up when the backend breaks them out in the token details.
+export function extractUsage(data: any): LabelUsage {
+  const usage = data?.usage;
+  const num = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : null);
+  return {
+    inputTokens: num(usage?.input_tokens) ?? num(usage?.prompt_tokens),
+    outputTokens: num(usage?.output_tokens) ?? num(usage?.completion_tokens),
+    imageTokens: num(usage?.input_tokens_details?.image_tokens) ?? num(usage?.prompt_tokens_details?.image_tokens),
+  };
+}
+
+// Runtime counterpart of labelResultSchema. Confidence is clamped rather than rejected; unknown keys are dropped.
+const labelResultValidator = z.object({
+  grade: z.enum(GRADES),
+  reason: z.string(),
+  extracted: z.object({
+    story: z.boolean(),
+    selling_points: z.boolean(),
+    interaction: z.boolean(),
+    scene: z.boolean(),
+    params: z.boolean(),
+    instructions: z.boolean(),
+    structure_clarity: z.enum(["low", "medium", "high"]),
+    multicolor: z.boolean(),
+    advanced_structure: z.boolean(),
+    use_case: z.boolean(),
+    summary: z.string(),
+    confidence: z.number().transform(clamp01),
+  }),
+});
+
+export function toLabelResult(parsed: unknown, outputText: string | null = null): LabelResult {
+  const checked = labelResultValidator.safeParse(parsed);
+  if (!checked.success) {
+    const issues = checked.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+    throw new LabelOutputError("SCHEMA_VIOLATION", issues, outputText);
+  }
+  const { grade, reason, extracted } = checked.data;
+  return {
+    grade,
+    reason: reason.trim() ? reason : `要素：story=${extracted.story}, selling=${extracted.selling_points}, interaction=${extracted.interaction}, scene=${extracted.scene}, params=${extracted.params}, instructions=${extracted.instructions}, structure=${extracted.structure_clarity}, multicolor=${extracted.multicolor}, advanced=${extracted.advanced_structure}, use_case=${extracted.use_case}`,
+    extracted,
+  };
+}
+
+export function parseLabelOutput(data: unknown) {
+  const outputText = extractOutputText(data);
+  if (!outputText?.trim()) throw new LabelOutputError("EMPTY_OUTPUT", ["输出为空"], outputText ?? null);
+  return toLabelResult(parseJsonObject(outputText), outputText);
+}
+
+// Appended to the conversation when re-asking after an unusable output.
+export function repairInstruction(issues: string[]) {
+  return [
+    "上一次的输出不符合要求：",
+    ...issues.map((i) => `- ${i}`),
+    "请根据同样的图片重新输出一个完整的JSON对象，严格满足要求的字段和取值，不要输出任何额外文本。",
+  ].join("\n");
+}
@@ -0,0 +1,41 @@
+import { env } from "../../env";
+import { parseLabelOutput, repairInstruction, schemaInstruction } from "../prompt";
+import type { LabelProvider } from "../types";
+import { postLabelRequest, trimBaseUrl, type HttpLabelRequest } from "./http";
+
+export const arkProvider: LabelProvider<HttpLabelRequest> = {
+  name: "ark",
+  model: () => env.ARK_MODEL.trim(),
+  isConfigured: () => !!env.ARK_API_KEY,
+  buildRequest(prompt) {
+    const content: any[] = [{ type: "input_text", text: "当前样本图片：" }];
+    for (const u of prompt.imageUrls) {
+      content.push({ type: "input_image", image_url: u });
+    }
+    content.push({ type: "input_text", text: [prompt.system, schemaInstruction()].join("\n\n") });
+    for (const r of prompt.references) {
+      content.push({ type: "input_text", text: `参考${r.grade}（仅用于校准等级${r.note ? `；${r.note}` : ""}）：` });
+      content.push({ type: "input_image", image_url: r.dataUrl });
+    }
+
+    return {
+      url: `${trimBaseUrl(env.ARK_BASE_URL)}/responses`,
+      apiKey: env.ARK_API_KEY,
+      body: {
+        model: env.ARK_MODEL.trim(),
+        input: [
+          { role: "user", content },
+          ...(prompt.repair
+            ? [
+                { role: "assistant", content: [{ type: "output_text", text: prompt.repair.output }] },
+                { role: "user", content: [{ type: "input_text", text: repairInstruction(prompt.repair.issues) }] },
+              ]
+            : []),
+        ],
+        thinking: { type: "disabled" },
+      },
+    };
+  },
+  call: postLabelRequest,
+  parse: parseLabelOutput,
+};
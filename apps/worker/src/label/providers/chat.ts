@@ -0,0 +1,46 @@
+import { env } from "../../env";
+import { parseLabelOutput, referenceCaption, repairInstruction, schemaInstruction } from "../prompt";
+import type { LabelProvider } from "../types";
+import { postLabelRequest, trimBaseUrl, type HttpLabelRequest } from "./http";
+
+// Any OpenAI-compatible /chat/completions endpoint, e.g. a local vLLM or Ollama server.
+export const chatProvider: LabelProvider<HttpLabelRequest> = {
+  name: "chat",
+  model: () => env.LABEL_CHAT_MODEL.trim(),
+  isConfigured: () => !!env.LABEL_CHAT_BASE_URL && !!env.LABEL_CHAT_MODEL.trim(),
+  buildRequest(prompt) {
+    const userParts: any[] = [{ type: "text", text: "请仅根据接下来提供的图片进行标注。" }];
+    for (const u of prompt.imageUrls) {
+      userParts.push({ type: "image_url", image_url: { url: u } });
+    }
+    if (prompt.references.length > 0) {
+      userParts.push({ type: "text", text: "参考样例（仅用于校准等级）：" });
+      for (const r of prompt.references) {
+        userParts.push({ type: "text", text: referenceCaption(r) });
+        userParts.push({ type: "image_url", image_url: { url: r.dataUrl } });
+      }
+    }
+
+    return {
+      url: `${trimBaseUrl(env.LABEL_CHAT_BASE_URL ?? "")}/chat/completions`,
+      apiKey: env.LABEL_CHAT_API_KEY,
+      body: {
+        model: env.LABEL_CHAT_MODEL.trim(),
+        messages: [
+          { role: "system", content: [prompt.system, schemaInstruction()].join("\n\n") },
+          { role: "user", content: userParts },
+          ...(prompt.repair
+            ? [
+                { role: "assistant", content: prompt.repair.output },
+                { role: "user", content: repairInstruction(prompt.repair.issues) },
+              ]
+            : []),
+        ],
+        response_format: { type: "json_object" },
+        temperature: 0,
+      },
+    };
+  },
+  call: postLabelRequest,
+  parse: parseLabelOutput,
+};
@@ -0,0 +1,45 @@
+export interface HttpLabelRequest {
+  url: string;
+  apiKey?: string;
+  body: unknown;
+}
+
+export class LabelHttpError extends Error {
+  constructor(
+    readonly status: number,
+    body: string,
+    readonly retryAfterMs: number | null,
+  ) {
+    super(`LABEL_API_ERROR: ${status} ${body}`);
+  }
+}
+
+export function trimBaseUrl(raw: string) {
+  return raw.trim().replace(/`/g, "").replace(/\/+$/g, "");
+}
+
+// Retry-After is either delta-seconds or an HTTP date.
+export function parseRetryAfter(value: string | null, now = Date.now()) {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(value);
+  return Number.isNaN(at) ? null : Math.max(0, at - now);
+}
+
+export async function postLabelRequest(request: HttpLabelRequest): Promise<unknown> {
+  const response = await fetch(request.url, {
+    method: "POST",
+    headers: {
+      ...(request.apiKey ? { authorization: `Bearer ${request.apiKey}` } : {}),
+      "content-type": "application/json",
+    },
+    body: JSON.stringify(request.body),
+  });
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new LabelHttpError(response.status, t, parseRetryAfter(response.headers.get("retry-after")));
+  }
+  return response.json();
+}
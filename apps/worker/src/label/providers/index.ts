@@ -0,0 +1,129 @@
+import { createHash } from "node:crypto";
+import { env } from "../../env";
+import { buildLabelPrompt, extractUsage, labelResultSchema } from "../prompt";
+import { estimatePromptTokens, isRetryableLabelError, labelRetryDelayMs, providerLimiter, rateLimitStatus } from "../rateLimit";
+import type { Rubric } from "../rubric";
+import { LabelOutputError } from "../errors";
+import type { LabelInput, LabelPrompt, LabelProvider, LabelProviderName, LabelUsage, ReferenceImage } from "../types";
+import { arkProvider } from "./ark";
+import { chatProvider } from "./chat";
+import { LabelHttpError } from "./http";
+import { mockProvider } from "./mock";
+import { openaiProvider } from "./openai";
+
+export const LABEL_PROVIDER_NAMES = ["openai", "ark", "chat", "mock"] as const satisfies readonly LabelProviderName[];
+
+const providers: Record<LabelProviderName, LabelProvider<any>> = {
+  openai: openaiProvider,
+  ark: arkProvider,
+  chat: chatProvider,
+  mock: mockProvider,
+};
+
+export function resolveLabelProvider(name?: LabelProviderName): LabelProvider<any> {
+  const explicit = name ?? env.LABEL_PROVIDER;
+  if (explicit) {
+    const provider = providers[explicit];
+    if (!provider.isConfigured()) throw new Error(`LABEL_PROVIDER_NOT_CONFIGURED: ${explicit}`);
+    return provider;
+  }
+  // Without an explicit choice keep the historical preference: Ark, then OpenAI.
+  if (arkProvider.isConfigured()) return arkProvider;
+  if (openaiProvider.isConfigured()) return openaiProvider;
+  if (chatProvider.isConfigured()) return chatProvider;
+  throw new Error("LABEL_API_KEY_MISSING");
+}
+
+export function listLabelProviders() {
+  return LABEL_PROVIDER_NAMES.map((name) => ({
+    name,
+    model: providers[name].model(),
+    configured: providers[name].isConfigured(),
+    rateLimit: rateLimitStatus(name),
+  }));
+}
+
+async function callWithRateLimit(provider: LabelProvider<any>, request: unknown, estimatedTokens: number) {
+  const limiter = providerLimiter(provider.name);
+  for (let attempt = 1; ; attempt++) {
+    await limiter.acquire(estimatedTokens);
+    const startedAt = Date.now();
+    try {
+      const response = await provider.call(request);
+      const latencyMs = Date.now() - startedAt;
+      const usage = extractUsage(response);
+      const actualTokens = usage.inputTokens === null ? null : usage.inputTokens + (usage.outputTokens ?? 0);
+      limiter.succeeded(estimatedTokens, actualTokens);
+      return { response, latencyMs };
+    } catch (err) {
+      if (!isRetryableLabelError(err) || attempt >= env.LABEL_MAX_ATTEMPTS) throw err;
+      const retryAfterMs = err instanceof LabelHttpError ? err.retryAfterMs : null;
+      limiter.throttled(retryAfterMs);
+      // With Retry-After the limiter already holds every caller of this provider back.
+      if (retryAfterMs === null) await new Promise((r) => setTimeout(r, labelRetryDelayMs(attempt)));
+    }
+  }
+}
+
+// Identifies the prompt version, not the call: only the parts shared by every model go in (no sample URL or images),
+// so runs with the same rubric, references, output schema and backend model share a hash.
+function promptVersionHash(provider: LabelProvider, prompt: LabelPrompt, rubric: Rubric) {
+  const sha256 = (text: string) => createHash("sha256").update(text).digest("hex");
+  return sha256(
+    JSON.stringify({
+      provider: provider.name,
+      model: provider.model(),
+      system: prompt.system,
+      rubric,
+      schema: labelResultSchema,
+      references: prompt.references.map((r) => ({ grade: r.grade, note: r.note, image: sha256(r.dataUrl) })),
+    }),
+  );
+}
+
+const addTokens = (a: number | null, b: number | null) => (a === null && b === null ? null : (a ?? 0) + (b ?? 0));
+
+// An unusable output (empty, not JSON, failing the schema) is sent back with the validation issues and asked again,
+// up to LABEL_REPAIR_ATTEMPTS times. Usage and latency add up over all attempts.
+export async function labelModel(
+  input: LabelInput,
+  options: {
+    provider?: LabelProviderName;
+    rubric: Rubric;
+    references: ReferenceImage[];
+    onInvalidOutput?: (attempt: number, error: LabelOutputError) => Promise<void>;
+  },
+) {
+  const provider = resolveLabelProvider(options.provider);
+  const prompt = buildLabelPrompt(input, options.rubric, options.references);
+  const estimatedTokens = estimatePromptTokens(prompt);
+  const usage: LabelUsage = { inputTokens: null, outputTokens: null, imageTokens: null };
+  let latencyMs = 0;
+  let repair: LabelPrompt["repair"];
+  for (let attempt = 1; ; attempt++) {
+    const call = await callWithRateLimit(provider, provider.buildRequest({ ...prompt, repair }), estimatedTokens);
+    const callUsage = extractUsage(call.response);
+    usage.inputTokens = addTokens(usage.inputTokens, callUsage.inputTokens);
+    usage.outputTokens = addTokens(usage.outputTokens, callUsage.outputTokens);
+    usage.imageTokens = addTokens(usage.imageTokens, callUsage.imageTokens);
+    latencyMs += call.latencyMs;
+    try {
+      return {
+        provider: provider.name,
+        model: provider.model(),
+        promptHash: promptVersionHash(provider, prompt, options.rubric),
+        rawOutput: JSON.stringify(call.response),
+        latencyMs,
+        usage,
+        imageCount: prompt.imageUrls.length + prompt.references.length,
+        attempts: attempt,
+        result: provider.parse(call.response),
+      };
+    } catch (err) {
+      if (!(err instanceof LabelOutputError)) throw err;
+      await options.onInvalidOutput?.(attempt, err);
+      if (attempt > env.LABEL_REPAIR_ATTEMPTS) throw err;
+      repair = { output: err.outputText?.trim() || "（空）", issues: err.issues };
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { createHash } from "node:crypto";
+import { env } from "../../env";
+import { parseLabelOutput } from "../prompt";
+import type { LabelInput, LabelProvider, LabelResult } from "../types";
+import { postLabelRequest, type HttpLabelRequest } from "./http";
+
+const GRADES: LabelResult["grade"][] = ["S", "A", "B", "C", "D"];
+const CLARITY: LabelResult["extracted"]["structure_clarity"][] = ["low", "medium", "high"];
+
+// Same input always yields the same label, so offline runs are reproducible.
+export function mockLabel(input: LabelInput): LabelResult {
+  const digest = createHash("sha1").update(input.url).digest();
+  const bit = (i: number) => ((digest[1] >> i) & 1) === 1;
+  const grade = GRADES[digest[0] % GRADES.length];
+  return {
+    grade,
+    reason: `mock：根据 ${input.imageUrls.length} 张图片给出 ${grade}`,
+    extracted: {
+      story: bit(0),
+      selling_points: bit(1),
+      interaction: bit(2),
+      scene: bit(3),
+      params: bit(4),
+      instructions: bit(5),
+      structure_clarity: CLARITY[digest[2] % CLARITY.length],
+      multicolor: bit(6),
+      advanced_structure: bit(7),
+      use_case: digest[3] % 2 === 0,
+      summary: `mock summary for ${input.url}`,
+      confidence: Math.round((digest[4] / 255) * 100) / 100,
+    },
+  };
+}
+
+// Fixed Responses-style usage so cost accounting can be exercised offline.
+export function mockUsage(input: LabelInput) {
+  return { input_tokens: 500 + input.imageUrls.length * 1000, output_tokens: 200 };
+}
+
+type MockRequest = HttpLabelRequest | { local: LabelInput };
+
+export const mockProvider: LabelProvider<MockRequest> = {
+  name: "mock",
+  model: () => "mock",
+  isConfigured: () => true,
+  buildRequest(prompt) {
+    const input = { url: prompt.url, imageUrls: prompt.imageUrls };
+    if (!env.LABEL_MOCK_URL) return { local: input };
+    return { url: env.LABEL_MOCK_URL, body: input };
+  },
+  async call(request) {
+    if ("local" in request) {
+      return { output_text: JSON.stringify(mockLabel(request.local)), usage: mockUsage(request.local) };
+    }
+    return postLabelRequest(request);
+  },
+  parse: parseLabelOutput,
+};
@@ -0,0 +1,44 @@
+import { env } from "../../env";
+import { labelResultSchema, parseLabelOutput, referenceCaption, repairInstruction } from "../prompt";
+import type { LabelProvider } from "../types";
+import { postLabelRequest, trimBaseUrl, type HttpLabelRequest } from "./http";
+
+export const openaiProvider: LabelProvider<HttpLabelRequest> = {
+  name: "openai",
+  model: () => env.OPENAI_MODEL.trim(),
+  isConfigured: () => !!env.OPENAI_API_KEY,
+  buildRequest(prompt) {
+    const userParts: any[] = [{ type: "input_text", text: "请仅根据接下来提供的图片进行标注。" }];
+    for (const u of prompt.imageUrls) {
+      userParts.push({ type: "input_image", image_url: u });
+    }
+    if (prompt.references.length > 0) {
+      userParts.push({ type: "input_text", text: "参考样例（仅用于校准等级）：" });
+      for (const r of prompt.references) {
+        userParts.push({ type: "input_text", text: referenceCaption(r) });
+        userParts.push({ type: "input_image", image_url: r.dataUrl });
+      }
+    }
+
+    return {
+      url: `${trimBaseUrl(env.OPENAI_BASE_URL)}/responses`,
+      apiKey: env.OPENAI_API_KEY,
+      body: {
+        model: env.OPENAI_MODEL.trim(),
+        input: [
+          { role: "system", content: [{ type: "input_text", text: prompt.system }] },
+          { role: "user", content: userParts },
+          ...(prompt.repair
+            ? [
+                { role: "assistant", content: [{ type: "output_text", text: prompt.repair.output }] },
+                { role: "user", content: [{ type: "input_text", text: repairInstruction(prompt.repair.issues) }] },
+              ]
+            : []),
+        ],
+        text: { format: { type: "json_schema", name: "label_result", schema: labelResultSchema, strict: true } },
+      },
+    };
+  },
+  call: postLabelRequest,
+  parse: parseLabelOutput,
+};
@@ -0,0 +1,132 @@
+import { env } from "../env";
+import type { LabelPrompt, LabelProviderName } from "./types";
+import { LabelHttpError } from "./providers/http";
+
+// 0 means unlimited.
+export interface RateLimit {
+  rpm: number;
+  tpm: number;
+}
+
+const MAX_PENALTY_MS = 60_000;
+
+// LABEL_RATE_LIMITS looks like "ark=60/200000,openai=500/0" and overrides LABEL_RPM / LABEL_TPM per provider.
+export function rateLimitFor(provider: LabelProviderName): RateLimit {
+  const limit: RateLimit = { rpm: env.LABEL_RPM, tpm: env.LABEL_TPM };
+  for (const entry of (env.LABEL_RATE_LIMITS ?? "").split(",")) {
+    const [name, value] = entry.split("=").map((s) => s.trim());
+    if (name !== provider || !value) continue;
+    const [rpm, tpm] = value.split("/").map((s) => Number(s));
+    if (Number.isFinite(rpm) && rpm >= 0) limit.rpm = rpm;
+    if (Number.isFinite(tpm) && tpm >= 0) limit.tpm = tpm;
+  }
+  return limit;
+}
+
+// Rough pre-call estimate so the token bucket can be charged before usage is known; corrected afterwards.
+export function estimatePromptTokens(prompt: LabelPrompt) {
+  const images = prompt.imageUrls.length + prompt.references.length;
+  return Math.ceil(prompt.system.length / 2) + images * env.LABEL_IMAGE_TOKEN_ESTIMATE;
+}
+
+// Balance may go negative: a caller reserves its share up front and waits until the deficit has refilled,
+// so concurrent callers queue in order instead of all polling for the same capacity.
+class TokenBucket {
+  private balance: number;
+  private updatedAt = Date.now();
+
+  constructor(private readonly perMinute: number) {
+    this.balance = perMinute;
+  }
+
+  private refill(now: number) {
+    this.balance = Math.min(this.perMinute, this.balance + ((now - this.updatedAt) * this.perMinute) / 60_000);
+    this.updatedAt = now;
+  }
+
+  reserve(amount: number, now: number) {
+    this.refill(now);
+    this.balance -= amount;
+    return this.balance >= 0 ? 0 : Math.ceil((-this.balance * 60_000) / this.perMinute);
+  }
+
+  adjust(amount: number) {
+    this.balance -= amount;
+  }
+}
+
+class ProviderLimiter {
+  private requests: TokenBucket | null;
+  private tokens: TokenBucket | null;
+  private nextSlot = 0;
+  private blockedUntil = 0;
+  private penaltyMs = 0;
+
+  constructor(readonly limit: RateLimit) {
+    this.requests = limit.rpm > 0 ? new TokenBucket(limit.rpm) : null;
+    this.tokens = limit.tpm > 0 ? new TokenBucket(limit.tpm) : null;
+  }
+
+  async acquire(estimatedTokens: number) {
+    const now = Date.now();
+    const budgetWaitMs = Math.max(this.requests?.reserve(1, now) ?? 0, this.tokens?.reserve(estimatedTokens, now) ?? 0);
+    let at = Math.max(now + budgetWaitMs, this.blockedUntil, this.nextSlot);
+    this.nextSlot = at + this.penaltyMs;
+    if (at > now) await sleep(at - now);
+    // A Retry-After may have arrived while this caller was queued; line up again behind it.
+    while (Date.now() < this.blockedUntil) {
+      at = Math.max(this.blockedUntil, this.nextSlot);
+      this.nextSlot = at + this.penaltyMs;
+      await sleep(at - Date.now());
+    }
+  }
+
+  succeeded(estimatedTokens: number, actualTokens: number | null) {
+    if (actualTokens !== null) this.tokens?.adjust(actualTokens - estimatedTokens);
+    this.penaltyMs = this.penaltyMs < 100 ? 0 : Math.floor(this.penaltyMs / 2);
+  }
+
+  throttled(retryAfterMs: number | null) {
+    this.penaltyMs = Math.min(MAX_PENALTY_MS, Math.max(500, this.penaltyMs * 2));
+    if (retryAfterMs !== null) this.blockedUntil = Math.max(this.blockedUntil, Date.now() + retryAfterMs);
+  }
+
+  snapshot() {
+    return {
+      ...this.limit,
+      penaltyMs: this.penaltyMs,
+      blockedUntil: this.blockedUntil > Date.now() ? new Date(this.blockedUntil).toISOString() : null,
+    };
+  }
+}
+
+// One limiter per provider for the whole process, shared by every label and eval job.
+const limiters = new Map<LabelProviderName, ProviderLimiter>();
+
+export function providerLimiter(provider: LabelProviderName) {
+  let limiter = limiters.get(provider);
+  if (!limiter) {
+    limiter = new ProviderLimiter(rateLimitFor(provider));
+    limiters.set(provider, limiter);
+  }
+  return limiter;
+}
+
+export function rateLimitStatus(provider: LabelProviderName) {
+  return providerLimiter(provider).snapshot();
+}
+
+// 429, 5xx and network failures are worth another attempt; anything else (bad key, bad request) is not.
+export function isRetryableLabelError(err: unknown) {
+  if (err instanceof LabelHttpError) return err.status === 429 || err.status >= 500;
+  return err instanceof TypeError && /fetch failed/i.test(err.message);
+}
+
+export function labelRetryDelayMs(attempt: number) {
+  const base = Math.min(30_000, 1000 * 2 ** Math.max(0, attempt - 1));
+  return base + Math.floor(Math.random() * Math.min(1000, base / 4 + 1));
+}
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
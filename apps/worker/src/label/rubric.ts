@@ -1,4 +1,37 @@
-export const defaultRubric = {
+import type { Extracted, LabelResult } from "./types";
+
+export type FeatureKey = Exclude<keyof Extracted, "summary" | "confidence">;
+
+export const FEATURE_KEYS = [
+  "story",
+  "selling_points",
+  "interaction",
+  "scene",
+  "params",
+  "instructions",
+  "structure_clarity",
+  "multicolor",
+  "advanced_structure",
+  "use_case",
+] as const satisfies readonly FeatureKey[];
+
+export interface RubricFeature {
+  key: FeatureKey;
+  label: string;
+  definition: string;
+}
+
+export interface Rubric {
+  grades: Record<LabelResult["grade"], string>;
+  constraints: string[];
+  features: RubricFeature[];
+  tieBreaks: string[];
+  referenceCounts: Record<LabelResult["grade"], number>;
+}
+
+export const defaultReferenceCounts: Rubric["referenceCounts"] = { S: 1, A: 1, B: 1, C: 1, D: 1 };
+
+export const defaultRubric: Rubric = {
   grades: {
     S: "精品：图片信息密度极高（多视角/分解或爆炸图/步骤图/参数标注等），同时展示多色分件或高级结构。",
     A: "专业：图片清晰、结构与细节展示充分；有参数或说明类信息；多视角加分。",
@@ -12,4 +45,38 @@ export const defaultRubric = {
     "如果只有单张简单图且信息很少，通常不超过D/C。",
     "输出必须严格JSON。",
   ],
-} as const;
+  features: [
+    {
+      key: "structure_clarity",
+      label: "结构清晰度（只看图片信息组织）",
+      definition:
+        "high=多视角/分解图/爆炸图/步骤图/参数标注/文字要点等信息组织清晰；medium=有多张图或有少量标注；low=仅1张图且信息很少。",
+    },
+    {
+      key: "selling_points",
+      label: "卖点（只看图片）",
+      definition: "图片中明确表达独特点/优势（例如对比图、关键结构特写、功能展示、标注“no support/quick print”等）。",
+    },
+    {
+      key: "interaction",
+      label: "互动（只看图片）",
+      definition: "可动/旋转/滑动/锁紧/替换/组合/机关玩法有明确展示（箭头、姿态变化、结构特写）。",
+    },
+    { key: "scene", label: "场景（只看图片）", definition: "展示在具体使用场景/环境中（墙面安装、桌面使用、浴室/厨房等）。" },
+    {
+      key: "params",
+      label: "参数（只看图片）",
+      definition: "图片中有尺寸线、mm/cm/英寸、数量、部件编号、材料/设置卡片等明确参数信息。",
+    },
+    { key: "instructions", label: "说明（只看图片）", definition: "图片中有步骤/流程/装配顺序/注意事项/图示说明。" },
+    {
+      key: "advanced_structure",
+      label: "高级结构（只看图片）",
+      definition: "复杂装配/机构结构/大量分件/多组件爆炸图/卡扣铰链等明确展示。",
+    },
+    { key: "multicolor", label: "多色分件（只看图片）", definition: "多色分件拆解、不同颜色组件、分色示意、分件清单等明确展示。" },
+    { key: "use_case", label: "用途（只看图片）", definition: "从外观与展示方式能明确看出用途（挂钩、收纳、摆件、工具等）。" },
+  ],
+  tieBreaks: ["如果介于S与A之间，优先判为A；如果介于A与C之间，优先判为C。只有与S参考样例非常接近时才判S。"],
+  referenceCounts: defaultReferenceCounts,
+};
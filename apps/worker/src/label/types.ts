@@ -0,0 +1,53 @@
+export interface Extracted {
+  story: boolean;
+  selling_points: boolean;
+  interaction: boolean;
+  scene: boolean;
+  params: boolean;
+  instructions: boolean;
+  structure_clarity: "low" | "medium" | "high";
+  multicolor: boolean;
+  advanced_structure: boolean;
+  use_case: boolean;
+  summary: string;
+  confidence: number;
+}
+
+export interface LabelResult {
+  grade: "S" | "A" | "B" | "C" | "D";
+  reason: string;
+  extracted: Extracted;
+}
+
+export type ReferenceImage = { grade: LabelResult["grade"]; note: string | null; dataUrl: string };
+
+export interface LabelInput {
+  imageUrls: string[];
+  url: string;
+}
+
+export interface LabelPrompt {
+  url: string;
+  system: string;
+  imageUrls: string[];
+  references: ReferenceImage[];
+  // Set when re-asking: the rejected output and why it was rejected.
+  repair?: { output: string; issues: string[] };
+}
+
+export interface LabelUsage {
+  inputTokens: number | null;
+  outputTokens: number | null;
+  imageTokens: number | null;
+}
+
+export type LabelProviderName = "openai" | "ark" | "chat" | "mock";
+
+export interface LabelProvider<Req = unknown> {
+  name: LabelProviderName;
+  model(): string;
+  isConfigured(): boolean;
+  buildRequest(prompt: LabelPrompt): Req;
+  call(request: Req): Promise<unknown>;
+  parse(response: unknown): LabelResult;
+}
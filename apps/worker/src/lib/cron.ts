@@ -0,0 +1,104 @@
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@nightly": "0 2 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  // Sunday is both 0 and 7, as in standard cron; 7 is folded into 0 after parsing.
+  [0, 7],
+];
+
+export interface CronSpec {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+function parseField(field: string, [min, max]: [number, number]) {
+  const out = new Set<number>();
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`CRON_INVALID: ${field}`);
+
+    let from = min;
+    let to = max;
+    if (rangePart !== "*") {
+      const [a, b] = rangePart.split("-");
+      from = Number(a);
+      to = b === undefined ? (stepPart === undefined ? from : max) : Number(b);
+    }
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < min || to > max || from > to) {
+      throw new Error(`CRON_INVALID: ${field}`);
+    }
+    for (let v = from; v <= to; v += step) out.add(v);
+  }
+  return out;
+}
+
+export function parseCron(expr: string): CronSpec {
+  const normalized = MACROS[expr.trim().toLowerCase()] ?? expr.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) throw new Error(`CRON_INVALID: ${expr}`);
+  const weekdays = new Set(Array.from(parseField(fields[4], RANGES[4]), (v) => (v === 7 ? 0 : v)));
+  return {
+    minutes: parseField(fields[0], RANGES[0]),
+    hours: parseField(fields[1], RANGES[1]),
+    days: parseField(fields[2], RANGES[2]),
+    months: parseField(fields[3], RANGES[3]),
+    weekdays,
+    anyDay: fields[2] === "*",
+    anyWeekday: fields[4] === "*",
+  };
+}
+
+function dayMatches(spec: CronSpec, d: Date) {
+  const dom = spec.days.has(d.getDate());
+  const dow = spec.weekdays.has(d.getDay());
+  if (spec.anyDay && spec.anyWeekday) return true;
+  if (spec.anyDay) return dow;
+  if (spec.anyWeekday) return dom;
+  return dom || dow;
+}
+
+export function nextCronTime(expr: string, after: Date) {
+  const spec = parseCron(expr);
+  const d = new Date(after.getTime());
+  d.setSeconds(0, 0);
+  d.setMinutes(d.getMinutes() + 1);
+
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60_000;
+  while (d.getTime() <= limit) {
+    if (!spec.months.has(d.getMonth() + 1)) {
+      d.setMonth(d.getMonth() + 1, 1);
+      d.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(spec, d)) {
+      d.setDate(d.getDate() + 1);
+      d.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!spec.hours.has(d.getHours())) {
+      d.setHours(d.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!spec.minutes.has(d.getMinutes())) {
+      d.setMinutes(d.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return d;
+  }
+  throw new Error(`CRON_NO_NEXT_RUN: ${expr}`);
+}
@@ -0,0 +1,49 @@
+import { EventEmitter } from "node:events";
+
+export type JobEvent =
+  | { type: "status"; status: string; lastError?: string | null }
+  | { type: "discovered"; count: number }
+  | { type: "model_done"; modelId: string; url: string; title?: string | null; grade?: string | null }
+  | { type: "model_failed"; modelId: string; url: string; error: string; errorClass?: string; retrying?: boolean }
+  | { type: "error"; message: string };
+
+export type StampedJobEvent = JobEvent & { seq: number; at: string };
+
+const RECENT_LIMIT = 100;
+const MAX_TRACKED_JOBS = 50;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+const recent = new Map<string, StampedJobEvent[]>();
+let seq = 0;
+
+export function publishJobEvent(jobId: string, event: JobEvent) {
+  seq += 1;
+  const stamped: StampedJobEvent = { ...event, seq, at: new Date().toISOString() };
+
+  let buffer = recent.get(jobId);
+  if (!buffer) {
+    if (recent.size >= MAX_TRACKED_JOBS) {
+      const oldest = recent.keys().next().value;
+      if (oldest !== undefined) recent.delete(oldest);
+    }
+    buffer = [];
+    recent.set(jobId, buffer);
+  }
+  buffer.push(stamped);
+  if (buffer.length > RECENT_LIMIT) buffer.splice(0, buffer.length - RECENT_LIMIT);
+
+  emitter.emit(jobId, stamped);
+}
+
+export function recentJobEvents(jobId: string) {
+  return [...(recent.get(jobId) ?? [])];
+}
+
+export function subscribeJobEvents(jobId: string, listener: (event: StampedJobEvent) => void) {
+  emitter.on(jobId, listener);
+  return () => {
+    emitter.off(jobId, listener);
+  };
+}
@@ -0,0 +1,49 @@
+import type { ModelMetricsSnapshotRow } from "../db/types";
+
+type Snapshot = Pick<
+  ModelMetricsSnapshotRow,
+  "captured_at" | "download_count" | "like_count" | "collect_count" | "print_count"
+>;
+
+export interface MetricsGrowth {
+  from: string;
+  to: string;
+  days: number;
+  downloadDelta: number | null;
+  downloadsPerDay: number | null;
+  downloadGrowthRate: number | null;
+  likeDelta: number | null;
+  collectDelta: number | null;
+  printDelta: number | null;
+}
+
+function delta(first: number | null, last: number | null) {
+  if (first === null || last === null) return null;
+  return last - first;
+}
+
+export function computeGrowth(snapshots: Snapshot[]): MetricsGrowth | null {
+  const withDownloads = snapshots.filter((s) => s.download_count !== null);
+  const series = withDownloads.length >= 2 ? withDownloads : snapshots;
+  if (series.length < 2) return null;
+
+  const sorted = [...series].sort((a, b) => a.captured_at.localeCompare(b.captured_at));
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const days = (Date.parse(last.captured_at) - Date.parse(first.captured_at)) / 86_400_000;
+  if (!(days > 0)) return null;
+
+  const downloadDelta = delta(first.download_count, last.download_count);
+  return {
+    from: first.captured_at,
+    to: last.captured_at,
+    days,
+    downloadDelta,
+    downloadsPerDay: downloadDelta === null ? null : downloadDelta / days,
+    downloadGrowthRate:
+      downloadDelta === null || !first.download_count ? null : downloadDelta / first.download_count,
+    likeDelta: delta(first.like_count, last.like_count),
+    collectDelta: delta(first.collect_count, last.collect_count),
+    printDelta: delta(first.print_count, last.print_count),
+  };
+}
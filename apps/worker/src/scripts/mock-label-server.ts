@@ -0,0 +1,48 @@
+import http from "node:http";
+import { mockLabel, mockUsage } from "../label/providers/mock";
+
+// Stub labeling backend for offline runs: LABEL_PROVIDER=mock LABEL_MOCK_URL=http://localhost:4600/label
+const port = Number(process.env.MOCK_LABEL_PORT ?? 4600);
+const delayMs = Number(process.env.MOCK_LABEL_DELAY_MS ?? 200);
+// Every Nth request answers 429 with Retry-After, to exercise the worker's rate limiting (0 disables).
+const throttleEvery = Number(process.env.MOCK_LABEL_429_EVERY ?? 0);
+// Every Nth request returns a label with an out-of-enum grade, to exercise the repair loop (0 disables).
+const invalidEvery = Number(process.env.MOCK_LABEL_INVALID_EVERY ?? 0);
+let requestCount = 0;
+
+const server = http.createServer((req, res) => {
+  if (req.method !== "POST") {
+    res.writeHead(405).end();
+    return;
+  }
+  const n = (requestCount += 1);
+  if (throttleEvery > 0 && n % throttleEvery === 0) {
+    res.writeHead(429, { "content-type": "application/json", "retry-after": "1" });
+    res.end(JSON.stringify({ error: "rate limited" }));
+    return;
+  }
+  let raw = "";
+  req.on("data", (chunk) => {
+    raw += chunk;
+  });
+  req.on("end", () => {
+    try {
+      const body = JSON.parse(raw) as { url?: unknown; imageUrls?: unknown };
+      if (typeof body.url !== "string") throw new Error("url required");
+      const imageUrls = Array.isArray(body.imageUrls) ? body.imageUrls.filter((u): u is string => typeof u === "string") : [];
+      const input = { url: body.url, imageUrls };
+      const result: object = invalidEvery > 0 && n % invalidEvery === 0 ? { ...mockLabel(input), grade: "E" } : mockLabel(input);
+      setTimeout(() => {
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify({ output_text: JSON.stringify(result), usage: mockUsage(input) }));
+      }, delayMs);
+    } catch (err) {
+      res.writeHead(400, { "content-type": "application/json" });
+      res.end(JSON.stringify({ error: err instanceof Error ? err.message : String(err) }));
+    }
+  });
+});
+
+server.listen(port, () => {
+  process.stdout.write(`mock label server listening on http://localhost:${port}\n`);
+});